@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from "@/app/utils/llm";
+import { DEFAULT_DOCUMENT_TYPE, isDocumentType } from "@/app/utils/documentTypes";
+import { MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { generateThreadReply } from "@/app/utils/threadGeneration";
+
+// Replies to a follow-up question on one annotation
+export async function POST(request: NextRequest) {
+  try {
+    const { markdownProposal, quote, feedback, history = [], message, documentType = DEFAULT_DOCUMENT_TYPE, provider: requestedProvider } = await request.json();
+
+    if (!markdownProposal || !quote || !feedback || typeof message !== "string" || !message.trim()) {
+      return NextResponse.json({ error: 'Missing document text, annotation or message' }, { status: 400 });
+    }
+
+    if (!Array.isArray(history) || history.some((m: any) => (m?.role !== "student" && m?.role !== "reviewer") || typeof m.text !== "string")) {
+      return NextResponse.json({ error: 'Invalid thread history' }, { status: 400 });
+    }
+
+    if (!isDocumentType(documentType)) {
+      return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+    }
+
+    const llm = getProvider(request, { provider: requestedProvider, geminiModel: MODEL_NAME });
+    const { reply, usage } = await generateThreadReply(llm, { markdownProposal, quote, feedback, history, message: message.trim(), documentType });
+
+    if (!reply) {
+      return NextResponse.json({ error: 'The AI returned an empty reply.' }, { status: 502 });
+    }
+
+    return NextResponse.json({ reply, usage, provider: llm.name, model: llm.model });
+  } catch (error: any) {
+    console.error("Annotation thread error:", error);
+    return NextResponse.json({ error: 'Failed to get a reply from AI.' }, { status: 500 });
+  }
+}
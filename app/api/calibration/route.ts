@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from "@/app/utils/llm";
+import { DEFAULT_DOCUMENT_TYPE, isDocumentType } from "@/app/utils/documentTypes";
+import { MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { AUTO_LANGUAGE, isOutputLanguage } from "@/app/utils/languages";
+import { isHarshnessLevel, promptTemplateSchema } from "@/app/utils/promptTemplates";
+import { getHeldOutExemplars, rubricSchema } from "@/app/utils/rubric";
+import { validateSchema } from "@/app/utils/schemaValidation";
+import { runCalibration } from "@/app/utils/calibration";
+
+// Grades the rubric's held-out exemplars and reports how well the model agrees with the markers
+export async function POST(request: NextRequest) {
+  try {
+    const { rubric, assessmentGuidelines = '', documentType = DEFAULT_DOCUMENT_TYPE, harshness = "tough", promptTemplate, language = AUTO_LANGUAGE, provider: requestedProvider } = await request.json();
+
+    if (!rubric) {
+      return NextResponse.json({ error: 'Missing rubric' }, { status: 400 });
+    }
+
+    const rubricIssues = validateSchema(rubric, rubricSchema);
+    if (rubricIssues.length > 0) {
+      return NextResponse.json({ error: 'Invalid rubric', details: rubricIssues }, { status: 400 });
+    }
+
+    if (getHeldOutExemplars(rubric).length === 0) {
+      return NextResponse.json({ error: 'The rubric has no held-out exemplars to calibrate against' }, { status: 400 });
+    }
+
+    if (!isDocumentType(documentType)) {
+      return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+    }
+
+    if (!isOutputLanguage(language)) {
+      return NextResponse.json({ error: `Unknown output language: ${language}` }, { status: 400 });
+    }
+
+    if (!isHarshnessLevel(harshness)) {
+      return NextResponse.json({ error: `Unknown harshness level: ${harshness}` }, { status: 400 });
+    }
+
+    const templateIssues = promptTemplate ? validateSchema(promptTemplate, promptTemplateSchema) : [];
+    if (templateIssues.length > 0) {
+      return NextResponse.json({ error: 'Invalid prompt template', details: templateIssues }, { status: 400 });
+    }
+
+    const llm = getProvider(request, { provider: requestedProvider, geminiModel: MODEL_NAME });
+    const report = await runCalibration(llm, { assessmentGuidelines, documentType, harshness, rubric, promptTemplate, language });
+
+    return NextResponse.json({ ...report, provider: llm.name, model: llm.model });
+  } catch (error: any) {
+    console.error("Calibration error:", error);
+    return NextResponse.json({ error: 'Failed to run the calibration.' }, { status: 500 });
+  }
+}
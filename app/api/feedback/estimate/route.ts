@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseFeedbackRequest } from "@/app/utils/feedbackRequest";
+import { estimateFeedbackCost } from "@/app/utils/costEstimate";
+
+// Estimates tokens and cost of a feedback request (same body as /api/feedback)
+// for each available provider, without generating anything
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseFeedbackRequest(await request.json());
+    if (parsed instanceof NextResponse) return parsed;
+    const { options, personas, provider } = parsed;
+
+    const estimates = await estimateFeedbackCost(request, options, personas, provider);
+    return NextResponse.json({ estimates });
+  } catch (error: any) {
+    console.error("Error estimating feedback cost:", error);
+    return NextResponse.json({ error: 'Failed to estimate the cost of the feedback.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from "@/app/utils/llm";
+import { validateFeedback } from "@/app/utils/feedback";
+import { parseFeedbackRequest } from "@/app/utils/feedbackRequest";
+import { FeedbackValidationError, MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { regenerateFeedback, RegenerationTarget, RegenerationTargetError } from "@/app/utils/feedbackRegeneration";
+
+const isTarget = (target: any): target is RegenerationTarget =>
+  (target?.type === "examination" || target?.type === "passage") && Number.isInteger(target.index)
+  || target?.type === "section" && typeof target.heading === "string";
+
+// Regenerates one examination area or annotation, or adds annotations on one section.
+// Takes the same options as /api/feedback plus the current feedback, the target and
+// an optional steering instruction; returns the updated feedback.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseFeedbackRequest(body);
+    if (parsed instanceof NextResponse) return parsed;
+    const { options, provider: requestedProvider } = parsed;
+    const { feedback, target, instruction } = body;
+
+    if (!isTarget(target)) {
+      return NextResponse.json({ error: 'Invalid regeneration target' }, { status: 400 });
+    }
+
+    const { value: current, issues } = validateFeedback(feedback);
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'Invalid current feedback', details: issues }, { status: 400 });
+    }
+
+    const llm = getProvider(request, { provider: requestedProvider, geminiModel: MODEL_NAME });
+
+    try {
+      const result = await regenerateFeedback(llm, options, current, target, typeof instruction === "string" ? instruction : undefined);
+      return NextResponse.json({ ...result, provider: llm.name, model: llm.model });
+    } catch (regenerationError: any) {
+      if (regenerationError instanceof RegenerationTargetError) {
+        return NextResponse.json({ error: regenerationError.message }, { status: 400 });
+      }
+      if (!(regenerationError instanceof FeedbackValidationError)) throw regenerationError;
+      console.error("Regenerated feedback failed validation:", regenerationError);
+      return NextResponse.json({
+        error: `Failed to parse feedback from AI. ${regenerationError.message}`,
+        details: regenerationError.details
+      }, { status: 502 });
+    }
+  } catch (error: any) {
+    console.error("Regeneration error:", error);
+    return NextResponse.json({ error: 'Failed to regenerate feedback.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from "@/app/utils/llm";
+import { feedbackCacheKey, parseFeedbackRequest } from "@/app/utils/feedbackRequest";
+import { generateFeedback, generatePanelFeedback, generateReasoning, MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { generateSearchTerms } from "@/app/utils/searchTerms";
+import { findRecentPapers } from "@/app/utils/openAlex";
+import { eventStreamResponse } from "@/app/utils/sse";
+import { readCache, writeCache } from "@/app/utils/resultCache";
+
+// Streaming variant of /api/feedback. Runs the whole pipeline and reports progress
+// as server-sent events:
+//   stage        { stage: "search_terms" | "papers" | "feedback" | "reasoning" }
+//   search_terms { searchTerms, cached? }
+//   papers       { query, papers }
+//   chunk        { index, total }   (long documents only)
+//   passage      FeedbackPassage    (as soon as it is parsed)
+//   examination  FeedbackExamination
+//   reviewer     { reviewer, feedback } (panel mode, instead of passage/examination)
+//   complete     same body as /api/feedback (with `cached` when served from the cache)
+//   error        { error }
+export async function POST(request: NextRequest) {
+  // Errors before the stream starts are answered with JSON, like /api/feedback
+  let parsed: ReturnType<typeof parseFeedbackRequest>;
+  try {
+    parsed = parseFeedbackRequest(await request.json());
+  } catch (error: any) {
+    console.error("Invalid feedback stream request:", error);
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 });
+  }
+  if (parsed instanceof NextResponse) return parsed;
+  const { options, personas, provider: requestedProvider, force } = parsed;
+  const { markdownProposal, documentType, language } = options;
+
+  return eventStreamResponse(async (send) => {
+    const llm = getProvider(request, { provider: requestedProvider, geminiModel: MODEL_NAME });
+
+    send('stage', { stage: 'search_terms' });
+    const { searchTerms, cached: searchTermsCached } = await generateSearchTerms(request, { markdownProposal, documentType, language, provider: requestedProvider, force });
+    send('search_terms', { searchTerms, cached: searchTermsCached });
+
+    send('stage', { stage: 'papers' });
+    try {
+      const { query, papers } = await findRecentPapers(searchTerms);
+      send('papers', { query, papers });
+    } catch (papersError) {
+      // Recommendations are optional, don't fail the feedback for them
+      console.error("Error fetching paper recommendations:", papersError);
+      send('papers', { query: searchTerms[0] || '', papers: [] });
+    }
+
+    send('stage', { stage: 'feedback' });
+    const key = feedbackCacheKey(parsed, llm);
+    const cached = force ? null : await readCache<Record<string, unknown>>("feedback", key);
+    if (cached) {
+      send('complete', { ...cached.value, cached: cached.hit });
+      return;
+    }
+
+    // Panel reviewers run side by side, so progress is reported per reviewer rather than per item
+    const result = personas
+      ? await generatePanelFeedback(llm, options, personas, review => send('reviewer', review))
+      : await generateFeedback(llm, options, {
+          onChunkStart: (chunk, total) => send('chunk', { index: chunk.index, total }),
+          onPassage: passage => send('passage', passage),
+          onExamination: item => send('examination', item)
+        });
+    const { feedback, usage, chunks } = result;
+
+    send('stage', { stage: 'reasoning' });
+    const aiReasoning = await generateReasoning(llm, options);
+
+    const body = {
+      feedback,
+      usage,
+      reasoning: aiReasoning,
+      chunks,
+      panel: 'reviewers' in result ? { reviewers: result.reviewers } : undefined,
+      provider: llm.name,
+      model: llm.model
+    };
+    await writeCache("feedback", key, body);
+    send('complete', body);
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Mistral } from '@mistralai/mistralai';
+import { cacheKey, hashContent, readCache, writeCache } from "@/app/utils/resultCache";
 
 const apiKey = process.env.MISTRAL_API_KEY;
 
@@ -9,6 +10,8 @@ if (!apiKey) {
 
 const client = new Mistral({apiKey});
 
+const OCR_MODEL = "mistral-ocr-latest";
+
 // Define a simple type for the OCR page response
 interface OcrPage {
     index: number;
@@ -21,6 +24,7 @@ export async function POST(request: NextRequest) {
     console.log("Starting OCR process...");
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
+    const force = formData.get('force') === 'true';
 
     if (!file || !(file instanceof File)) {
       return NextResponse.json({ error: 'No file uploaded or invalid file type.' }, { status: 400 });
@@ -32,13 +36,22 @@ export async function POST(request: NextRequest) {
 
     // Convert the file to a Buffer for upload
     const fileContent = Buffer.from(await file.arrayBuffer());
+
+    // The same PDF always gives the same text, whatever it is called
+    const key = cacheKey({ pdf: hashContent(fileContent), model: OCR_MODEL });
+    const cached = force ? null : await readCache<string>("ocr", key);
+    if (cached) {
+      console.log("Using cached OCR result.");
+      return NextResponse.json({ markdown: cached.value, cached: cached.hit });
+    }
     
-    console.log(`Uploading file ${file.name} (${(fileContent.length / 1024 / 1024).toFixed(2)} MB) to Mistral...`);
+    // File names often contain the student's name, so neither the log nor Mistral gets it
+    console.log(`Uploading PDF (${(fileContent.length / 1024 / 1024).toFixed(2)} MB) to Mistral...`);
     
     // Step 1: Upload the file to Mistral
     const uploadedFile = await client.files.upload({
         file: {
-            fileName: file.name,
+            fileName: "document.pdf",
             content: fileContent,
         },
         purpose: "ocr"
@@ -51,7 +64,7 @@ export async function POST(request: NextRequest) {
         fileId: uploadedFile.id
     });
     
-    console.log("File retrieved:", retrievedFile.id, retrievedFile);
+    console.log("File retrieved:", retrievedFile.id);
     
     // Step 3: Get a signed URL for the file
     const signedUrl = await client.files.getSignedUrl({
@@ -63,7 +76,7 @@ export async function POST(request: NextRequest) {
     // Step 4: Call OCR process using the signed URL
     console.log("Calling Mistral OCR...");
     const ocrResponse = await client.ocr.process({
-        model: "mistral-ocr-latest",
+        model: OCR_MODEL,
         document: {
             type: "document_url",
             documentUrl: signedUrl.url,
@@ -86,6 +99,7 @@ export async function POST(request: NextRequest) {
         // Don't fail the request if cleanup fails
     }
     
+    await writeCache("ocr", key, markdownContent);
     return NextResponse.json({ markdown: markdownContent });
 
   } catch (error: any) {
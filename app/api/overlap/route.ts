@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectOverlap, OverlapDocument } from "@/app/utils/overlap";
+
+// Compares the submissions of a batch with each other for shared passages
+export async function POST(request: NextRequest) {
+  try {
+    const { submissions } = await request.json();
+
+    if (!Array.isArray(submissions) || submissions.length < 2) {
+      return NextResponse.json({ error: 'At least two submissions are needed' }, { status: 400 });
+    }
+
+    const documents: OverlapDocument[] = submissions.map((submission: any) => ({
+      id: String(submission?.id ?? ''),
+      name: String(submission?.name ?? ''),
+      markdown: submission?.markdown
+    }));
+    if (documents.some(document => !document.id || typeof document.markdown !== 'string')) {
+      return NextResponse.json({ error: 'Every submission needs an id and its document text' }, { status: 400 });
+    }
+
+    return NextResponse.json(detectOverlap(documents));
+  } catch (error: any) {
+    console.error("Overlap detection error:", error);
+    return NextResponse.json({ error: 'Failed to compare submissions.' }, { status: 500 });
+  }
+}
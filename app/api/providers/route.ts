@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getAvailableProviders, getDefaultProvider } from "@/app/utils/llm";
+
+// Lists the LLM providers configured on this server so the client can offer a choice
+export async function GET() {
+  const providers = getAvailableProviders();
+  const defaultProvider = getDefaultProvider();
+
+  return NextResponse.json({
+    providers,
+    default: providers.includes(defaultProvider) ? defaultProvider : providers[0]
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyReferences } from "@/app/utils/referenceVerification";
+
+// Checks the document's reference list against OpenAlex and its in-text citations against the list
+export async function POST(request: NextRequest) {
+  try {
+    const { markdownProposal } = await request.json();
+
+    if (!markdownProposal) {
+      return NextResponse.json({ error: 'Missing document text' }, { status: 400 });
+    }
+
+    return NextResponse.json(await verifyReferences(markdownProposal));
+  } catch (error: any) {
+    console.error("Reference verification error:", error);
+    return NextResponse.json({ error: 'Failed to verify references.' }, { status: 500 });
+  }
+}
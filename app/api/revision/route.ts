@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from "@/app/utils/llm";
+import { validateFeedback } from "@/app/utils/feedback";
+import { DEFAULT_DOCUMENT_TYPE, isDocumentType } from "@/app/utils/documentTypes";
+import { FeedbackValidationError, MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { generateRevisionReport } from "@/app/utils/revisionGeneration";
+
+// Compares a resubmitted draft with the previous draft and the feedback it received
+export async function POST(request: NextRequest) {
+  try {
+    const { markdownProposal, previous, documentType = DEFAULT_DOCUMENT_TYPE, provider: requestedProvider } = await request.json();
+
+    if (!markdownProposal || !previous?.feedback) {
+      return NextResponse.json({ error: 'Missing document text or previous feedback' }, { status: 400 });
+    }
+
+    if (!isDocumentType(documentType)) {
+      return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+    }
+
+    const { value: previousFeedback, issues } = validateFeedback(previous.feedback);
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'The previous feedback is not a valid feedback export', details: issues }, { status: 400 });
+    }
+
+    const llm = getProvider(request, { provider: requestedProvider, geminiModel: MODEL_NAME });
+
+    try {
+      const { report, usage } = await generateRevisionReport(llm, {
+        previous: {
+          markdownProposal: typeof previous.markdownProposal === "string" ? previous.markdownProposal : undefined,
+          feedback: previousFeedback
+        },
+        markdownProposal,
+        documentType
+      });
+
+      return NextResponse.json({ report, usage, provider: llm.name, model: llm.model });
+    } catch (validationError: any) {
+      if (!(validationError instanceof FeedbackValidationError)) throw validationError;
+      console.error("Revision judgement failed validation:", validationError);
+      return NextResponse.json({
+        error: `Failed to parse revision report from AI. ${validationError.message}`,
+        details: validationError.details
+      }, { status: 502 });
+    }
+  } catch (error: any) {
+    console.error("Revision report error:", error);
+    return NextResponse.json({ error: 'Failed to generate revision report.' }, { status: 500 });
+  }
+}
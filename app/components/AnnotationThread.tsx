@@ -0,0 +1,59 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { AnnotationThread as Thread } from "../utils/annotationThreads";
+
+export default function AnnotationThread({
+  thread,
+  pending,
+  error,
+  onSend,
+}: {
+  thread?: Thread;
+  // True while waiting for the reviewer's reply
+  pending: boolean;
+  error?: string | null;
+  onSend: (message: string) => void;
+}) {
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!message.trim() || pending) return;
+    onSend(message.trim());
+    setMessage('');
+  };
+
+  return (
+    // Clicks inside the thread shouldn't trigger the annotation's jump-to-text
+    <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 space-y-2" onClick={(e) => e.stopPropagation()}>
+      {thread?.messages.map((m, index) => (
+        <div
+          key={index}
+          className={`p-2 rounded whitespace-pre-wrap ${m.role === 'student' ? 'ml-4 bg-blue-50 dark:bg-blue-900/30' : 'mr-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600'}`}
+        >
+          <p className="mb-0.5 text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400">{m.role === 'student' ? 'You' : 'Reviewer'}</p>
+          {m.text}
+        </div>
+      ))}
+      {pending && <p className="italic text-gray-500 dark:text-gray-400">The reviewer is writing...</p>}
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+      <form onSubmit={handleSubmit} className="flex gap-1">
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="What do you mean by this?"
+          className="flex-1 min-w-0 p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={!message.trim() || pending}
+          className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { BATCH_STATUS_LABELS, BatchStatus, BatchSubmission, submissionRubricResult } from "../utils/batch";
+import { Rubric } from "../utils/rubric";
+import { ReviewStateBadge } from "./ReviewPanel";
+
+const STATUS_CLASSES: Record<BatchStatus, string> = {
+  queued: 'bg-gray-100 border-gray-300 text-gray-700 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300',
+  ocr: 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-300',
+  feedback: 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-300',
+  done: 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300',
+  error: 'bg-red-100 border-red-300 text-red-800 dark:bg-red-900/50 dark:border-red-700 dark:text-red-300'
+};
+
+interface BatchPanelProps {
+  submissions: BatchSubmission[];
+  // Rubric the batch is scored with, for the grade column
+  rubric: Rubric | null;
+  running: boolean;
+  onOpen: (id: string) => void;
+  onRetryFailed: () => void;
+  onExport: () => void;
+  onAddToCohort: () => void;
+  onCheckOverlap: () => void;
+  checkingOverlap: boolean;
+}
+
+export default function BatchPanel({ submissions, rubric, running, onOpen, onRetryFailed, onExport, onAddToCohort, onCheckOverlap, checkingOverlap }: BatchPanelProps) {
+  const done = submissions.filter(s => s.status === "done").length;
+  const failed = submissions.filter(s => s.status === "error").length;
+  const withText = submissions.filter(s => s.markdownProposal).length;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-gray-600 dark:text-gray-400">
+          {done} of {submissions.length} done{failed > 0 ? `, ${failed} failed` : ''}{running ? '...' : ''}
+        </span>
+        <div className="h-2 flex-1 min-w-[8rem] rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${submissions.length ? (done + failed) / submissions.length * 100 : 0}%` }} />
+        </div>
+        {failed > 0 && !running && (
+          <button type="button" onClick={onRetryFailed} className="text-blue-600 dark:text-blue-400 hover:underline">Retry failed</button>
+        )}
+        <button type="button" onClick={onExport} disabled={done === 0} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline">
+          Export all (JSON)
+        </button>
+        <button type="button" onClick={onAddToCohort} disabled={done === 0} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline">
+          Add to cohort
+        </button>
+        <button type="button" onClick={onCheckOverlap} disabled={withText < 2 || checkingOverlap} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline">
+          {checkingOverlap ? 'Comparing texts...' : 'Check overlap'}
+        </button>
+      </div>
+
+      <table className="w-full text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="py-1 pr-2 font-medium">Submission</th>
+            <th className="py-1 pr-2 font-medium">Status</th>
+            <th className="py-1 pr-2 font-medium">{rubric ? 'Grade' : 'Annotations'}</th>
+            <th className="py-1 pr-2 font-medium text-right">Tokens</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {submissions.map(submission => {
+            const rubricResult = submissionRubricResult(submission, rubric);
+            return (
+              <tr key={submission.id} className="border-t border-gray-200 dark:border-gray-600 align-top">
+                <td className="py-1.5 pr-2 break-all">{submission.fileName}</td>
+                <td className="py-1.5 pr-2">
+                  <span className={`inline-block px-2 py-0.5 font-medium rounded-full border ${STATUS_CLASSES[submission.status]}`}>
+                    {BATCH_STATUS_LABELS[submission.status]}
+                  </span>
+                  {submission.result?.cached && <span className="ml-1 text-gray-500 dark:text-gray-400">(cached)</span>}
+                  {submission.review && <span className="ml-1"><ReviewStateBadge state={submission.review.state} /></span>}
+                  {submission.error && <p className="mt-1 text-red-600 dark:text-red-400">{submission.error}</p>}
+                </td>
+                <td className="py-1.5 pr-2">
+                  {submission.result && (rubricResult
+                    ? `${rubricResult.grade ?? '–'} (${rubricResult.totalPercent}%)`
+                    : submission.result.feedback.passages.length)}
+                </td>
+                <td className="py-1.5 pr-2 text-right">{submission.result?.usage.totalTokenCount?.toLocaleString('en-US') ?? ''}</td>
+                <td className="py-1.5 text-right">
+                  {submission.result && (
+                    <button type="button" onClick={() => onOpen(submission.id)} className="text-blue-600 dark:text-blue-400 hover:underline">Open</button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { ASSESSMENT_CATEGORIES } from "../utils/feedback";
+import type { CalibrationReport as Report } from "../utils/calibration";
+
+const formatPercent = (share: number | null): string => share === null ? '–' : `${Math.round(share * 100)}%`;
+
+// Usual reading of Cohen's kappa (Landis & Koch)
+const describeKappa = (kappa: number): string =>
+  kappa < 0.2 ? 'slight' : kappa < 0.4 ? 'fair' : kappa < 0.6 ? 'moderate' : kappa < 0.8 ? 'substantial' : 'almost perfect';
+
+export default function CalibrationReport({ report }: { report: Report }) {
+  return (
+    <div className="space-y-3 text-xs">
+      <p className="text-gray-700 dark:text-gray-300">
+        {report.rated} of {report.results.length} held-out exemplar{report.results.length === 1 ? '' : 's'} rated.
+        Same category as the markers: <span className="font-semibold">{formatPercent(report.agreement)}</span>,
+        within one category: <span className="font-semibold">{formatPercent(report.adjacentAgreement)}</span>
+        {report.kappa !== null && <>, Cohen&apos;s kappa <span className="font-semibold">{report.kappa.toFixed(2)}</span> ({describeKappa(report.kappa)} agreement)</>}.
+      </p>
+
+      {/* Confusion matrix: markers' categories in rows, the AI's in columns */}
+      {report.rated > 0 && (
+        <table className="text-left">
+          <thead className="text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="py-1 pr-3 font-medium">Markers \ AI</th>
+              {ASSESSMENT_CATEGORIES.map(category => <th key={category} className="py-1 pr-3 font-medium">{category}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {ASSESSMENT_CATEGORIES.map(human => (
+              <tr key={human} className="border-t border-gray-200 dark:border-gray-600">
+                <td className="py-1 pr-3 text-gray-500 dark:text-gray-400">{human}</td>
+                {ASSESSMENT_CATEGORIES.map(ai => (
+                  <td key={ai} className={`py-1 pr-3 ${human === ai ? 'font-semibold text-green-700 dark:text-green-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {report.confusion[human][ai]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <ul className="space-y-2">
+        {report.results.map(result => (
+          <li key={result.exemplarId} className="p-2 rounded border border-gray-200 dark:border-gray-600">
+            <p className="font-medium text-gray-900 dark:text-white">
+              {result.criterion}:{' '}
+              <span className={result.aiCategory === result.humanCategory ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                markers &quot;{result.humanCategory}&quot;, AI {result.aiCategory ? `"${result.aiCategory}"` : 'no rating'}
+              </span>
+            </p>
+            {result.error && <p className="mt-1 text-red-600 dark:text-red-400">{result.error}</p>}
+            <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-2 text-gray-600 dark:text-gray-400">
+              <p><span className="font-medium">Markers:</span> {result.humanFeedback || '–'}</p>
+              <p><span className="font-medium">AI:</span> {result.aiFeedback || '–'}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { ChangeEvent, useMemo, useState } from "react";
+import { ASSESSMENT_CATEGORIES, AssessmentCategory } from "../utils/feedback";
+import { analyzeCohort, CohortEntry, groupByRubric, MIN_OUTLIER_COHORT } from "../utils/cohort";
+
+const CATEGORY_COLORS: Record<AssessmentCategory, string> = {
+  excellent: 'bg-green-500',
+  'sufficient with room for improvement': 'bg-yellow-400',
+  insufficient: 'bg-red-500'
+};
+
+interface CohortDashboardProps {
+  entries: CohortEntry[];
+  onImport: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export default function CohortDashboard({ entries, onImport, onRemove, onClear, onClose }: CohortDashboardProps) {
+  const groups = useMemo(() => groupByRubric(entries), [entries]);
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  // Default to the largest group
+  const groupKey = selectedGroup !== null && groups.has(selectedGroup)
+    ? selectedGroup
+    : Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)[0]?.[0] ?? '';
+  const groupEntries = useMemo(() => groups.get(groupKey) ?? [], [groups, groupKey]);
+  const report = useMemo(() => analyzeCohort(groupEntries), [groupEntries]);
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    onImport(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-xl font-semibold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-400 dark:to-indigo-400">Cohort Analytics</h2>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer">
+            Import feedback JSON
+            <input type="file" accept="application/json,.json" multiple onChange={handleImport} className="hidden" />
+          </label>
+          {entries.length > 0 && (
+            <button type="button" onClick={onClear} className="text-red-600 dark:text-red-400 hover:underline">Clear cohort</button>
+          )}
+          <button type="button" onClick={onClose} className="text-gray-600 dark:text-gray-400 hover:underline">Close</button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No submissions yet. Import JSON files exported from Step 3 or from a batch, or add results to the cohort from the batch table or the results view.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {groups.size > 1 ? (
+              <label className="flex items-center gap-2">
+                <span className="text-gray-700 dark:text-gray-300">Rubric</span>
+                <select
+                  value={groupKey}
+                  onChange={(e) => setSelectedGroup(e.target.value)}
+                  className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg p-1.5 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {Array.from(groups.entries()).map(([key, members]) => (
+                    <option key={key} value={key}>{key || 'No rubric'} ({members.length})</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <span className="text-gray-700 dark:text-gray-300">Rubric: {groupKey || 'none'}</span>
+            )}
+            <span className="text-gray-500 dark:text-gray-400">
+              {report.submissions} submission{report.submissions === 1 ? '' : 's'}
+              {report.meanScore !== null && `, mean score ${Math.round(report.meanScore)}%`}
+            </span>
+          </div>
+
+          {/* Category distribution per examination area */}
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">Assessment per area</h3>
+            <div className="space-y-2">
+              {report.areas.map(area => (
+                <div key={area.key} className="text-xs">
+                  <div className="flex justify-between text-gray-700 dark:text-gray-300">
+                    <span>{area.name}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {ASSESSMENT_CATEGORIES.map(category => area.counts[category]).join(' / ')}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex h-3 rounded overflow-hidden bg-gray-200 dark:bg-gray-700">
+                    {ASSESSMENT_CATEGORIES.map(category => area.counts[category] > 0 && (
+                      <div
+                        key={category}
+                        className={CATEGORY_COLORS[category]}
+                        style={{ width: `${area.counts[category] / area.total * 100}%` }}
+                        title={`${category}: ${area.counts[category]}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <p className="flex flex-wrap gap-3 text-xs text-gray-500 dark:text-gray-400">
+                {ASSESSMENT_CATEGORIES.map(category => (
+                  <span key={category} className="flex items-center gap-1"><span className={`inline-block w-3 h-3 rounded ${CATEGORY_COLORS[category]}`} />{category}</span>
+                ))}
+              </p>
+            </div>
+          </section>
+
+          {/* Most common weaknesses */}
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">Most common weaknesses</h3>
+            {report.weaknesses.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Every area was rated excellent.</p>
+            ) : (
+              <ol className="space-y-2 text-xs list-decimal list-inside">
+                {report.weaknesses.map(weakness => (
+                  <li key={weakness.key} className="text-gray-700 dark:text-gray-300">
+                    <span className="font-medium">{weakness.name}</span>: below excellent in {weakness.belowExcellent} of {weakness.total}, insufficient in {weakness.insufficient}
+                    {weakness.suggestions.length > 0 && (
+                      <ul className="mt-1 ml-5 list-disc text-gray-500 dark:text-gray-400">
+                        {weakness.suggestions.map((suggestion, index) => <li key={index}>{suggestion}</li>)}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          {/* Outliers */}
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">Outlier submissions</h3>
+            {report.outliers.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {report.scores.length < MIN_OUTLIER_COHORT ? `Outliers are shown once the cohort has at least ${MIN_OUTLIER_COHORT} scored submissions.` : 'No submission stands out from the cohort.'}
+              </p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {report.outliers.map(outlier => (
+                  <li key={outlier.id} className="text-gray-700 dark:text-gray-300">
+                    <span className="font-medium">{outlier.name}</span>: {Math.round(outlier.score)}%
+                    <span className={outlier.zScore < 0 ? 'ml-1 text-red-600 dark:text-red-400' : 'ml-1 text-green-600 dark:text-green-400'}>
+                      ({outlier.zScore > 0 ? '+' : ''}{outlier.zScore.toFixed(1)} SD)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Recurring themes */}
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">Recurring themes in passage feedback</h3>
+            {report.themes.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No comment theme recurs across submissions yet.</p>
+            ) : (
+              <ul className="space-y-2 text-xs">
+                {report.themes.map((theme, index) => (
+                  <li key={index} className="p-2 rounded border border-gray-200 dark:border-gray-600">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {theme.terms.join(', ')}
+                      <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{theme.passages} comments in {theme.submissions.length} submissions</span>
+                    </p>
+                    <p className="mt-1 text-gray-600 dark:text-gray-400 italic">&quot;{theme.example}&quot;</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <details className="text-xs">
+            <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Submissions in the cohort ({entries.length})</summary>
+            <ul className="mt-2 space-y-1">
+              {entries.map(entry => (
+                <li key={entry.id} className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+                  <span className="break-all">{entry.name} <span className="text-gray-500 dark:text-gray-400">({entry.rubric?.name ?? 'no rubric'})</span></span>
+                  <button type="button" onClick={() => onRemove(entry.id)} className="text-red-600 dark:text-red-400 hover:underline">Remove</button>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </>
+      )}
+    </div>
+  );
+}
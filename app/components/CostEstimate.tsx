@@ -0,0 +1,55 @@
+"use client";
+
+import type { ProviderEstimate } from "../utils/costEstimate";
+
+const formatCost = (cost: number | null): string =>
+  cost === null ? 'unknown' : cost === 0 ? 'free' : cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');
+
+interface CostEstimateProps {
+  estimates: ProviderEstimate[];
+  // Provider the feedback will be generated with
+  selected: string | null;
+}
+
+export default function CostEstimate({ estimates, selected }: CostEstimateProps) {
+  const warnings = estimates.flatMap(estimate => estimate.warnings.map(warning => ({ provider: estimate.provider, warning })));
+
+  return (
+    <div className="space-y-2 text-xs">
+      <table className="w-full text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="py-1 pr-2 font-medium">Provider / model</th>
+            <th className="py-1 pr-2 font-medium text-right">Input tokens</th>
+            <th className="py-1 pr-2 font-medium text-right">Output (projected)</th>
+            <th className="py-1 font-medium text-right">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimates.map(estimate => (
+            <tr
+              key={estimate.provider}
+              className={`border-t border-gray-200 dark:border-gray-600 ${estimate.provider === selected ? 'font-semibold' : ''}`}
+              title={estimate.calls.map(call => `${call.label} (${call.model}, ${call.calls} call${call.calls === 1 ? '' : 's'}): ${formatTokens(call.inputTokens)} in, ${formatTokens(call.outputTokens)} out, ${formatCost(call.cost)}`).join('\n')}
+            >
+              <td className="py-1 pr-2">{estimate.provider} / {estimate.model}</td>
+              <td className="py-1 pr-2 text-right">{estimate.exact ? '' : '~'}{formatTokens(estimate.inputTokens)}</td>
+              <td className="py-1 pr-2 text-right">~{formatTokens(estimate.outputTokens)}</td>
+              <td className="py-1 text-right">{formatCost(estimate.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {warnings.map(({ provider, warning }, index) => (
+        <p key={index} className="p-2 rounded border border-orange-300 dark:border-orange-700 bg-orange-50 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300">
+          {estimates.length > 1 ? `${provider}: ` : ''}{warning}
+        </p>
+      ))}
+      <p className="text-gray-500 dark:text-gray-400">
+        Includes search terms, feedback and reasoning. Output is projected from typical runs; &quot;~&quot; marks approximate input counts. Hover a row for the breakdown.
+      </p>
+    </div>
+  );
+}
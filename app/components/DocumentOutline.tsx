@@ -0,0 +1,64 @@
+"use client";
+
+import { SectionCheck, SectionNode } from "../utils/sections";
+
+interface DocumentOutlineProps {
+  sections: SectionNode[];
+  checks: SectionCheck[];
+  // Annotations per section, keyed by the heading's offset
+  annotationCounts: Map<number, number>;
+  onSelect: (start: number) => void;
+}
+
+function OutlineItems({ nodes, annotationCounts, onSelect }: Omit<DocumentOutlineProps, "sections" | "checks"> & { nodes: SectionNode[] }) {
+  return (
+    <ul className="space-y-0.5">
+      {nodes.map(node => (
+        <li key={node.start}>
+          <button
+            type="button"
+            onClick={() => onSelect(node.start)}
+            className="w-full flex items-baseline justify-between gap-2 px-1 py-0.5 rounded text-left hover:bg-gray-100 dark:hover:bg-gray-600/50"
+            style={{ paddingLeft: `${(node.level - 1) * 0.5 + 0.25}rem` }}
+          >
+            <span className="truncate" title={node.title}>{node.title}</span>
+            <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+              {annotationCounts.get(node.start) ? `${annotationCounts.get(node.start)} · ` : ''}{node.words}w
+            </span>
+          </button>
+          {node.children.length > 0 && <OutlineItems nodes={node.children} annotationCounts={annotationCounts} onSelect={onSelect} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function DocumentOutline({ sections, checks, annotationCounts, onSelect }: DocumentOutlineProps) {
+  const flagged = checks.filter(check => check.status !== "present");
+
+  return (
+    <div className="space-y-3 text-xs">
+      {flagged.length > 0 && (
+        <div className="p-2 rounded border border-orange-300 dark:border-orange-700 bg-orange-50 dark:bg-orange-900/20">
+          <p className="mb-1 font-semibold text-orange-800 dark:text-orange-300">Expected sections</p>
+          <ul className="space-y-0.5">
+            {flagged.map(check => (
+              <li key={check.expected}>
+                {check.status === "missing"
+                  ? <span><strong>{check.expected}</strong>: missing</span>
+                  : (
+                    <button type="button" onClick={() => onSelect(check.start!)} className="text-left hover:underline">
+                      <strong>{check.expected}</strong>: only {check.words} words{check.heading && check.heading !== check.expected ? ` ("${check.heading}")` : ''}
+                    </button>
+                  )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {sections.length > 0
+        ? <OutlineItems nodes={sections} annotationCounts={annotationCounts} onSelect={onSelect} />
+        : <p className="italic text-gray-500 dark:text-gray-400">The document has no headings.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+// Opens a textarea to replace a piece of feedback with the instructor's wording
+export default function EditTextControl({
+  label = 'Edit',
+  value,
+  disabled = false,
+  rows = 3,
+  onSave,
+}: {
+  label?: string;
+  // Text the textarea starts with
+  value: string;
+  disabled?: boolean;
+  rows?: number;
+  onSave: (text: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState(value);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    onSave(text.trim());
+    setOpen(false);
+  };
+
+  return (
+    // Clicks inside the control shouldn't trigger the annotation's jump-to-text
+    <div className="mt-1 text-xs" onClick={(e) => e.stopPropagation()}>
+      {!open ? (
+        <button
+          type="button"
+          onClick={() => { setText(value); setOpen(true); }}
+          disabled={disabled}
+          className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {label}
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-1">
+          <textarea
+            rows={rows}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="block w-full p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+          />
+          <div className="flex gap-1">
+            <button
+              type="submit"
+              disabled={!text.trim()}
+              className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
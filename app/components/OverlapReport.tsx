@@ -0,0 +1,101 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import type { OverlapReport as OverlapReportData, TextSpan } from "../utils/overlap";
+import { highlightSpans } from "../utils/highlight";
+
+interface OverlapDocumentText {
+  id: string;
+  name: string;
+  markdown: string;
+}
+
+interface OverlapReportProps {
+  report: OverlapReportData;
+  documents: OverlapDocumentText[];
+}
+
+const formatPercent = (share: number): string => `${Math.round(share * 100)}%`;
+
+// Overlapping passages highlighted like the annotated text in Step 3
+const highlightOverlap = (text: string, spans: TextSpan[], side: 'a' | 'b', active: number | null, onSelect: (index: number) => void): ReactNode[] =>
+  highlightSpans(text, spans.map((span, index) => ({ ...span, index })), ({ index }, highlighted) => (
+    <span
+      key={index}
+      id={`overlap-${side}-${index}`}
+      onClick={() => onSelect(index)}
+      className={`cursor-pointer transition-colors duration-200 rounded ${active === index ? 'bg-yellow-200 dark:bg-yellow-700/50' : 'bg-red-100/70 dark:bg-red-900/30 hover:bg-red-200/70 dark:hover:bg-red-800/50'}`}
+    >
+      {highlighted}
+    </span>
+  ));
+
+export default function OverlapReport({ report, documents }: OverlapReportProps) {
+  const [selectedPair, setSelectedPair] = useState<number>(0);
+  const [activeSpan, setActiveSpan] = useState<number | null>(null);
+  const byId = new Map(documents.map(document => [document.id, document]));
+  const pair = report.pairs[selectedPair];
+  const documentA = pair && byId.get(pair.a);
+  const documentB = pair && byId.get(pair.b);
+
+  // Shows the span in both columns
+  const selectSpan = (index: number) => {
+    setActiveSpan(index);
+    ['a', 'b'].forEach(side => document.getElementById(`overlap-${side}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' }));
+  };
+
+  if (report.pairs.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        No submissions share notable passages.
+        {report.commonShingles > 0 && ' Wording shared by most of the batch (such as the assignment template) was ignored.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      <table className="w-full text-left">
+        <thead className="text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="py-1 pr-2 font-medium">Submissions</th>
+            <th className="py-1 pr-2 font-medium text-right">Shared passages</th>
+            <th className="py-1 font-medium text-right">Share of each text</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.pairs.map((item, index) => (
+            <tr
+              key={`${item.a}:${item.b}`}
+              onClick={() => { setSelectedPair(index); setActiveSpan(null); }}
+              className={`border-t border-gray-200 dark:border-gray-600 cursor-pointer ${index === selectedPair ? 'bg-blue-50 dark:bg-blue-900/20 font-semibold' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+            >
+              <td className="py-1.5 pr-2 break-all">{byId.get(item.a)?.name ?? item.a} / {byId.get(item.b)?.name ?? item.b}</td>
+              <td className="py-1.5 pr-2 text-right">{item.spans.length}</td>
+              <td className="py-1.5 text-right">{formatPercent(item.coverageA)} / {formatPercent(item.coverageB)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-gray-500 dark:text-gray-400">
+        Click a pair to compare the texts side by side, and a highlighted passage to find it in the other text. Reference lists
+        {report.commonShingles > 0 && ' and wording shared by most of the batch (such as the assignment template)'} are ignored.
+      </p>
+
+      {pair && documentA && documentB && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {([['a', documentA], ['b', documentB]] as const).map(([side, submission]) => (
+            <div key={side} className="border border-gray-200 dark:border-gray-600 rounded-lg overflow-hidden">
+              <p className="px-3 py-2 bg-gray-100 dark:bg-gray-700 font-medium text-gray-900 dark:text-white break-all">
+                {submission.name} <span className="font-normal text-gray-500 dark:text-gray-400">({pair[side === 'a' ? 'sharedWordsA' : 'sharedWordsB']} shared words)</span>
+              </p>
+              <div className="p-3 max-h-[60vh] overflow-y-auto whitespace-pre-wrap break-words text-gray-700 dark:text-gray-300">
+                {highlightOverlap(submission.markdown, pair.spans.map(span => span[side]), side, activeSpan, selectSpan)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
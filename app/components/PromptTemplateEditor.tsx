@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  BUILT_IN_TEMPLATES,
+  findUnknownVariables,
+  HARSHNESS_LEVELS,
+  HarshnessLevel,
+  latestVersion,
+  PromptTemplate,
+  PromptTemplateContent,
+  TEMPLATE_VARIABLES
+} from "../utils/promptTemplates";
+
+const inputClass = "p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white";
+const linkButtonClass = "text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed";
+const removeButtonClass = "text-xs text-red-600 dark:text-red-400 hover:underline";
+
+const HARSHNESS_LABELS: Record<HarshnessLevel, string> = {
+  mild: "Mild",
+  tough: "Tough",
+  extremely_tough: "Extremely tough"
+};
+
+export interface PromptTemplateSelection {
+  templateId: string;
+  // Pinned version; null follows the latest
+  version: number | null;
+}
+
+export default function PromptTemplateEditor({
+  templates,
+  onTemplatesChange,
+  selection,
+  onSelect,
+}: {
+  // User templates (the built-ins are always available)
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+  selection: PromptTemplateSelection;
+  onSelect: (selection: PromptTemplateSelection) => void;
+}) {
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...templates];
+  const template = allTemplates.find(t => t.id === selection.templateId) ?? BUILT_IN_TEMPLATES[0];
+  const version = template.versions.find(v => v.version === selection.version) ?? latestVersion(template);
+
+  // Unsaved edits to the selected version
+  const [name, setName] = useState(template.name);
+  const [draft, setDraft] = useState<PromptTemplateContent>(version);
+
+  useEffect(() => {
+    setName(template.name);
+    setDraft({ body: version.body, harshness: version.harshness });
+  }, [template.name, version]);
+
+  const isDirty = name !== template.name
+    || draft.body !== version.body
+    || HARSHNESS_LEVELS.some(level => draft.harshness[level] !== version.harshness[level]);
+  const unknownVariables = findUnknownVariables(draft.body);
+
+  const duplicate = () => {
+    const id = `custom_${Date.now()}`;
+    onTemplatesChange([...templates, {
+      id,
+      name: `${name} (copy)`,
+      versions: [{ ...draft, version: 1, savedAt: new Date().toISOString() }]
+    }]);
+    onSelect({ templateId: id, version: null });
+  };
+
+  // Saving never overwrites: every save adds a version so earlier feedback stays reproducible
+  const saveVersion = () => {
+    const next = { ...draft, version: latestVersion(template).version + 1, savedAt: new Date().toISOString() };
+    onTemplatesChange(templates.map(t => t.id === template.id ? { ...t, name, versions: [...t.versions, next] } : t));
+    onSelect({ templateId: template.id, version: null });
+  };
+
+  const remove = () => {
+    onTemplatesChange(templates.filter(t => t.id !== template.id));
+    onSelect({ templateId: BUILT_IN_TEMPLATES[0].id, version: null });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={template.id}
+          onChange={(e) => onSelect({ templateId: e.target.value, version: null })}
+          className={`${inputClass} flex-1 min-w-[12rem] text-sm`}
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {templates.length > 0 && (
+            <optgroup label="My templates">
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {template.versions.length > 1 && (
+          <select
+            value={selection.version ?? ''}
+            onChange={(e) => onSelect({ templateId: template.id, version: e.target.value ? Number(e.target.value) : null })}
+            className={`${inputClass} text-sm`}
+            title="Version"
+          >
+            <option value="">Latest (v{latestVersion(template).version})</option>
+            {[...template.versions].reverse().map(v => (
+              <option key={v.version} value={v.version}>v{v.version} · {new Date(v.savedAt).toLocaleString()}</option>
+            ))}
+          </select>
+        )}
+        <button type="button" onClick={duplicate} className={linkButtonClass}>Duplicate</button>
+        {!template.builtIn && <button type="button" onClick={remove} className={removeButtonClass}>Delete</button>}
+      </div>
+
+      {!template.builtIn && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputClass} w-full text-sm font-medium`}
+          placeholder="Template name"
+        />
+      )}
+
+      <textarea
+        rows={10}
+        value={draft.body}
+        readOnly={template.builtIn}
+        onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+        className={`${inputClass} w-full font-[family-name:var(--font-geist-mono)] ${template.builtIn ? 'opacity-80' : ''}`}
+      />
+      {unknownVariables.length > 0 && (
+        <p className="text-xs text-orange-600 dark:text-orange-400">
+          Unknown variable{unknownVariables.length === 1 ? '' : 's'} will be sent as written: {unknownVariables.map(v => `{{${v}}}`).join(', ')}
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-gray-900 dark:text-white">Harshness levels</p>
+        {HARSHNESS_LEVELS.map(level => (
+          <label key={level} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span className="w-28 flex-shrink-0 pt-1.5">{HARSHNESS_LABELS[level]}</span>
+            <textarea
+              rows={2}
+              value={draft.harshness[level]}
+              readOnly={template.builtIn}
+              onChange={(e) => setDraft({ ...draft, harshness: { ...draft.harshness, [level]: e.target.value } })}
+              className={`${inputClass} flex-1 ${template.builtIn ? 'opacity-80' : ''}`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <details className="text-xs text-gray-500 dark:text-gray-400">
+          <summary className="cursor-pointer">Available variables</summary>
+          <ul className="mt-1 space-y-0.5">
+            {TEMPLATE_VARIABLES.map(v => (
+              <li key={v.name}><code>{`{{${v.name}}}`}</code> – {v.description}</li>
+            ))}
+          </ul>
+        </details>
+        {template.builtIn ? (
+          <span className="text-xs text-gray-500 dark:text-gray-400">Built-in templates are read-only. Duplicate one to customise it.</span>
+        ) : (
+          <button type="button" onClick={saveVersion} disabled={!isDirty} className={linkButtonClass}>
+            Save as v{latestVersion(template).version + 1}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { REFERENCE_STATUS_LABELS, REFERENCE_STATUSES, ReferenceReport, ReferenceStatus } from "../utils/references";
+
+const STATUS_CLASSES: Record<ReferenceStatus, string> = {
+  verified: 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300',
+  mismatch: 'bg-yellow-100 border-yellow-300 text-yellow-800 dark:bg-yellow-900/50 dark:border-yellow-700 dark:text-yellow-300',
+  not_found: 'bg-red-100 border-red-300 text-red-800 dark:bg-red-900/50 dark:border-red-700 dark:text-red-300',
+  unverifiable: 'bg-gray-100 border-gray-300 text-gray-700 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300'
+};
+
+export default function ReferencesPanel({ report }: { report: ReferenceReport }) {
+  const [statusFilter, setStatusFilter] = useState<ReferenceStatus | null>(null);
+
+  if (!report.sectionHeading) {
+    return <p className="text-sm italic text-gray-500 dark:text-gray-400">No reference section was found in the document.</p>;
+  }
+
+  const counts = REFERENCE_STATUSES.map(status => ({
+    status,
+    count: report.references.filter(r => r.status === status).length
+  }));
+  const references = report.references.filter(r => !statusFilter || r.status === statusFilter);
+  const uncited = report.references.filter(r => !r.cited).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => setStatusFilter(null)}
+          className={`px-3 py-1 rounded-full border ${statusFilter === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'}`}
+        >
+          All: {report.references.length}
+        </button>
+        {counts.map(({ status, count }) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 rounded-full border ${statusFilter === status ? 'ring-2 ring-blue-500' : ''} ${STATUS_CLASSES[status]}`}
+          >
+            {REFERENCE_STATUS_LABELS[status]}: {count}
+          </button>
+        ))}
+        <span className="text-gray-500 dark:text-gray-400">
+          Section &quot;{report.sectionHeading}&quot;{uncited > 0 ? ` · ${uncited} never cited in the text` : ''}
+        </span>
+      </div>
+
+      {report.unmatchedCitations.length > 0 && (
+        <div className="p-3 rounded border border-orange-300 dark:border-orange-700 bg-orange-50 dark:bg-orange-900/20 text-xs">
+          <p className="mb-1 font-semibold text-orange-800 dark:text-orange-300">In-text citations with no reference entry</p>
+          <ul className="flex flex-wrap gap-2">
+            {report.unmatchedCitations.map((citation, index) => (
+              <li key={index} className="px-2 py-0.5 rounded-full border border-orange-300 dark:border-orange-700">
+                {citation.year ? `${citation.author}, ${citation.year}` : citation.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {references.length === 0 && <p className="text-xs italic text-gray-500 dark:text-gray-400">No references to show.</p>}
+      <div className="space-y-2">
+        {references.map((reference, index) => (
+          <div key={index} className="p-3 rounded border border-gray-200 dark:border-gray-600 text-xs space-y-1">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <p className="flex-1 break-words">{reference.raw}</p>
+              <div className="flex gap-1">
+                {!reference.cited && (
+                  <span className="inline-block px-2 py-0.5 font-medium rounded-full border border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-300">Not cited</span>
+                )}
+                <span className={`inline-block px-2 py-0.5 font-medium rounded-full border ${STATUS_CLASSES[reference.status]}`}>
+                  {REFERENCE_STATUS_LABELS[reference.status]}
+                </span>
+              </div>
+            </div>
+            {reference.issues.length > 0 && (
+              <ul className="list-disc list-inside text-gray-700 dark:text-gray-300">
+                {reference.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            )}
+            {reference.match && (
+              <p className="text-gray-500 dark:text-gray-400">
+                OpenAlex:{' '}
+                <a href={reference.match.openAlexId} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {reference.match.title}
+                </a>
+                {reference.match.year ? ` (${reference.match.year})` : ''}
+                {reference.match.authors.length > 0 ? ` · ${reference.match.authors.slice(0, 3).join(', ')}${reference.match.authors.length > 3 ? ' et al.' : ''}` : ''}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+export default function RegenerateControl({
+  label = 'Regenerate',
+  pending,
+  disabled,
+  onRegenerate,
+}: {
+  label?: string;
+  // True while this item is being regenerated
+  pending: boolean;
+  // True while anything else is being regenerated
+  disabled: boolean;
+  onRegenerate: (instruction: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (disabled || pending) return;
+    onRegenerate(instruction.trim());
+    setOpen(false);
+    setInstruction('');
+  };
+
+  if (pending) {
+    return <p className="mt-1 text-xs italic text-gray-500 dark:text-gray-400">Regenerating...</p>;
+  }
+
+  return (
+    // Clicks inside the control shouldn't trigger the annotation's jump-to-text
+    <div className="mt-1 text-xs" onClick={(e) => e.stopPropagation()}>
+      {!open ? (
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          disabled={disabled}
+          className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {label}
+        </button>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-1">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Optional instruction, e.g. be more specific about methods"
+            className="flex-1 min-w-0 p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={disabled}
+            className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {label}
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:underline"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { diffWords } from "../utils/textDiff";
+import { FeedbackData } from "../utils/feedback";
+import { FeedbackReview, listReviewChanges, pendingPassages, REVIEW_STATE_LABELS, ReviewChange, ReviewState } from "../utils/review";
+
+const STATE_CLASSES: Record<ReviewState, string> = {
+  draft: 'bg-gray-100 border-gray-300 text-gray-700 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300',
+  reviewed: 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900/50 dark:border-blue-700 dark:text-blue-300',
+  released: 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300'
+};
+
+const CHANGE_LABELS: Record<ReviewChange["kind"], string> = {
+  overall: "Overall feedback edited",
+  category: "Category changed",
+  score: "Rubric level changed",
+  comment: "Comment edited",
+  rejected: "Annotation rejected",
+  rewritten: "Annotation rewritten",
+  added: "Annotation added"
+};
+
+export const ReviewStateBadge = ({ state }: { state: ReviewState }) => (
+  <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${STATE_CLASSES[state]}`}>
+    {REVIEW_STATE_LABELS[state]}
+  </span>
+);
+
+// Edited text with removed and added words marked
+function ChangedText({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap">
+      {diffWords(before, after).map((part, index) => (
+        <span key={index} className={part.type === 'removed' ? 'bg-red-100 dark:bg-red-900/50 line-through' : part.type === 'added' ? 'bg-green-100 dark:bg-green-900/50' : ''}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
+
+interface ReviewPanelProps {
+  feedback: FeedbackData;
+  review: FeedbackReview;
+  onAcceptPending: () => void;
+  onStateChange: (state: ReviewState) => void;
+}
+
+export default function ReviewPanel({ feedback, review, onAcceptPending, onStateChange }: ReviewPanelProps) {
+  const pending = pendingPassages(feedback, review).length;
+  const changes = listReviewChanges(feedback, review);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="font-semibold text-base">Review</h3>
+        <ReviewStateBadge state={review.state} />
+        <span className="text-gray-500 dark:text-gray-400">
+          {review.released && review.state !== 'released'
+            ? `The student still sees the version released ${new Date(review.releasedAt!).toLocaleString()}.`
+            : review.state === 'released'
+              ? `Released ${new Date(review.releasedAt!).toLocaleString()}.`
+              : 'Not released to the student yet.'}
+        </span>
+      </div>
+
+      {review.state !== 'released' && (
+        <p className="text-gray-600 dark:text-gray-400">
+          Edit the overall feedback and the examination areas, accept, reject or rewrite each AI annotation, and select text in the document to add your own.
+          {pending > 0 && ` ${pending} AI annotation${pending === 1 ? ' is' : 's are'} still undecided.`}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        {review.state === 'draft' && pending > 0 && (
+          <button type="button" onClick={onAcceptPending} className="text-blue-600 dark:text-blue-400 hover:underline">
+            Accept the remaining {pending} annotation{pending === 1 ? '' : 's'}
+          </button>
+        )}
+        {review.state === 'draft' && (
+          <button
+            type="button"
+            onClick={() => onStateChange('reviewed')}
+            disabled={pending > 0}
+            title={pending > 0 ? 'Decide on every AI annotation first' : undefined}
+            className="px-3 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Mark as reviewed
+          </button>
+        )}
+        {review.state === 'reviewed' && (
+          <button type="button" onClick={() => onStateChange('released')} className="px-3 py-1 text-white bg-green-700 rounded hover:bg-green-800">
+            Release to student
+          </button>
+        )}
+        {review.state === 'released' && (
+          <button type="button" onClick={() => onStateChange('draft')} className="text-blue-600 dark:text-blue-400 hover:underline">
+            Reopen for editing
+          </button>
+        )}
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Changes from the AI original ({changes.length})</summary>
+        {changes.length === 0 ? (
+          <p className="mt-2 italic text-gray-500 dark:text-gray-400">No changes yet.</p>
+        ) : (
+          <ul className="mt-2 space-y-2">
+            {changes.map((change, index) => (
+              <li key={index} className="p-2 rounded border border-gray-200 dark:border-gray-600">
+                <p className="mb-1 font-medium text-gray-900 dark:text-white">
+                  {CHANGE_LABELS[change.kind]}
+                  <span className="ml-1 font-normal text-gray-500 dark:text-gray-400 italic break-words">{change.kind === 'overall' ? '' : `"${change.target}"`}</span>
+                </p>
+                {change.before !== undefined && change.after !== undefined ? (
+                  change.kind === 'category' || change.kind === 'score'
+                    ? <p>{change.before} → {change.after}</p>
+                    : <ChangedText before={change.before} after={change.after} />
+                ) : (
+                  <p className={`whitespace-pre-wrap ${change.kind === 'rejected' ? 'line-through text-gray-500 dark:text-gray-400' : ''}`}>{change.before ?? change.after}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { diffWords } from "../utils/textDiff";
+import { REVISION_STATUS_LABELS, REVISION_STATUSES, RevisionReport as Report, RevisionStatus } from "../utils/revision";
+
+const STATUS_CLASSES: Record<RevisionStatus, string> = {
+  addressed: 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900/50 dark:border-green-700 dark:text-green-300',
+  partly_addressed: 'bg-yellow-100 border-yellow-300 text-yellow-800 dark:bg-yellow-900/50 dark:border-yellow-700 dark:text-yellow-300',
+  ignored: 'bg-red-100 border-red-300 text-red-800 dark:bg-red-900/50 dark:border-red-700 dark:text-red-300'
+};
+
+const StatusBadge = ({ status }: { status: RevisionStatus }) => (
+  <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${STATUS_CLASSES[status]}`}>
+    {REVISION_STATUS_LABELS[status]}
+  </span>
+);
+
+// Previous and new text next to each other, with removed and added words marked
+function SideBySide({ before, after }: { before: string; after: string | null }) {
+  const parts = after !== null ? diffWords(before, after) : [];
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+      <div className="p-2 rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50">
+        <p className="mb-1 font-medium text-gray-500 dark:text-gray-400">Previous draft</p>
+        <p className="whitespace-pre-wrap">
+          {after === null ? before : parts.filter(p => p.type !== 'added').map((part, index) => (
+            <span key={index} className={part.type === 'removed' ? 'bg-red-100 dark:bg-red-900/50 line-through' : ''}>{part.text}</span>
+          ))}
+        </p>
+      </div>
+      <div className="p-2 rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50">
+        <p className="mb-1 font-medium text-gray-500 dark:text-gray-400">New draft</p>
+        {after === null ? (
+          <p className="italic text-gray-500 dark:text-gray-400">Removed from the new draft.</p>
+        ) : (
+          <p className="whitespace-pre-wrap">
+            {parts.filter(p => p.type !== 'removed').map((part, index) => (
+              <span key={index} className={part.type === 'added' ? 'bg-green-100 dark:bg-green-900/50' : ''}>{part.text}</span>
+            ))}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function RevisionReport({ report }: { report: Report }) {
+  const [statusFilter, setStatusFilter] = useState<RevisionStatus | null>(null);
+
+  const counts = REVISION_STATUSES.map(status => ({
+    status,
+    count: report.passages.filter(p => p.status === status).length + report.examination.filter(e => e.status === status).length
+  }));
+  const passages = report.passages.filter(p => !statusFilter || p.status === statusFilter);
+  const examination = report.examination.filter(e => !statusFilter || e.status === statusFilter);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm whitespace-pre-wrap">{report.summary}</p>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => setStatusFilter(null)}
+          className={`px-3 py-1 rounded-full border ${statusFilter === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600'}`}
+        >
+          All
+        </button>
+        {counts.map(({ status, count }) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 rounded-full border ${statusFilter === status ? 'ring-2 ring-blue-500' : ''} ${STATUS_CLASSES[status]}`}
+          >
+            {REVISION_STATUS_LABELS[status]}: {count}
+          </button>
+        ))}
+        {report.stats ? (
+          <span className="text-gray-500 dark:text-gray-400">
+            Paragraphs: {report.stats.changed} changed, {report.stats.added} added, {report.stats.removed} removed, {report.stats.unchanged} unchanged
+          </span>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">The previous export has no document text, so passages were matched against the new draft only.</span>
+        )}
+      </div>
+
+      {examination.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Examination Areas</h4>
+          {examination.map((item, index) => (
+            <div key={index} className="p-3 rounded border border-gray-200 dark:border-gray-600 text-xs space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-sm">{item.area_of_examination}</span>
+                <span className="text-gray-500 dark:text-gray-400">previously {item.previous_category}</span>
+                <StatusBadge status={item.status} />
+              </div>
+              <p className="text-gray-500 dark:text-gray-400"><strong>Earlier comment:</strong> {item.previous_comment}</p>
+              <p>{item.explanation}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {passages.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Earlier Annotations</h4>
+          {passages.map((passage, index) => (
+            <div key={index} className="p-3 rounded border border-gray-200 dark:border-gray-600 text-xs space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <p className="flex-1"><strong>Annotation:</strong> {passage.feedback}</p>
+                <StatusBadge status={passage.status} />
+              </div>
+              {passage.changed
+                ? <SideBySide before={passage.before} after={passage.after} />
+                : <p className="italic text-gray-500 dark:text-gray-400">Passage unchanged: &quot;{passage.quote}&quot;</p>}
+              <p>{passage.explanation}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { ASSESSMENT_CATEGORIES } from "../utils/feedback";
+import { GradeBoundary, Rubric, RubricCriterion, RubricExemplar, RubricLevel } from "../utils/rubric";
+
+const inputClass = "p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white";
+const linkButtonClass = "text-xs text-blue-600 dark:text-blue-400 hover:underline";
+const removeButtonClass = "text-xs text-red-600 dark:text-red-400 hover:underline";
+
+// Criterion IDs are derived from the name so the model gets a stable, readable key
+const toCriterionId = (name: string, existing: RubricCriterion[]): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'criterion';
+  let id = base;
+  for (let i = 2; existing.some(c => c.id === id); i++) id = `${base}_${i}`;
+  return id;
+};
+
+export default function RubricEditor({
+  rubric,
+  onChange,
+}: {
+  rubric: Rubric;
+  onChange: (rubric: Rubric) => void;
+}) {
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange({ ...rubric, criteria: rubric.criteria.map((c, i) => i === index ? { ...c, ...changes } : c) });
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const criterion = rubric.criteria[criterionIndex];
+    updateCriterion(criterionIndex, {
+      levels: criterion.levels.map((l, i) => i === levelIndex ? { ...l, ...changes } : l)
+    });
+  };
+
+  const updateBoundary = (index: number, changes: Partial<GradeBoundary>) => {
+    onChange({ ...rubric, gradeBoundaries: rubric.gradeBoundaries.map((b, i) => i === index ? { ...b, ...changes } : b) });
+  };
+
+  const addCriterion = () => {
+    const name = `Criterion ${rubric.criteria.length + 1}`;
+    onChange({
+      ...rubric,
+      criteria: [...rubric.criteria, {
+        id: toCriterionId(name, rubric.criteria),
+        name,
+        weight: 10,
+        levels: [
+          { label: "Meets expectations", points: 2, descriptor: "" },
+          { label: "Does not meet expectations", points: 0, descriptor: "" }
+        ]
+      }]
+    });
+  };
+
+  const exemplars = rubric.exemplars || [];
+
+  const updateExemplar = (index: number, changes: Partial<RubricExemplar>) => {
+    onChange({ ...rubric, exemplars: exemplars.map((e, i) => i === index ? { ...e, ...changes } : e) });
+  };
+
+  const addExemplar = () => {
+    onChange({
+      ...rubric,
+      exemplars: [...exemplars, {
+        id: `exemplar_${Date.now()}`,
+        criterionId: rubric.criteria[0]?.id ?? '',
+        excerpt: '',
+        feedback: '',
+        category: "sufficient with room for improvement"
+      }]
+    });
+  };
+
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + (c.weight || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <input
+        type="text"
+        value={rubric.name}
+        onChange={(e) => onChange({ ...rubric, name: e.target.value })}
+        className={`${inputClass} w-full text-sm font-medium`}
+        placeholder="Rubric name"
+      />
+
+      {rubric.criteria.map((criterion, criterionIndex) => (
+        <div key={criterion.id} className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={criterion.name}
+              onChange={(e) => updateCriterion(criterionIndex, { name: e.target.value })}
+              className={`${inputClass} flex-1 min-w-[12rem] font-medium`}
+              placeholder="Criterion name"
+            />
+            <label className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
+              Weight
+              <input
+                type="number"
+                min={0}
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(criterionIndex, { weight: Number(e.target.value) })}
+                className={`${inputClass} w-16`}
+              />
+            </label>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {totalWeight > 0 ? `${Math.round(criterion.weight / totalWeight * 100)}%` : ''}
+            </span>
+            <button
+              type="button"
+              onClick={() => onChange({ ...rubric, criteria: rubric.criteria.filter((_, i) => i !== criterionIndex) })}
+              className={removeButtonClass}
+            >
+              Remove
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {criterion.levels.map((level, levelIndex) => (
+              <div key={levelIndex} className="flex flex-wrap items-start gap-2">
+                <input
+                  type="text"
+                  value={level.label}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                  className={`${inputClass} w-40`}
+                  placeholder="Level"
+                />
+                <input
+                  type="number"
+                  value={level.points}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: Number(e.target.value) })}
+                  className={`${inputClass} w-16`}
+                  title="Points"
+                />
+                <textarea
+                  rows={1}
+                  value={level.descriptor}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { descriptor: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-[12rem]`}
+                  placeholder="What does work at this level look like?"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateCriterion(criterionIndex, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                  className={removeButtonClass}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateCriterion(criterionIndex, { levels: [...criterion.levels, { label: '', points: 0, descriptor: '' }] })}
+              className={linkButtonClass}
+            >
+              + Add level
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button type="button" onClick={addCriterion} className={linkButtonClass}>+ Add criterion</button>
+
+      <div className="pt-2 border-t border-gray-200 dark:border-gray-600">
+        <p className="text-xs font-medium text-gray-900 dark:text-white mb-2">Grade boundaries (minimum weighted %)</p>
+        <div className="flex flex-wrap gap-2">
+          {rubric.gradeBoundaries.map((boundary, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={boundary.grade}
+                onChange={(e) => updateBoundary(index, { grade: e.target.value })}
+                className={`${inputClass} w-14`}
+                placeholder="Grade"
+              />
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={boundary.minPercent}
+                onChange={(e) => updateBoundary(index, { minPercent: Number(e.target.value) })}
+                className={`${inputClass} w-16`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...rubric, gradeBoundaries: rubric.gradeBoundaries.filter((_, i) => i !== index) })}
+                className={removeButtonClass}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...rubric, gradeBoundaries: [...rubric.gradeBoundaries, { grade: '', minPercent: 0 }] })}
+            className={linkButtonClass}
+          >
+            + Add boundary
+          </button>
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-gray-200 dark:border-gray-600 space-y-2">
+        <p className="text-xs font-medium text-gray-900 dark:text-white">Graded exemplars</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Excerpts your markers have already graded, with their comment and category. They are added to the prompt so the AI grades to the same standard. Hold some out to check its agreement with the markers instead.
+        </p>
+        {exemplars.map((exemplar, index) => (
+          <div key={exemplar.id} className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={exemplar.criterionId}
+                onChange={(e) => updateExemplar(index, { criterionId: e.target.value })}
+                className={`${inputClass} flex-1 min-w-[10rem]`}
+              >
+                {!rubric.criteria.some(c => c.id === exemplar.criterionId) && <option value={exemplar.criterionId}>(removed criterion)</option>}
+                {rubric.criteria.map(criterion => <option key={criterion.id} value={criterion.id}>{criterion.name}</option>)}
+              </select>
+              <select
+                value={exemplar.category}
+                onChange={(e) => updateExemplar(index, { category: e.target.value as RubricExemplar['category'] })}
+                className={inputClass}
+              >
+                {ASSESSMENT_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+              <label className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={!!exemplar.heldOut}
+                  onChange={(e) => updateExemplar(index, { heldOut: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Held out
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange({ ...rubric, exemplars: exemplars.filter((_, i) => i !== index) })}
+                className={removeButtonClass}
+              >
+                Remove
+              </button>
+            </div>
+            <textarea
+              rows={3}
+              value={exemplar.excerpt}
+              onChange={(e) => updateExemplar(index, { excerpt: e.target.value })}
+              className={`${inputClass} w-full`}
+              placeholder="Excerpt from a graded submission"
+            />
+            <textarea
+              rows={2}
+              value={exemplar.feedback}
+              onChange={(e) => updateExemplar(index, { feedback: e.target.value })}
+              className={`${inputClass} w-full`}
+              placeholder="The markers' comment on it"
+            />
+          </div>
+        ))}
+        <button type="button" onClick={addExemplar} disabled={rubric.criteria.length === 0} className={`${linkButtonClass} disabled:opacity-50`}>+ Add exemplar</button>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,46 @@
 'use client'; // Required for hooks like useState, useEffect
 
-import { useState, useCallback, ChangeEvent, FormEvent, DragEvent, useRef, useMemo, useEffect } from 'react';
+import { useState, useCallback, ChangeEvent, FormEvent, DragEvent, ReactNode, useRef, useMemo, useEffect } from 'react';
 import Image from "next/image"; // Keep if needed, maybe for logo?
-import { findBestMatch } from 'string-similarity'; // Import for fuzzy matching
 import { fetchWithApiKey } from "./utils/api";
-
-// Define the structure of the feedback object based on the Gemini schema
-interface FeedbackPassage {
-  referenced_student_text_quote: string;
-  feedback: string;
-  quote_from_marking_guidelines?: string;
-}
-
-interface FeedbackExamination {
-  area_of_examination: string;
-  assessment_comment: string;
-  "suggestion for improvement"?: string; // Make optional as per schema
-  assesment_category: "excellent" | "sufficient with room for improvement" | "insufficient";
-}
-
-interface FeedbackData {
-  overall_feedback: string;
-  passages: FeedbackPassage[];
-  examination: FeedbackExamination[];
-}
+import { ASSESSMENT_CATEGORIES, AssessmentCategory, FeedbackData, QuoteAnchor } from "./utils/feedback";
+import { anchorPassages } from "./utils/quoteAnchoring";
+import { highlightSpans } from "./utils/highlight";
+import { SchemaIssue } from "./utils/schemaValidation";
+import { computeRubricResult, DEFAULT_RUBRIC, getHeldOutExemplars, Rubric } from "./utils/rubric";
+import RubricEditor from "./components/RubricEditor";
+import RevisionReport from "./components/RevisionReport";
+import ReferencesPanel from "./components/ReferencesPanel";
+import AnnotationThread from "./components/AnnotationThread";
+import RegenerateControl from "./components/RegenerateControl";
+import DocumentOutline from "./components/DocumentOutline";
+import CostEstimate from "./components/CostEstimate";
+import BatchPanel from "./components/BatchPanel";
+import CohortDashboard from "./components/CohortDashboard";
+import OverlapReport from "./components/OverlapReport";
+import CalibrationReport from "./components/CalibrationReport";
+import ReviewPanel from "./components/ReviewPanel";
+import EditTextControl from "./components/EditTextControl";
+import { AnnotationThread as AnnotationThreadData, threadKey } from "./utils/annotationThreads";
+import { PreviousSubmission, RevisionReport as RevisionReportData } from "./utils/revision";
+import { ReferenceReport } from "./utils/references";
+import { checkCitationStyle, CITATION_STYLE_LABELS, CITATION_STYLES, CitationStyle, citationStyleAnnotations } from "./utils/citationStyle";
+import PromptTemplateEditor, { PromptTemplateSelection } from "./components/PromptTemplateEditor";
+import { BUILT_IN_TEMPLATES, DEFAULT_PROMPT_TEMPLATE_ID, HarshnessLevel, latestVersion, PromptTemplate, PromptTemplateContent } from "./utils/promptTemplates";
+import { DEFAULT_DOCUMENT_TYPE, DOCUMENT_TYPES, getDocumentType } from "./utils/documentTypes";
+import { REVIEWER_PERSONAS, ReviewerFeedback } from "./utils/panel";
+import { readEventStream } from "./utils/sse";
+import type { CacheHit } from "./utils/resultCache";
+import type { ProviderEstimate } from "./utils/costEstimate";
+import { buildSectionTree, checkExpectedSections, findSectionAt, parseHeadings } from "./utils/sections";
+import { AUTO_LANGUAGE, detectLanguage, OUTPUT_LANGUAGES } from "./utils/languages";
+import { BATCH_CONCURRENCY, BatchSubmission, createBatch, exportBatch, gradeSubmission } from "./utils/batch";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { CohortEntry, parseFeedbackExport } from "./utils/cohort";
+import type { OverlapReport as OverlapReportData } from "./utils/overlap";
+import type { CalibrationReport as CalibrationReportData } from "./utils/calibration";
+import { buildFeedbackDocx, DOCX_MIME_TYPE } from "./utils/docxExport";
+import { acceptPending, addAnnotation, applyReview, createReview, decidePassage, editAnnotation, exportedFeedback, editExamination, editReview, FeedbackReview, passageKey, resetExamination, resetPassage, setReviewState } from "./utils/review";
 
 interface UsageMetadata {
     promptTokenCount?: number;
@@ -50,13 +67,41 @@ interface RecommendedPaper {
 }
 
 // Define types for the new options
-type DocumentType = "proposal" | "paper_draft";
-type HarshnessLevel = "mild" | "tough" | "extremely_tough";
+type LLMProviderName = "gemini" | "openai";
+
+// Prompt options the current feedback was generated with, sent again when regenerating parts of it
+interface GenerationSettings {
+  assessmentGuidelines: string;
+  documentType: string;
+  harshness: HarshnessLevel;
+  language: string;
+  promptTemplate: PromptTemplateContent;
+}
 
-// Helper function to download JSON
-const downloadJson = (data: any, filename: string) => {
-    const jsonStr = JSON.stringify(data, null, 2); // Pretty print JSON
-    const blob = new Blob([jsonStr], { type: 'application/json' });
+// Stages reported by /api/feedback/stream, weighted by how long they usually take
+type FeedbackStage = "search_terms" | "papers" | "feedback" | "reasoning";
+
+const FEEDBACK_STAGES: { stage: FeedbackStage; label: string; weight: number }[] = [
+  { stage: 'search_terms', label: 'Generating search terms', weight: 5 },
+  { stage: 'papers', label: 'Finding related papers', weight: 5 },
+  { stage: 'feedback', label: 'Writing feedback', weight: 80 },
+  { stage: 'reasoning', label: 'Summarising reasoning', weight: 10 },
+];
+
+const PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Self-hosted (OpenAI-compatible)'
+};
+
+// Token usage summed over the initial feedback and any regenerations
+const addUsage = (a: UsageMetadata | null, b: UsageMetadata): UsageMetadata => ({
+    promptTokenCount: (a?.promptTokenCount ?? 0) + (b.promptTokenCount ?? 0),
+    candidatesTokenCount: (a?.candidatesTokenCount ?? 0) + (b.candidatesTokenCount ?? 0),
+    totalTokenCount: (a?.totalTokenCount ?? 0) + (b.totalTokenCount ?? 0),
+});
+
+// Helper function to download a generated file
+const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -67,20 +112,10 @@ const downloadJson = (data: any, filename: string) => {
     URL.revokeObjectURL(url);
 };
 
-// Helper function to normalize text for fuzzy matching
-const normalizeText = (text: string): string => {
-  if (!text) return '';
-  return text
-    .toLowerCase()
-    // Replace curly/smart quotes with straight quotes
-    .replace(/[\u2018\u2019]/g, "'") // Replace single curly quotes
-    .replace(/[\u201C\u201D]/g, '"') // Replace double curly quotes
-    // Normalize other potential special characters
-    .replace(/\u2013|\u2014/g, '-') // Replace em/en dashes with hyphens
-    .replace(/\u2026/g, '...') // Replace ellipsis character
-    // Consistent whitespace
-    .replace(/\s+/g, ' ')
-    .trim();
+// Helper function to download JSON
+const downloadJson = (data: any, filename: string) => {
+    const jsonStr = JSON.stringify(data, null, 2); // Pretty print JSON
+    downloadBlob(new Blob([jsonStr], { type: 'application/json' }), filename);
 };
 
 export default function Home() {
@@ -91,9 +126,13 @@ export default function Home() {
   const [feedback, setFeedback] = useState<FeedbackData | null>(null);
   const [tokenUsage, setTokenUsage] = useState<UsageMetadata | null>(null); // State for token usage
   const [aiReasoning, setAiReasoning] = useState<string | null>(null); // State for AI reasoning
+  const [chunkCount, setChunkCount] = useState<number>(1); // Number of parts the document was reviewed in
+  const [feedbackStage, setFeedbackStage] = useState<FeedbackStage | null>(null); // Current stage while streaming
+  const [chunkProgress, setChunkProgress] = useState<{ index: number; total: number } | null>(null);
   const [isLoadingOcr, setIsLoadingOcr] = useState<boolean>(false); // Specific loading state for OCR
   const [isLoadingFeedback, setIsLoadingFeedback] = useState<boolean>(false); // Specific loading state for Feedback
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<SchemaIssue[] | null>(null); // Fields that failed validation
   const [isDragging, setIsDragging] = useState<boolean>(false); // State for drag-and-drop UI
   const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null); // For highlighting interaction
 
@@ -103,14 +142,207 @@ export default function Home() {
   const [searchQuery, setSearchQuery] = useState<string>('');
 
   // New state for document type and harshness
-  const [documentType, setDocumentType] = useState<DocumentType>('proposal');
+  const [documentType, setDocumentType] = useState<string>(DEFAULT_DOCUMENT_TYPE);
   const [harshness, setHarshness] = useState<HarshnessLevel>('tough');
+  const [outputLanguage, setOutputLanguage] = useState<string>(AUTO_LANGUAGE);
+
+  // Structured rubric (optional, saved in localStorage between sessions)
+  const [useRubric, setUseRubric] = useState<boolean>(false);
+  const [rubric, setRubric] = useState<Rubric>(DEFAULT_RUBRIC);
+  const [appliedRubric, setAppliedRubric] = useState<Rubric | null>(null); // Rubric the current feedback was scored with
+  // Agreement with the markers on the rubric's held-out exemplars
+  const [calibrationReport, setCalibrationReport] = useState<CalibrationReportData | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState<boolean>(false);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+
+  // Revision tracking: the previous draft's export, and the report comparing it with this draft
+  const [previousSubmission, setPreviousSubmission] = useState<(PreviousSubmission & { fileName: string }) | null>(null);
+  const [revisionReport, setRevisionReport] = useState<RevisionReportData | null>(null);
+  const [isLoadingRevision, setIsLoadingRevision] = useState<boolean>(false);
+  const [revisionError, setRevisionError] = useState<string | null>(null);
+
+  // Reference list verification against OpenAlex
+  const [referenceReport, setReferenceReport] = useState<ReferenceReport | null>(null);
+  const [isLoadingReferences, setIsLoadingReferences] = useState<boolean>(false);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
+
+  // Local citation style check, shown as annotations
+  const [citationStyle, setCitationStyle] = useState<CitationStyle | 'auto'>('auto');
+  const [showCitationStyle, setShowCitationStyle] = useState<boolean>(true);
+
+  // Follow-up conversations on annotations, keyed by threadKey(quote)
+  const [threads, setThreads] = useState<Record<string, AnnotationThreadData>>({});
+  const [openThread, setOpenThread] = useState<string | null>(null);
+  const [pendingThreads, setPendingThreads] = useState<string[]>([]);
+  const [threadErrors, setThreadErrors] = useState<Record<string, string>>({});
+
+  // Regeneration of single examination areas, annotations or sections
+  const [regenerating, setRegenerating] = useState<string | null>(null); // Key of the item being regenerated
+  const [regenerationError, setRegenerationError] = useState<string | null>(null);
+  const [regenerationSection, setRegenerationSection] = useState<string>('');
+
+  // Prompt templates (user templates and the selection are saved in localStorage)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [templateSelection, setTemplateSelection] = useState<PromptTemplateSelection>({ templateId: DEFAULT_PROMPT_TEMPLATE_ID, version: null });
+  const [appliedTemplate, setAppliedTemplate] = useState<{ id: string; name: string; version: number } | null>(null);
+  const [appliedSettings, setAppliedSettings] = useState<GenerationSettings | null>(null);
+
+  // Review panel: several reviewer personas whose feedback is aggregated into a consensus
+  const [usePanel, setUsePanel] = useState<boolean>(false);
+  const [panelSelection, setPanelSelection] = useState<string[]>(REVIEWER_PERSONAS.slice(0, 3).map(p => p.id));
+  const [panelSize, setPanelSize] = useState<number>(0); // Reviewers requested for the current feedback
+  const [panelReviews, setPanelReviews] = useState<ReviewerFeedback[]>([]);
+  const [activeReviewer, setActiveReviewer] = useState<string | null>(null); // null shows the consensus
+
+  // Result cache: bypass it on request, and show which results were served from it
+  const [forceRegenerate, setForceRegenerate] = useState<boolean>(false);
+  const [cacheHits, setCacheHits] = useState<{ ocr?: CacheHit; searchTerms?: CacheHit; feedback?: CacheHit }>({});
+
+  // Pre-flight token and cost estimate for the current options
+  const [costEstimates, setCostEstimates] = useState<ProviderEstimate[] | null>(null);
+  const [isEstimating, setIsEstimating] = useState<boolean>(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  // Batch grading: many PDFs with the same options, and the settings the batch ran with
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchSubmissions, setBatchSubmissions] = useState<BatchSubmission[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [overlapReport, setOverlapReport] = useState<OverlapReportData | null>(null);
+  const [isCheckingOverlap, setIsCheckingOverlap] = useState<boolean>(false);
+  const [overlapError, setOverlapError] = useState<string | null>(null);
+  const [batchSettings, setBatchSettings] = useState<{ rubric: Rubric | null; template: { id: string; name: string; version: number } | null; settings: GenerationSettings | null }>({ rubric: null, template: null, settings: null });
+
+  // Instructor review of the feedback before release, and the batch submission it belongs to
+  const [review, setReview] = useState<FeedbackReview | null>(null);
+  const [openedBatchId, setOpenedBatchId] = useState<string | null>(null);
+  // The student view shows only the released feedback
+  const [viewMode, setViewMode] = useState<'instructor' | 'student'>('instructor');
+  // Document text selected for a new instructor annotation
+  const [selectedQuote, setSelectedQuote] = useState<{ quote: string; anchor: QuoteAnchor } | null>(null);
+  const [newAnnotation, setNewAnnotation] = useState<string>('');
+
+  // Cohort analytics over graded submissions (saved in localStorage between sessions)
+  const [cohort, setCohort] = useState<CohortEntry[]>([]);
+  const [showCohort, setShowCohort] = useState<boolean>(false);
+
+  // LLM provider selection (only shown when the server offers more than one)
+  const [availableProviders, setAvailableProviders] = useState<LLMProviderName[]>([]);
+  const [provider, setProvider] = useState<LLMProviderName | null>(null);
 
   // Refs for scrolling
   const feedbackRef = useRef<HTMLDivElement>(null);
   const proposalTextRef = useRef<HTMLDivElement>(null);
   const annotationsSidebarRef = useRef<HTMLDivElement>(null);
 
+  // Restore the last rubric
+  useEffect(() => {
+    const saved = localStorage.getItem('rubric');
+    if (saved) {
+      try {
+        setRubric(JSON.parse(saved));
+        setUseRubric(localStorage.getItem('useRubric') === 'true');
+      } catch (err) {
+        console.error('Failed to load saved rubric:', err);
+      }
+    }
+  }, []);
+
+  const handleRubricChange = (updated: Rubric) => {
+    setRubric(updated);
+    localStorage.setItem('rubric', JSON.stringify(updated));
+  };
+
+  const handleUseRubricChange = (enabled: boolean) => {
+    setUseRubric(enabled);
+    localStorage.setItem('useRubric', String(enabled));
+  };
+
+  // Restore the stored cohort
+  useEffect(() => {
+    const saved = localStorage.getItem('cohort');
+    if (saved) {
+      try {
+        setCohort(JSON.parse(saved));
+      } catch (err) {
+        console.error('Failed to load saved cohort:', err);
+      }
+    }
+  }, []);
+
+  const updateCohort = (updated: CohortEntry[]) => {
+    setCohort(updated);
+    try {
+      localStorage.setItem('cohort', JSON.stringify(updated));
+    } catch (err) {
+      // Storage is full; the cohort still works for this session
+      console.error('Failed to save cohort:', err);
+    }
+  };
+
+  // Adds submissions to the cohort, replacing earlier entries with the same name
+  const addToCohort = (entries: CohortEntry[]) => {
+    const ids = new Set(entries.map(entry => entry.id));
+    updateCohort([...cohort.filter(entry => !ids.has(entry.id)), ...entries]);
+    setShowCohort(true);
+  };
+
+  const handleCohortImport = async (files: File[]) => {
+    setError(null);
+    const imported: CohortEntry[] = [];
+    const failed: string[] = [];
+    for (const selectedFile of files) {
+      try {
+        imported.push(...parseFeedbackExport(JSON.parse(await selectedFile.text()), selectedFile.name));
+      } catch (err: any) {
+        console.error('Cohort import error:', err);
+        failed.push(`${selectedFile.name} (${err.message})`);
+      }
+    }
+    if (imported.length > 0) addToCohort(imported);
+    if (failed.length > 0) setError(`Could not import ${failed.join(', ')}`);
+  };
+
+  // Restore saved prompt templates
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem('promptTemplates');
+      if (saved) setPromptTemplates(JSON.parse(saved));
+      const selection = localStorage.getItem('promptTemplateSelection');
+      if (selection) setTemplateSelection(JSON.parse(selection));
+    } catch (err) {
+      console.error('Failed to load saved prompt templates:', err);
+    }
+  }, []);
+
+  const handlePromptTemplatesChange = (updated: PromptTemplate[]) => {
+    setPromptTemplates(updated);
+    localStorage.setItem('promptTemplates', JSON.stringify(updated));
+  };
+
+  const handleTemplateSelect = (selection: PromptTemplateSelection) => {
+    setTemplateSelection(selection);
+    localStorage.setItem('promptTemplateSelection', JSON.stringify(selection));
+  };
+
+  // The template version the next request will use
+  const selectedTemplate = useMemo(() => {
+    const template = [...BUILT_IN_TEMPLATES, ...promptTemplates].find(t => t.id === templateSelection.templateId) ?? BUILT_IN_TEMPLATES[0];
+    const version = template.versions.find(v => v.version === templateSelection.version) ?? latestVersion(template);
+    return { template, version };
+  }, [promptTemplates, templateSelection]);
+
+  // Load the providers configured on the server
+  useEffect(() => {
+    fetch('/api/providers')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        if (!result) return;
+        setAvailableProviders(result.providers || []);
+        setProvider(result.default || null);
+      })
+      .catch(err => console.error('Failed to load providers:', err));
+  }, []);
+
   const handleFileChange = (selectedFile: File | null) => {
     setError(null);
     if (selectedFile) {
@@ -158,6 +390,222 @@ export default function Home() {
     }
   };
 
+  // Load the JSON exported for the previous draft of this document
+  const handlePreviousExportChange = async (selectedFile: File | null) => {
+    setError(null);
+    if (!selectedFile) {
+      setPreviousSubmission(null);
+      return;
+    }
+    try {
+      const exported = JSON.parse(await selectedFile.text());
+      // Compare against what the student received, which may differ from the AI feedback
+      const feedback = exportedFeedback(exported);
+      if (!feedback) throw new Error('the file does not contain exported feedback');
+      setPreviousSubmission({
+        markdownProposal: typeof exported.markdownProposal === 'string' ? exported.markdownProposal : undefined,
+        feedback,
+        fileName: selectedFile.name
+      });
+    } catch (err: any) {
+      console.error('Previous export error:', err);
+      setError(`Could not read the previous feedback export: ${err.message}`);
+      setPreviousSubmission(null);
+    }
+  };
+
+  // Grades the rubric's held-out exemplars with the current settings
+  const runCalibration = async () => {
+    setIsCalibrating(true);
+    setCalibrationError(null);
+    setCalibrationReport(null);
+    try {
+      const response = await fetchWithApiKey('/api/calibration', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          rubric,
+          assessmentGuidelines,
+          documentType,
+          harshness,
+          language: outputLanguage,
+          promptTemplate: { body: selectedTemplate.version.body, harshness: selectedTemplate.version.harshness },
+          provider
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setCalibrationReport(result as CalibrationReportData);
+    } catch (err: any) {
+      console.error('Calibration Error:', err);
+      setCalibrationError(err.message);
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  // Runs alongside feedback generation when a previous export was provided
+  const runRevisionCheck = async () => {
+    if (!previousSubmission) return;
+    setIsLoadingRevision(true);
+    setRevisionError(null);
+    try {
+      const response = await fetchWithApiKey('/api/revision', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          markdownProposal,
+          previous: { markdownProposal: previousSubmission.markdownProposal, feedback: previousSubmission.feedback },
+          documentType,
+          provider
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setRevisionReport(result.report as RevisionReportData);
+    } catch (err: any) {
+      console.error('Revision Error:', err);
+      setRevisionError(err.message);
+    } finally {
+      setIsLoadingRevision(false);
+    }
+  };
+
+  // Runs alongside feedback generation; needs no AI, only OpenAlex
+  const runReferenceCheck = async () => {
+    setIsLoadingReferences(true);
+    setReferenceError(null);
+    try {
+      const response = await fetch('/api/references', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ markdownProposal }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setReferenceReport(result as ReferenceReport);
+    } catch (err: any) {
+      console.error('Reference check error:', err);
+      setReferenceError(err.message);
+    } finally {
+      setIsLoadingReferences(false);
+    }
+  };
+
+  // Ask the reviewer a follow-up question about one annotation
+  const handleThreadMessage = async (quote: string, annotationFeedback: string, message: string) => {
+    const key = threadKey(quote);
+    const thread = threads[key] ?? { quote, feedback: annotationFeedback, messages: [] };
+    const history = thread.messages;
+    const appendMessage = (role: 'student' | 'reviewer', text: string) => {
+      setThreads(prev => {
+        const current = prev[key] ?? thread;
+        return { ...prev, [key]: { ...current, messages: [...current.messages, { role, text, createdAt: new Date().toISOString() }] } };
+      });
+    };
+
+    appendMessage('student', message);
+    setPendingThreads(prev => [...prev, key]);
+    setThreadErrors(prev => Object.fromEntries(Object.entries(prev).filter(([k]) => k !== key)));
+
+    try {
+      const response = await fetchWithApiKey('/api/annotation-thread', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          markdownProposal,
+          quote: thread.quote,
+          feedback: thread.feedback,
+          history,
+          message,
+          documentType,
+          provider
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      appendMessage('reviewer', result.reply);
+    } catch (err: any) {
+      console.error('Annotation thread error:', err);
+      setThreadErrors(prev => ({ ...prev, [key]: `Failed to get a reply: ${err.message}` }));
+    } finally {
+      setPendingThreads(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  // The Step 2 options as they are now, snapshotted when feedback is generated
+  const currentSettings = (): GenerationSettings => ({
+    assessmentGuidelines,
+    documentType,
+    harshness,
+    language: outputLanguage,
+    promptTemplate: { body: selectedTemplate.version.body, harshness: selectedTemplate.version.harshness }
+  });
+
+  // Regenerate one examination area or annotation, or add annotations on one section
+  const handleRegenerate = async (
+    key: string,
+    target: { type: 'examination' | 'passage'; index: number } | { type: 'section'; heading: string },
+    instruction: string
+  ) => {
+    if (!feedback || !appliedSettings) return;
+    setRegenerating(key);
+    setRegenerationError(null);
+    try {
+      const response = await fetchWithApiKey('/api/feedback/regenerate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          markdownProposal,
+          ...appliedSettings,
+          rubric: appliedRubric ?? undefined,
+          provider,
+          feedback,
+          target,
+          instruction: instruction || undefined
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setFeedback(result.feedback as FeedbackData);
+      setTokenUsage(prev => addUsage(prev, result.usage as UsageMetadata));
+      // An opened batch result keeps the regenerated feedback its review now applies to
+      if (openedBatchId) {
+        setBatchSubmissions(prev => prev.map(s => s.id === openedBatchId && s.result
+          ? { ...s, result: { ...s.result, feedback: result.feedback, usage: addUsage(s.result.usage, result.usage) } }
+          : s));
+      }
+      // The instructor's edits applied to the AI text that was just replaced
+      if (target.type === 'examination') updateReview(current => resetExamination(current, feedback.examination[target.index]));
+      if (target.type === 'passage') updateReview(current => resetPassage(current, feedback.passages[target.index]));
+    } catch (err: any) {
+      console.error('Regeneration Error:', err);
+      setRegenerationError(`Failed to regenerate: ${err.message}`);
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
   // OCR Handler
   const handleUploadAndOCR = async (event?: FormEvent) => {
     event?.preventDefault();
@@ -172,6 +620,7 @@ export default function Home() {
 
     const formData = new FormData();
     formData.append('file', file);
+    if (forceRegenerate) formData.append('force', 'true');
 
     try {
       const response = await fetch('/api/ocr', {
@@ -186,6 +635,7 @@ export default function Home() {
       }
 
       setMarkdownProposal(result.markdown);
+      setCacheHits({ ocr: result.cached });
       setStep(2);
     } catch (err: any) {
       console.error('OCR Error:', err);
@@ -207,8 +657,8 @@ export default function Home() {
       setError('Document text is missing. Please go back to step 1.');
       return;
     }
-    if (!assessmentGuidelines.trim()) {
-      setError('Please enter assessment guidelines.');
+    if (!assessmentGuidelines.trim() && !useRubric) {
+      setError('Please enter assessment guidelines or use a rubric.');
       return;
     }
 
@@ -216,88 +666,118 @@ export default function Home() {
     setRecommendedPapers([]);
     setSearchQuery('');
     setError(null);
-
-    try {
-      // First, get search terms from our new API
-      const searchTermsResponse = await fetchWithApiKey('/api/search-terms', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          markdownProposal,
-          documentType
-        }),
-      });
-
-      if (!searchTermsResponse.ok) {
-        throw new Error(`Failed to generate search terms: ${searchTermsResponse.status}`);
-      }
-
-      const searchTermsResult = await searchTermsResponse.json();
-      const searchTerms = searchTermsResult.searchTerms || [];
-
-      if (searchTerms.length > 0) {
-        // Get paper recommendations from OpenAlex
-        const papersResponse = await fetch('/api/open-alex', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            searchTerms
-          }),
-        });
-
-        if (papersResponse.ok) {
-          const papersResult = await papersResponse.json();
-          setRecommendedPapers(papersResult.papers || []);
-          setSearchQuery(papersResult.query || searchTerms[0] || '');
-        } else {
-          console.error('Failed to fetch papers:', await papersResponse.text());
-        }
-      }
-    } catch (err) {
-      console.error('Error fetching paper recommendations:', err);
-      // Don't show errors for this part to the user, just log them
-    } finally {
-      setIsLoadingPapers(false);
-    }
-
-    // Now start the main feedback process
-    setIsLoadingFeedback(true); // Use specific loader
+    setErrorDetails(null);
+    setIsLoadingFeedback(true);
     setFeedback(null);
     setTokenUsage(null); // Clear previous usage
     setAiReasoning(null); // Clear previous reasoning
+    setFeedbackStage('search_terms');
+    setChunkProgress(null);
+    setAppliedRubric(useRubric ? rubric : null);
+    setAppliedTemplate({ id: selectedTemplate.template.id, name: selectedTemplate.template.name, version: selectedTemplate.version.version });
+    setAppliedSettings(currentSettings());
+    setPanelSize(usePanel ? panelSelection.length : 0);
+    setPanelReviews([]);
+    setActiveReviewer(null);
+    setRevisionReport(null);
+    setThreads({});
+    setOpenThread(null);
+    setRegenerationError(null);
+    setReferenceReport(null);
+    setCacheHits(prev => ({ ocr: prev.ocr }));
+    setReview(createReview());
+    setOpenedBatchId(null);
+    setViewMode('instructor');
+    setSelectedQuote(null);
+    runRevisionCheck();
+    runReferenceCheck();
 
     try {
-      const response = await fetchWithApiKey('/api/feedback', {
+      // Search terms, papers and feedback all come from one event stream
+      const response = await fetchWithApiKey('/api/feedback/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        // Include documentType and harshness in the request body
         body: JSON.stringify({
             markdownProposal,
             assessmentGuidelines,
             documentType,
-            harshness
+            harshness,
+            language: outputLanguage,
+            rubric: useRubric ? rubric : undefined,
+            promptTemplate: { body: selectedTemplate.version.body, harshness: selectedTemplate.version.harshness },
+            panel: usePanel ? panelSelection : undefined,
+            provider,
+            force: forceRegenerate
         }),
       });
 
-      const result = await response.json();
-
       if (!response.ok) {
+        const result = await response.json();
         throw new Error(result.error || `HTTP error! status: ${response.status}`);
       }
 
-      setFeedback(result.feedback as FeedbackData); // Extract feedback
-      setTokenUsage(result.usage as UsageMetadata); // Extract usage data
-      setAiReasoning(result.reasoning || null); // Extract reasoning data if available
-      setStep(3);
-      setTimeout(() => {
-          feedbackRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
-      }, 100);
+      let streamError = null as string | null;
+      let streamErrorDetails = null as SchemaIssue[] | null;
+      let completed = false;
+
+      await readEventStream(response, (event, data) => {
+        switch (event) {
+          case 'stage':
+            setFeedbackStage(data.stage);
+            if (data.stage === 'feedback') {
+              // Papers are done; show the results view and fill it in as passages arrive
+              setIsLoadingPapers(false);
+              setFeedback({ overall_feedback: '', passages: [], examination: [] });
+              setStep(3);
+              setTimeout(() => {
+                  feedbackRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+              }, 100);
+            }
+            break;
+          case 'search_terms':
+            if (data.cached) setCacheHits(prev => ({ ...prev, searchTerms: data.cached }));
+            break;
+          case 'papers':
+            setRecommendedPapers(data.papers || []);
+            setSearchQuery(data.query || '');
+            break;
+          case 'chunk':
+            setChunkProgress(data);
+            break;
+          case 'passage':
+            setFeedback(prev => prev ? { ...prev, passages: [...prev.passages, data] } : prev);
+            break;
+          case 'examination':
+            setFeedback(prev => prev ? { ...prev, examination: [...prev.examination, data] } : prev);
+            break;
+          case 'reviewer':
+            setPanelReviews(prev => [...prev, data as ReviewerFeedback]);
+            break;
+          case 'complete':
+            // The final result replaces the streamed items (chunk results are merged and deduplicated)
+            setFeedback(data.feedback as FeedbackData);
+            setTokenUsage(data.usage as UsageMetadata);
+            setAiReasoning(data.reasoning || null);
+            setChunkCount(data.chunks || 1);
+            // Keep the reviewers in the order they were picked rather than the order they finished
+            if (data.panel) setPanelReviews(data.panel.reviewers);
+            if (data.cached) setCacheHits(prev => ({ ...prev, feedback: data.cached }));
+            completed = true;
+            break;
+          case 'error':
+            streamError = data.error;
+            streamErrorDetails = data.details || null;
+            break;
+        }
+      });
+
+      if (streamError) {
+        setErrorDetails(streamErrorDetails);
+        throw new Error(streamError);
+      }
+      if (!completed) throw new Error('Feedback stream ended unexpectedly.');
 
     } catch (err: any) {
       console.error('Feedback Error:', err);
@@ -305,268 +785,350 @@ export default function Home() {
       setFeedback(null);
       setTokenUsage(null);
       setAiReasoning(null);
+      setPanelReviews([]);
+      setStep(2);
     } finally {
+      setIsLoadingPapers(false);
       setIsLoadingFeedback(false); // Turn off specific loader
+      setFeedbackStage(null);
+      setChunkProgress(null);
     }
   };
 
-  // Memoize the processed proposal text and annotations to avoid re-computation
-  const { annotatedProposalHtml, annotationData } = useMemo(() => {
-    if (!markdownProposal || !feedback?.passages || feedback.passages.length === 0) {
-      return { annotatedProposalHtml: <pre className="whitespace-pre-wrap break-words">{markdownProposal || ''}</pre>, annotationData: [] };
-    }
-
-    // Store original content
-    const originalHtml = markdownProposal;
-
-    // Track which passages we've matched successfully and their positions
-    const matchedPassages = new Map<string, { passage: FeedbackPassage, id: string, startIndex: number }>();
-    const appliedAnnotations = new Set<string>();
-
-    // Create a mapping for annotation IDs
-    const passageMap = new Map<string, {
-      passage: FeedbackPassage,
-      id: string
-    }>();
-
-    // Prepare passages for advanced matching
-    feedback.passages.forEach((passage, index) => {
-      const id = `annotation-${index}`;
-      passageMap.set(passage.referenced_student_text_quote, {
-        passage,
-        id
-      });
+  // Grades the given batch submissions (all of them, or the failed ones on retry)
+  const runBatch = async (ids: string[]) => {
+    setError(null);
+    setIsBatchRunning(true);
+    const settings = currentSettings();
+    setBatchSettings({
+      rubric: useRubric ? rubric : null,
+      template: { id: selectedTemplate.template.id, name: selectedTemplate.template.name, version: selectedTemplate.version.version },
+      settings
     });
+    const options = {
+      ...settings,
+      rubric: useRubric ? rubric : undefined,
+      panel: usePanel ? panelSelection : undefined,
+      provider
+    };
+    const updateSubmission = (id: string, update: Partial<BatchSubmission>) =>
+      setBatchSubmissions(prev => prev.map(s => s.id === id ? { ...s, ...update } : s));
 
-    // Function to find the best substring match
-    function findBestSubstringMatch(needle: string, haystack: string): {
-      startIndex: number,
-      endIndex: number,
-      matchedText: string,
-      similarity: number
-    } | null {
-      // Skip very short quotes as they might lead to false matches
-      if (needle.length < 10) return null;
-
-      // For very long quotes, use a sliding window approach
-      const needleNormalized = normalizeText(needle);
-      const haystackNormalized = normalizeText(haystack);
-
-      // For quotes longer than 50 chars, try matching key parts
-      if (needleNormalized.length > 50) {
-        // Extract a few distinctive chunks (beginning, middle, end)
-        const chunks = [
-          needleNormalized.substring(0, 30),
-          needleNormalized.substring(Math.floor(needleNormalized.length / 2) - 15, Math.floor(needleNormalized.length / 2) + 15),
-          needleNormalized.substring(needleNormalized.length - 30)
-        ];
-
-        // Find locations of these chunks in the haystack
-        const locations = chunks
-          .map(chunk => {
-            const idx = haystackNormalized.indexOf(chunk);
-            return idx >= 0 ? { chunk, idx } : null;
-          })
-          .filter(Boolean);
-
-        // If we found at least one chunk
-        if (locations.length > 0) {
-          // Sort by index to find the earliest one
-          locations.sort((a, b) => a!.idx - b!.idx);
-          const firstChunk = locations[0]!;
-
-          // Estimate the start index based on which chunk we matched
-          let estimatedStartIndex;
-          if (firstChunk.chunk === chunks[0]) {
-            estimatedStartIndex = firstChunk.idx;
-          } else if (firstChunk.chunk === chunks[1]) {
-            estimatedStartIndex = Math.max(0, firstChunk.idx - Math.floor(needleNormalized.length / 2) + 15);
-          } else {
-            estimatedStartIndex = Math.max(0, firstChunk.idx - needleNormalized.length + 30);
-          }
-
-          // Extract the region around this chunk from the original text
-          const estimatedEndIndex = Math.min(haystack.length, estimatedStartIndex + needle.length + 20);
-
-          // Get the actual text from the original
-          const matchedText = haystack.substring(estimatedStartIndex, estimatedEndIndex);
-
-          // Calculate approximate similarity
-          const matchSimilarity = 0.9; // High confidence if we matched a chunk exactly
-
-          return {
-            startIndex: estimatedStartIndex,
-            endIndex: estimatedEndIndex,
-            matchedText,
-            similarity: matchSimilarity
-          };
-        }
-      }
-
-      // For shorter quotes or if chunk matching fails, use a different approach
-      // Try to find a match with a decent sequence of words
-      const words = needle.split(/\s+/).filter(w => w.length > 3);
-
-      if (words.length >= 3) {
-        // Find a sequence of 3+ consequent words that match
-        for (let i = 0; i <= words.length - 3; i++) {
-          // Escape each word to avoid regex syntax errors from special characters
-          const escapedWords = words.slice(i, i + 3).map(word =>
-            word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-          );
-
-          // Join with escaped whitespace pattern
-          const wordSeq = escapedWords.join("\\s+");
-
-          try {
-            // Safely create regex with error handling
-            const seqRegex = new RegExp(wordSeq, "i");
-            const match = haystackNormalized.match(seqRegex);
-
-            if (match && match.index !== undefined) {
-              // Expand to get the full approximate quote
-              const startIdx = Math.max(0, match.index - 20);
-              const endIdx = Math.min(haystackNormalized.length, match.index + needle.length + 20);
-
-              // Get the matched text from the original
-              const matchedText = haystack.substring(startIdx, endIdx);
-
-              return {
-                startIndex: startIdx,
-                endIndex: endIdx,
-                matchedText,
-                similarity: 0.85 // Good confidence for 3+ word sequence match
-              };
-            }
-          } catch (error) {
-            console.error(`RegExp error with: "${wordSeq}"`, error);
-            // Continue to next word sequence if this one has regex issues
-            continue;
-          }
-        }
-      }
-
-      // Last resort: find ANY significant word from the quote
-      const significantWords = words.filter(w => w.length > 5).sort((a, b) => b.length - a.length);
+    try {
+      await mapWithConcurrency(ids, BATCH_CONCURRENCY, async id => {
+        const index = batchSubmissions.findIndex(s => s.id === id);
+        await gradeSubmission(batchFiles[index], options, forceRegenerate, update => updateSubmission(id, update));
+      });
+    } finally {
+      setIsBatchRunning(false);
+    }
+  };
 
-      if (significantWords.length > 0) {
-        for (const word of significantWords) {
-          // Escape the word to prevent regex errors
-          const escapedWord = word.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const handleRunBatch = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!assessmentGuidelines.trim() && !useRubric) {
+      setError('Please enter assessment guidelines or use a rubric.');
+      return;
+    }
+    setBatchSubmissions(prev => prev.map(s => ({ ...s, status: 'queued', result: undefined, review: undefined, error: undefined })));
+    await runBatch(batchSubmissions.map(s => s.id));
+  };
 
-          try {
-            const idx = haystackNormalized.indexOf(escapedWord);
+  // Shows a finished batch submission in the Step 3 view
+  const openBatchResult = (id: string) => {
+    const submission = batchSubmissions.find(s => s.id === id);
+    if (!submission?.result) return;
+    const { result } = submission;
+    setFile(batchFiles[batchSubmissions.indexOf(submission)] ?? null);
+    setMarkdownProposal(submission.markdownProposal ?? '');
+    setFeedback(result.feedback);
+    setTokenUsage(result.usage);
+    setAiReasoning(result.reasoning);
+    setChunkCount(result.chunks || 1);
+    setAppliedRubric(batchSettings.rubric);
+    setAppliedTemplate(batchSettings.template);
+    setAppliedSettings(batchSettings.settings);
+    setPanelSize(result.panel ? result.panel.reviewers.length : 0);
+    setPanelReviews(result.panel?.reviewers ?? []);
+    setActiveReviewer(null);
+    setRecommendedPapers([]);
+    setSearchQuery('');
+    setRevisionReport(null);
+    setThreads({});
+    setOpenThread(null);
+    setRegenerationError(null);
+    setReferenceReport(null);
+    setReferenceError(null);
+    setCacheHits({ ocr: submission.ocrCached, feedback: result.cached });
+    setReview(submission.review ?? createReview());
+    setOpenedBatchId(id);
+    setViewMode('instructor');
+    setSelectedQuote(null);
+    setError(null);
+    setStep(3);
+  };
 
-            if (idx >= 0) {
-              const startIdx = Math.max(0, idx - 10);
-              const endIdx = Math.min(haystackNormalized.length, idx + needle.length + 10);
+  // Applies a change to the review, and keeps the batch submission's copy in step
+  const updateReview = (change: (current: FeedbackReview) => FeedbackReview) => {
+    if (!review) return;
+    const updated = change(review);
+    setReview(updated);
+    if (openedBatchId) setBatchSubmissions(prev => prev.map(s => s.id === openedBatchId ? { ...s, review: updated } : s));
+  };
 
-              const matchedText = haystack.substring(startIdx, endIdx);
+  // Offers the selected document text for a new annotation
+  const handleTextSelection = () => {
+    const container = proposalTextRef.current;
+    const selection = window.getSelection();
+    if (!canReview || !container || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    // The container holds nothing but the document text, so text offsets are document offsets
+    const preceding = document.createRange();
+    preceding.selectNodeContents(container);
+    preceding.setEnd(range.startContainer, range.startOffset);
+    const selected = range.toString();
+    const start = preceding.toString().length + (selected.length - selected.trimStart().length);
+    const quote = selected.trim();
+    if (!quote || markdownProposal.substring(start, start + quote.length) !== quote) return;
+    setSelectedQuote({ quote, anchor: { start, end: start + quote.length, confidence: 1 } });
+    setNewAnnotation('');
+  };
 
-              return {
-                startIndex: startIdx,
-                endIndex: endIdx,
-                matchedText,
-                similarity: 0.7 // Lower confidence for single word match
-              };
-            }
-          } catch (error) {
-            console.error(`Error matching word: "${escapedWord}"`, error);
-            continue;
-          }
-        }
-      }
+  const handleAddAnnotation = (event: FormEvent) => {
+    event.preventDefault();
+    if (!selectedQuote || !newAnnotation.trim()) return;
+    updateReview(current => addAnnotation(current, { referenced_student_text_quote: selectedQuote.quote, feedback: newAnnotation.trim(), anchor: selectedQuote.anchor }));
+    setSelectedQuote(null);
+    setNewAnnotation('');
+    window.getSelection()?.removeAllRanges();
+  };
 
-      return null; // No match found
+  // Compares the texts of the batch with each other on the server
+  const runOverlapCheck = async () => {
+    setIsCheckingOverlap(true);
+    setOverlapError(null);
+    try {
+      const response = await fetch('/api/overlap', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          submissions: batchSubmissions
+            .filter(s => s.markdownProposal)
+            .map(s => ({ id: s.id, name: s.fileName, markdown: s.markdownProposal }))
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      setOverlapReport(result);
+    } catch (err: any) {
+      console.error('Overlap check error:', err);
+      setOverlapError(err.message);
+      setOverlapReport(null);
+    } finally {
+      setIsCheckingOverlap(false);
     }
+  };
 
-    // Apply highlighting to the text
-    let finalHtml = originalHtml;
-    let processedHtml = finalHtml;
-    let offset = 0; // Track offset changes due to HTML insertion
-
-    // Process passages to annotate. Start with longer ones first.
-    const sortedPassages = [...feedback.passages]
-      .sort((a, b) => b.referenced_student_text_quote.length - a.referenced_student_text_quote.length);
-
-    for (const passage of sortedPassages) {
-      const quote = passage.referenced_student_text_quote;
-      const info = passageMap.get(quote);
-
-      if (!info) continue; // Skip if we can't find the info/id
+  const handleBatchFilesChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter(f => f.type === 'application/pdf');
+    setBatchFiles(files);
+    setBatchSubmissions(createBatch(files));
+    setOverlapReport(null);
+    setOverlapError(null);
+    if (files.length > 0) {
+      setError(null);
+      setStep(2);
+    }
+    event.target.value = '';
+  };
 
-      // Use the *current* state of processedHtml for matching
-      const match = findBestSubstringMatch(quote, processedHtml);
+  // Feedback shown in Step 3: the consensus with the instructor's edits, one panel reviewer's
+  // own review, or in the student view only what has been released
+  const displayedFeedback = useMemo(() => {
+    if (viewMode === 'student') return review?.released ?? null;
+    if (activeReviewer) return panelReviews.find(r => r.reviewer.id === activeReviewer)?.feedback ?? feedback;
+    return feedback && review ? applyReview(feedback, review, { keepRejected: true }) : feedback;
+  }, [feedback, panelReviews, activeReviewer, review, viewMode]);
+  const isStudentView = viewMode === 'student';
 
-      if (match && match.similarity >= 0.7) { // Require reasonable confidence
-        // Debug
-        console.log(`Found match for: "${quote.substring(0, 30)}..." with similarity ${match.similarity}`);
+  // Re-estimate the cost shortly after the options stop changing
+  useEffect(() => {
+    if (step !== 2 || !markdownProposal || (!assessmentGuidelines.trim() && !useRubric) || (usePanel && panelSelection.length < 2)) {
+      setCostEstimates(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsEstimating(true);
+      setEstimateError(null);
+      try {
+        const response = await fetchWithApiKey('/api/feedback/estimate', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            markdownProposal,
+            assessmentGuidelines,
+            documentType,
+            harshness,
+            language: outputLanguage,
+            rubric: useRubric ? rubric : undefined,
+            promptTemplate: { body: selectedTemplate.version.body, harshness: selectedTemplate.version.harshness },
+            panel: usePanel ? panelSelection : undefined,
+            provider
+          }),
+          signal: controller.signal
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+        setCostEstimates(result.estimates);
+      } catch (err: any) {
+        if (err.name === 'AbortError') return;
+        console.error('Cost estimate error:', err);
+        setEstimateError(err.message);
+      } finally {
+        if (!controller.signal.aborted) setIsEstimating(false);
+      }
+    }, 800);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [step, markdownProposal, assessmentGuidelines, documentType, harshness, outputLanguage, useRubric, rubric, selectedTemplate, usePanel, panelSelection, provider]);
 
-        // Get the text we're going to wrap from the current processedHtml
-        const textToWrap = processedHtml.substring(match.startIndex, match.endIndex);
-        const startIdx = match.startIndex;
-        const endIdx = match.endIndex; // Use the matched end index
+  // Sections that can be annotated further
+  const documentHeadings = useMemo(() => parseHeadings(markdownProposal), [markdownProposal]);
 
-        // Insert the highlighting span
-        const before = processedHtml.substring(0, startIdx);
-        const after = processedHtml.substring(endIdx);
+  // Outline of the document and the expected sections it lacks or barely covers
+  const sectionTree = useMemo(() => buildSectionTree(markdownProposal), [markdownProposal]);
+  const sectionChecks = useMemo(
+    () => markdownProposal ? checkExpectedSections(markdownProposal, getDocumentType(documentType).expectedSections) : [],
+    [markdownProposal, documentType]
+  );
 
-        const highlightedText = `<span id="text-${info.id}" data-annotation-id="${info.id}" class="annotation-highlight cursor-pointer transition-colors duration-200 ${activeAnnotationId === info.id ? 'bg-yellow-200 dark:bg-yellow-700/50' : 'bg-blue-100/50 dark:bg-blue-900/30 hover:bg-blue-200/70 dark:hover:bg-blue-800/50'} rounded px-1">${textToWrap}</span>`;
+  // Shown next to the "auto" output language
+  const detectedLanguage = useMemo(() => detectLanguage(markdownProposal), [markdownProposal]);
 
-        processedHtml = before + highlightedText + after;
+  // Single items can only be regenerated or edited on the final (consensus) feedback, until it is released
+  const canRegenerate = !isLoadingFeedback && !activeReviewer && !isStudentView && review?.state !== 'released';
+  const canReview = canRegenerate && !!review;
 
-        // Store the match info including the start index relative to the *original* text (adjusting for offset changes isn't strictly necessary for sorting if we match on original)
-        // Let's try matching on the original text to get stable indices for sorting
-        const originalMatch = findBestSubstringMatch(quote, originalHtml);
-        const stableStartIndex = originalMatch ? originalMatch.startIndex : -1; // Fallback if original match fails
+  // Citation style deviations; runs locally and needs no feedback
+  const citationStyleReport = useMemo(
+    () => markdownProposal ? checkCitationStyle(markdownProposal, citationStyle === 'auto' ? undefined : citationStyle) : null,
+    [markdownProposal, citationStyle]
+  );
 
-        matchedPassages.set(quote, { passage, id: info.id, startIndex: stableStartIndex });
-        appliedAnnotations.add(info.id);
+  // Memoize the processed proposal text and annotations to avoid re-computation
+  const { annotatedProposalHtml, annotationData } = useMemo(() => {
+    const feedback = displayedFeedback;
+    // The student view shows only what the instructor released
+    const styleAnnotations = showCitationStyle && !isStudentView && citationStyleReport ? citationStyleAnnotations(citationStyleReport) : [];
+    if (!markdownProposal) {
+      return { annotatedProposalHtml: <pre className="whitespace-pre-wrap break-words">{markdownProposal || ''}</pre>, annotationData: [] };
+    }
 
-        // Update offset based on the length difference introduced by the span
-        // offset += highlightedText.length - textToWrap.length; // This becomes complex if matches overlap. Simpler to re-match on original for sorting index.
+    // Anchors come from the server; passages still streaming in (or from older exports) are anchored here
+    const passages = anchorPassages([...(feedback?.passages ?? []), ...styleAnnotations], markdownProposal);
+
+    // Anchored spans, highlighted in document order
+    const anchored = passages.flatMap((passage, index) => passage.anchor && passage.anchor.end <= markdownProposal.length
+      ? [{ id: `annotation-${index}`, start: passage.anchor.start, end: passage.anchor.end, source: passage.source }]
+      : []);
+
+    // Empty markers at section starts let the outline scroll to a section
+    const sectionStarts = Array.from(new Set([...documentHeadings.map(h => h.start), ...sectionChecks.flatMap(c => c.start ?? [])]))
+      .sort((a, b) => a - b);
+    let nextSection = 0;
+    const renderText = (from: number, to: number): ReactNode[] => {
+      const parts: ReactNode[] = [];
+      for (; nextSection < sectionStarts.length && sectionStarts[nextSection] < to; nextSection++) {
+        const sectionStart = Math.max(sectionStarts[nextSection], from);
+        if (sectionStart > from) parts.push(markdownProposal.substring(from, sectionStart));
+        parts.push(<span key={`section-${sectionStarts[nextSection]}`} id={`section-${sectionStarts[nextSection]}`} />);
+        from = sectionStart;
       }
-    }
+      if (to > from) parts.push(markdownProposal.substring(from, to));
+      return parts;
+    };
+    const segments = highlightSpans(markdownProposal, anchored, ({ id, source }, highlighted) => (
+      <span
+        key={id}
+        id={`text-${id}`}
+        data-annotation-id={id}
+        className={`annotation-highlight cursor-pointer transition-colors duration-200 ${activeAnnotationId === id ? 'bg-yellow-200 dark:bg-yellow-700/50' : source === 'citation_style' ? 'bg-purple-100/60 dark:bg-purple-900/30 hover:bg-purple-200/70 dark:hover:bg-purple-800/50' : source === 'instructor' ? 'bg-green-100/60 dark:bg-green-900/30 hover:bg-green-200/70 dark:hover:bg-green-800/50' : 'bg-blue-100/50 dark:bg-blue-900/30 hover:bg-blue-200/70 dark:hover:bg-blue-800/50'} rounded`}
+      >
+        {highlighted}
+      </span>
+    ), renderText);
 
-    // Render the HTML with highlights
     const renderedHtml = (
       <div className="prose dark:prose-invert max-w-none whitespace-pre-wrap break-words">
-        <div dangerouslySetInnerHTML={{ __html: processedHtml.replace(/\n/g, '<br />') }} />
+        {segments}
       </div>
     );
 
-    // Prepare sidebar data
-    const matchedAnnotationsData = Array.from(matchedPassages.values()).map(info => ({
-      id: info.id,
-      feedback: info.passage.feedback,
-      guideline: info.passage.quote_from_marking_guidelines,
-      quote: info.passage.referenced_student_text_quote,
-      startIndex: info.startIndex // Keep track of position
-    }));
-
-    // Get unmatched annotations - assign a high start index so they appear last if sorted
-    const unmatchedAnnotationsData = feedback.passages
-      .filter(p => !matchedPassages.has(p.referenced_student_text_quote))
-      .map((p, index) => ({
-        id: `unmatched-${index}`,
-        feedback: p.feedback,
-        guideline: p.quote_from_marking_guidelines,
-        quote: p.referenced_student_text_quote,
-        startIndex: Infinity // Place unmatched annotations at the end
-      }));
-
-    // Combine and sort annotations by their starting position in the original text
-    const allAnnotations = [...matchedAnnotationsData, ...unmatchedAnnotationsData]
-        .sort((a, b) => a.startIndex - b.startIndex);
-
-
-    console.log(`Matched ${matchedAnnotationsData.length} quotes, ${unmatchedAnnotationsData.length} unmatched`);
+    // Sidebar data sorted by position in the text; unanchored annotations go last
+    const allAnnotations = passages
+      .map((passage, index) => ({
+        id: passage.anchor ? `annotation-${index}` : `unmatched-${index}`,
+        feedback: passage.feedback,
+        guideline: passage.quote_from_marking_guidelines,
+        quote: passage.referenced_student_text_quote,
+        reviewers: passage.reviewers,
+        source: passage.source,
+        confidence: passage.anchor?.confidence,
+        startIndex: passage.anchor?.start ?? Infinity,
+        section: passage.anchor ? findSectionAt(documentHeadings, passage.anchor.start) : null
+      }))
+      .sort((a, b) => a.startIndex - b.startIndex);
 
     return {
       annotatedProposalHtml: renderedHtml,
       annotationData: allAnnotations // Use the sorted array
     };
-  }, [markdownProposal, feedback, activeAnnotationId]);
+  }, [markdownProposal, displayedFeedback, activeAnnotationId, citationStyleReport, showCitationStyle, isStudentView, documentHeadings, sectionChecks]);
+
+  // Annotations per section for the outline
+  const sectionAnnotationCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    annotationData.forEach(anno => anno.section && counts.set(anno.section.start, (counts.get(anno.section.start) ?? 0) + 1));
+    return counts;
+  }, [annotationData]);
+
+  const scrollToSection = (start: number) => {
+    document.getElementById(`section-${start}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Weighted rubric total, recomputed whenever the examination changes
+  const rubricResult = useMemo(() => {
+    if (!appliedRubric || !displayedFeedback) return null;
+    return computeRubricResult(appliedRubric, displayedFeedback.examination);
+  }, [appliedRubric, displayedFeedback]);
+
+  // Word document for returning the feedback, without the annotations the instructor rejected.
+  // Anything but the released version is marked as a draft, so it isn't mistaken for one to send.
+  const exportDocx = () => {
+    const exported = isStudentView || activeReviewer ? displayedFeedback : feedback && review ? applyReview(feedback, review) : feedback;
+    if (!exported) return;
+    const draft = !isStudentView && (!!activeReviewer || review?.state !== 'released');
+    const name = file?.name.replace(/\.pdf$/i, '') || 'feedback';
+    const docx = buildFeedbackDocx({ markdownProposal, feedback: exported, title: file?.name ?? 'Feedback', rubric: appliedRubric, rubricResult, draft });
+    downloadBlob(new Blob([docx], { type: DOCX_MIME_TYPE }), `${name}_${draft ? 'draft_' : ''}feedback.docx`);
+  };
+
+  const togglePanelReviewer = (id: string, selected: boolean) => {
+    setPanelSelection(prev => selected
+      ? REVIEWER_PERSONAS.map(p => p.id).filter(p => p === id || prev.includes(p))
+      : prev.filter(p => p !== id));
+  };
 
   // Interaction handler for annotations
   const handleAnnotationInteraction = (annotationId: string | null) => {
@@ -623,6 +1185,47 @@ export default function Home() {
     }
   };
 
+  // Render live progress while feedback is streaming
+  const renderFeedbackProgress = () => {
+    if (!feedbackStage) return null;
+
+    const stageIndex = FEEDBACK_STAGES.findIndex(s => s.stage === feedbackStage);
+    const totalWeight = FEEDBACK_STAGES.reduce((sum, s) => sum + s.weight, 0);
+    let completedWeight = FEEDBACK_STAGES.slice(0, stageIndex).reduce((sum, s) => sum + s.weight, 0);
+    if (feedbackStage === 'feedback' && panelSize > 0) {
+      completedWeight += FEEDBACK_STAGES[stageIndex].weight * (panelReviews.length / panelSize);
+    } else if (feedbackStage === 'feedback' && chunkProgress) {
+      completedWeight += FEEDBACK_STAGES[stageIndex].weight * (chunkProgress.index / chunkProgress.total);
+    }
+    const percent = Math.round((completedWeight / totalWeight) * 100);
+
+    return (
+      <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-4 bg-blue-50/50 dark:bg-blue-900/20">
+        <div className="flex justify-between text-xs text-blue-800 dark:text-blue-200 mb-2">
+          <span className="font-medium">{FEEDBACK_STAGES[stageIndex]?.label}...</span>
+          <span>{percent}%</span>
+        </div>
+        <div className="w-full h-2 bg-blue-100 dark:bg-blue-900/50 rounded-full overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-blue-600 to-indigo-600 transition-all duration-500" style={{ width: `${percent}%` }}></div>
+        </div>
+        <ol className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {FEEDBACK_STAGES.map((s, index) => (
+            <li key={s.stage} className={index < stageIndex ? 'text-green-700 dark:text-green-400' : index === stageIndex ? 'text-blue-700 dark:text-blue-300 font-medium' : 'text-gray-400 dark:text-gray-500'}>
+              {index < stageIndex ? '✓ ' : ''}{s.label}
+              {s.stage === 'feedback' && index === stageIndex && chunkProgress && chunkProgress.total > 1 && ` (part ${chunkProgress.index + 1} of ${chunkProgress.total})`}
+              {s.stage === 'feedback' && index === stageIndex && panelSize > 0 && ` (${panelReviews.length} of ${panelSize} reviewers done)`}
+            </li>
+          ))}
+        </ol>
+        {feedbackStage === 'feedback' && feedback && panelSize === 0 && (
+          <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+            {feedback.passages.length} annotation{feedback.passages.length === 1 ? '' : 's'} and {feedback.examination.length} examination area{feedback.examination.length === 1 ? '' : 's'} so far
+          </p>
+        )}
+      </div>
+    );
+  };
+
   // Add this function to render recommended papers
   const renderRecommendedPapers = () => {
     // Changed condition to show papers during feedback generation and when papers are available
@@ -740,6 +1343,13 @@ export default function Home() {
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 text-gray-900 dark:text-gray-100 font-[family-name:var(--font-geist-sans)]">
       <nav className="bg-white dark:bg-gray-800 shadow-md p-4 sticky top-0 z-20 border-b border-gray-200 dark:border-gray-700">
         <h1 className="text-xl font-bold text-center bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-purple-600 dark:from-blue-400 dark:to-purple-400">Academic Feedback Assistant</h1>
+        <button
+          type="button"
+          onClick={() => setShowCohort(!showCohort)}
+          className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Cohort analytics{cohort.length > 0 ? ` (${cohort.length})` : ''}
+        </button>
       </nav>
 
       {/* Use more screen width */}
@@ -778,6 +1388,25 @@ export default function Home() {
         {error && (
           <div className="mb-6 p-4 text-sm text-red-800 rounded-lg bg-red-100 dark:bg-red-900/40 dark:text-red-300 border border-red-300 dark:border-red-700 shadow-sm backdrop-blur-sm" role="alert">
             <span className="font-medium">Error:</span> {error}
+            {errorDetails && errorDetails.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-xs font-[family-name:var(--font-geist-mono)]">
+                {errorDetails.map((issue, index) => (
+                  <li key={index}>{issue.path}: {issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {showCohort && (
+          <div className="mb-8">
+            <CohortDashboard
+              entries={cohort}
+              onImport={handleCohortImport}
+              onRemove={(id) => updateCohort(cohort.filter(entry => entry.id !== id))}
+              onClear={() => updateCohort([])}
+              onClose={() => setShowCohort(false)}
+            />
           </div>
         )}
 
@@ -829,6 +1458,46 @@ export default function Home() {
               </div>
               <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 italic">Your document will be processed using Mistral OCR</p>
 
+              {/* Resubmission: previous feedback export */}
+              <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50">
+                <label htmlFor="previous-export" className="block text-sm font-medium text-gray-900 dark:text-white">Revised draft? <span className="font-normal text-gray-500 dark:text-gray-400">(optional)</span></label>
+                <p className="mt-1 mb-2 text-xs text-gray-500 dark:text-gray-400">Attach the JSON exported for the previous draft to check which comments were addressed.</p>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    id="previous-export"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => handlePreviousExportChange(e.target.files ? e.target.files[0] : null)}
+                    className="text-xs text-gray-700 dark:text-gray-300"
+                  />
+                  {previousSubmission && (
+                    <span className="text-xs text-green-700 dark:text-green-400">
+                      {previousSubmission.fileName}: {previousSubmission.feedback.passages.length} annotations, {previousSubmission.feedback.examination.length} examination areas
+                      {!previousSubmission.markdownProposal && ' (no document text, so changes can only be matched approximately)'}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {/* Batch grading: many PDFs, configured once in Step 2 */}
+              <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50">
+                <label htmlFor="batch-upload" className="block text-sm font-medium text-gray-900 dark:text-white">Grading a whole class? <span className="font-normal text-gray-500 dark:text-gray-400">(optional)</span></label>
+                <p className="mt-1 mb-2 text-xs text-gray-500 dark:text-gray-400">Select several PDFs to grade them all with the same options. Up to {BATCH_CONCURRENCY} are processed at once.</p>
+                <input
+                  id="batch-upload"
+                  type="file"
+                  accept="application/pdf"
+                  multiple
+                  onChange={handleBatchFilesChange}
+                  className="text-xs text-gray-700 dark:text-gray-300"
+                />
+              </div>
+
+              <label className="mt-4 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={forceRegenerate} onChange={(e) => setForceRegenerate(e.target.checked)} />
+                Force regenerate (ignore cached results)
+              </label>
+
               <button
                 type="submit"
                 disabled={!file || isLoadingOcr}
@@ -856,37 +1525,30 @@ export default function Home() {
         {step === 2 && (
           <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 space-y-6 transition-all duration-300">
             <h2 className="text-xl font-semibold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-400 dark:to-indigo-400">Configure Feedback</h2>
-            <form onSubmit={handleGetFeedback} className="space-y-8">
+            <form onSubmit={batchSubmissions.length > 0 ? handleRunBatch : handleGetFeedback} className="space-y-8">
 
-             {/* Document Type Selector - Enhanced */}
+             {/* Document Type Selector - generated from the document-type registry */}
              <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
                 <label className="block mb-3 text-sm font-medium text-gray-900 dark:text-white">Document Type</label>
-                <div className="flex rounded-md shadow-sm">
-                   <button
-                      type="button"
-                      onClick={() => setDocumentType('proposal')}
-                      className={`px-5 py-2.5 text-sm font-medium rounded-l-lg border focus:z-10 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 ${documentType === 'proposal' ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white border-blue-600 shadow-md' : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 border-gray-300 dark:border-gray-600'}`}
-                   >
-                      <div className="flex items-center">
-                        <svg className={`w-4 h-4 mr-2 ${documentType === 'proposal' ? 'text-white' : 'text-gray-500 dark:text-gray-400'}`} viewBox="0 0 20 20" fill="currentColor">
-                          <path d="M9 4.804A7.968 7.968 0 005.5 4c-1.255 0-2.443.29-3.5.804v10A7.969 7.969 0 015.5 14c1.669 0 3.218.51 4.5 1.385A7.962 7.962 0 0114.5 14c1.255 0 2.443.29 3.5.804v-10A7.968 7.968 0 0014.5 4c-1.255 0-2.443.29-3.5.804V12a1 1 0 11-2 0V4.804z"/>
-                        </svg>
-                        Thesis Proposal
-                      </div>
-                   </button>
-                   <button
-                      type="button"
-                      onClick={() => setDocumentType('paper_draft')}
-                      className={`px-5 py-2.5 text-sm font-medium rounded-r-lg border focus:z-10 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 ${documentType === 'paper_draft' ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white border-blue-600 shadow-md' : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 border-gray-300 dark:border-gray-600'} border-l-0`}
-                   >
-                      <div className="flex items-center">
-                        <svg className={`w-4 h-4 mr-2 ${documentType === 'paper_draft' ? 'text-white' : 'text-gray-500 dark:text-gray-400'}`} viewBox="0 0 20 20" fill="currentColor">
-                          <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd"/>
-                        </svg>
-                        Paper Draft
-                      </div>
-                   </button>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                   {DOCUMENT_TYPES.map(type => (
+                      <button
+                         key={type.id}
+                         type="button"
+                         onClick={() => setDocumentType(type.id)}
+                         className={`flex flex-col items-start px-3 py-2.5 text-sm font-medium border rounded-lg text-left focus:z-10 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 ${documentType === type.id ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white border-blue-600 shadow-md' : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-700 dark:text-white dark:hover:bg-gray-600 border-gray-300 dark:border-gray-600'}`}
+                      >
+                         <span className="flex items-center">
+                           <svg className={`w-4 h-4 mr-2 flex-shrink-0 ${documentType === type.id ? 'text-white' : 'text-gray-500 dark:text-gray-400'}`} viewBox="0 0 20 20" fill="currentColor">
+                             <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd"/>
+                           </svg>
+                           {type.label}
+                         </span>
+                         <span className={`mt-0.5 text-xs font-normal ${documentType === type.id ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'}`}>{type.description}</span>
+                      </button>
+                   ))}
                 </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Expected sections: {getDocumentType(documentType).expectedSections.join(', ')}</p>
              </div>
 
              {/* Harshness Level Selector - Enhanced */}
@@ -913,6 +1575,60 @@ export default function Home() {
                  </div>
              </div>
 
+             {/* Output Language */}
+             <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                <label htmlFor="output-language" className="block mb-3 text-sm font-medium text-gray-900 dark:text-white">Output Language</label>
+                <select
+                  id="output-language"
+                  value={outputLanguage}
+                  onChange={(e) => setOutputLanguage(e.target.value)}
+                  className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {OUTPUT_LANGUAGES.map(language => (
+                    <option key={language.id} value={language.id}>{language.label}</option>
+                  ))}
+                </select>
+                {outputLanguage === AUTO_LANGUAGE && (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    {detectedLanguage
+                      ? `Detected: ${OUTPUT_LANGUAGES.find(l => l.id === detectedLanguage)?.label}.`
+                      : 'The document language could not be detected; the model will match it.'}
+                  </p>
+                )}
+             </div>
+
+             {/* Prompt Template */}
+             <details className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+               <summary className="cursor-pointer text-sm font-medium text-gray-900 dark:text-white">
+                 Reviewer Voice: <span className="font-normal">{selectedTemplate.template.name}{selectedTemplate.template.versions.length > 1 ? ` (v${selectedTemplate.version.version})` : ''}</span>
+               </summary>
+               <p className="mt-2 mb-3 text-xs text-gray-500 dark:text-gray-400">The prompt template sets how the reviewer speaks. The harshness selected above picks which of the template&apos;s harshness texts is used.</p>
+               <PromptTemplateEditor
+                 templates={promptTemplates}
+                 onTemplatesChange={handlePromptTemplatesChange}
+                 selection={templateSelection}
+                 onSelect={handleTemplateSelect}
+               />
+             </details>
+
+             {/* Model Provider Selector */}
+             {availableProviders.length > 1 && (
+               <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                 <label htmlFor="llm-provider" className="block mb-3 text-sm font-medium text-gray-900 dark:text-white">AI Model Provider</label>
+                 <select
+                   id="llm-provider"
+                   value={provider ?? ''}
+                   onChange={(e) => setProvider(e.target.value as LLMProviderName)}
+                   className="block p-2.5 w-full text-sm text-gray-900 bg-white rounded-lg border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white shadow-sm"
+                 >
+                   {availableProviders.map(name => (
+                     <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+                   ))}
+                 </select>
+                 <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Use the self-hosted model for documents that must not leave the institution.</p>
+               </div>
+             )}
+
               <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
                 <label htmlFor="assessment-guidelines" className="block mb-3 text-sm font-medium text-gray-900 dark:text-white">Assessment Guidelines</label>
                 <textarea
@@ -922,33 +1638,157 @@ export default function Home() {
                   onChange={(e) => setAssessmentGuidelines(e.target.value)}
                   className="block p-2.5 w-full text-sm text-gray-900 bg-white rounded-lg border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:placeholder-gray-400 dark:text-white dark:focus:ring-blue-500 dark:focus:border-blue-500 font-[family-name:var(--font-geist-mono)] shadow-sm"
                   placeholder="Enter the guidelines the AI should use for marking the proposal..."
-                  required
+                  required={!useRubric}
                 ></textarea>
                 <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Enter the criteria for assessing this document. What makes for excellent work? What should be penalized?</p>
               </div>
 
+              {/* Structured Rubric */}
+              <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={useRubric}
+                    onChange={(e) => handleUseRubricChange(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Score against a structured rubric
+                </label>
+                <p className="mt-1 mb-3 text-xs text-gray-500 dark:text-gray-400">Each criterion is scored against its level descriptors and combined into a weighted total and grade.</p>
+                {useRubric && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleRubricChange(getDocumentType(documentType).defaultRubric)}
+                      className="mb-3 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Load the default {getDocumentType(documentType).label.toLowerCase()} rubric
+                    </button>
+                    <RubricEditor rubric={rubric} onChange={handleRubricChange} />
+                    {getHeldOutExemplars(rubric).length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600 space-y-2">
+                        <button
+                          type="button"
+                          onClick={runCalibration}
+                          disabled={isCalibrating}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                        >
+                          {isCalibrating ? 'Grading held-out exemplars...' : 'Run calibration on held-out exemplars'}
+                        </button>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Each held-out exemplar is graded like a submission, with the other exemplars in the prompt. This makes one AI request per exemplar.</p>
+                        {calibrationError && <p className="text-xs text-red-600 dark:text-red-400">{calibrationError}</p>}
+                        {calibrationReport && <CalibrationReport report={calibrationReport} />}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Review Panel */}
+              <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={usePanel}
+                    onChange={(e) => setUsePanel(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Use a review panel
+                </label>
+                <p className="mt-1 mb-3 text-xs text-gray-500 dark:text-gray-400">Several reviewers with different perspectives assess the document independently; their ratings are combined into a consensus and disagreements are flagged. Each reviewer is a separate AI request.</p>
+                {usePanel && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {REVIEWER_PERSONAS.map(persona => (
+                      <label key={persona.id} className="flex items-start gap-2 p-2 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-600 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={panelSelection.includes(persona.id)}
+                          onChange={(e) => togglePanelReviewer(persona.id, e.target.checked)}
+                          className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>
+                          <span className="font-medium text-gray-900 dark:text-white">{persona.name}</span>
+                          <span className="block text-gray-500 dark:text-gray-400">{persona.focus}</span>
+                        </span>
+                      </label>
+                    ))}
+                    {panelSelection.length < 2 && (
+                      <p className="text-xs text-red-600 dark:text-red-400 sm:col-span-2">Pick at least two reviewers.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Cost Estimate */}
+              {(costEstimates || isEstimating || estimateError) && (
+                <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                  <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">
+                    Estimated Cost{isEstimating && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Updating...</span>}
+                  </p>
+                  {estimateError && <p className="text-xs text-red-600 dark:text-red-400">Could not estimate the cost: {estimateError}</p>}
+                  {costEstimates && <CostEstimate estimates={costEstimates} selected={provider} />}
+                </div>
+              )}
+
               {renderRecommendedPapers()}
 
+              {renderFeedbackProgress()}
+
+              {cacheHits.ocr && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Document text from cache (processed {new Date(cacheHits.ocr.createdAt).toLocaleString()}).</p>
+              )}
+              <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={forceRegenerate} onChange={(e) => setForceRegenerate(e.target.checked)} />
+                Force regenerate (ignore cached results)
+              </label>
+
               <button
                 type="submit"
-                disabled={!markdownProposal || !assessmentGuidelines.trim() || isLoadingFeedback || isLoadingPapers}
+                disabled={(batchSubmissions.length > 0 ? isBatchRunning : !markdownProposal) || (!assessmentGuidelines.trim() && !useRubric) || (usePanel && panelSelection.length < 2) || isLoadingFeedback || isLoadingPapers}
                 className="mt-6 w-full sm:w-auto text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:ring-4 focus:ring-blue-300/50 font-medium rounded-lg text-sm px-5 py-2.5 text-center dark:from-blue-500 dark:to-indigo-500 dark:hover:from-blue-600 dark:hover:to-indigo-600 dark:focus:ring-blue-800/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:from-blue-600 disabled:hover:to-indigo-600 shadow-md hover:shadow-lg transition-all duration-300 flex items-center justify-center min-w-[200px]"
               >
-                {isLoadingFeedback || isLoadingPapers ? (
+                {isLoadingFeedback || isLoadingPapers || isBatchRunning ? (
                   <>
                     <svg aria-hidden="true" role="status" className="inline w-4 h-4 me-3 text-white animate-spin" viewBox="0 0 100 101" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M100 50.5908C100 78.2051 77.6142 100.591 50 100.591C22.3858 100.591 0 78.2051 0 50.5908C0 22.9766 22.3858 0.59082 50 0.59082C77.6142 0.59082 100 22.9766 100 50.5908ZM9.08144 50.5908C9.08144 73.1895 27.4013 91.5094 50 91.5094C72.5987 91.5094 90.9186 73.1895 90.9186 50.5908C90.9186 27.9921 72.5987 9.67226 50 9.67226C27.4013 9.67226 9.08144 27.9921 9.08144 50.5908Z" fill="#E5E7EB"/><path d="M93.9676 39.0409C96.393 38.4038 97.8624 35.9116 97.0079 33.5539C95.2932 28.8227 92.871 24.3692 89.8167 20.348C85.8452 15.1192 80.8826 10.7238 75.2124 7.41289C69.5422 4.10194 63.2754 1.94025 56.7698 1.05124C51.7666 0.367541 46.6976 0.446843 41.7345 1.27873C39.2613 1.69328 37.813 4.19778 38.4501 6.62326C39.0873 9.04874 41.5694 10.4717 44.0505 10.1071C47.8511 9.54855 51.7191 9.52689 55.5402 10.0491C60.8642 10.7766 65.9928 12.5457 70.6331 15.2552C75.2735 17.9648 79.3347 21.5619 82.5849 25.841C84.9175 28.9121 86.7997 32.2913 88.1811 35.8758C89.083 38.2158 91.5421 39.6781 93.9676 39.0409Z" fill="currentColor"/></svg>
-                    {isLoadingPapers && !isLoadingFeedback ? "Finding Papers..." : "Generating Feedback..."}
+                    {isBatchRunning ? "Grading submissions" : FEEDBACK_STAGES.find(s => s.stage === feedbackStage)?.label ?? "Generating Feedback"}...
                   </>
                 ) : (
                   <>
                     <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"></path>
                     </svg>
-                    Generate Feedback
+                    {batchSubmissions.length > 0 ? `Grade ${batchSubmissions.length} Submissions` : 'Generate Feedback'}
                   </>
                 )}
               </button>
 
+              {batchSubmissions.length > 0 && (
+                <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600 shadow-sm">
+                  <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Batch</p>
+                  <BatchPanel
+                    submissions={batchSubmissions}
+                    rubric={batchSettings.rubric}
+                    running={isBatchRunning}
+                    onOpen={openBatchResult}
+                    onRetryFailed={() => runBatch(batchSubmissions.filter(s => s.status === 'error').map(s => s.id))}
+                    onExport={() => downloadJson(exportBatch(batchSubmissions, { documentType: batchSettings.settings?.documentType ?? documentType, rubric: batchSettings.rubric, promptTemplate: batchSettings.template }), 'batch_feedback.json')}
+                    onCheckOverlap={runOverlapCheck}
+                    checkingOverlap={isCheckingOverlap}
+                    onAddToCohort={() => addToCohort(batchSubmissions.filter(s => s.result).map(s => ({ id: s.fileName, name: s.fileName, feedback: s.review?.released ?? s.result!.feedback, rubric: batchSettings.rubric, addedAt: new Date().toISOString() })))}
+                  />
+                  {overlapError && <p className="mt-3 text-xs text-red-600 dark:text-red-400">Could not compare the submissions: {overlapError}</p>}
+                  {overlapReport && (
+                    <div className="mt-4">
+                      <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">Text overlap between submissions</p>
+                      <OverlapReport
+                        report={overlapReport}
+                        documents={batchSubmissions.filter(s => s.markdownProposal).map(s => ({ id: s.id, name: s.fileName, markdown: s.markdownProposal! }))}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
                <details className="mt-8 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
                   <summary className="cursor-pointer p-4 flex items-center justify-between text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
                     <div className="flex items-center">
@@ -976,28 +1816,116 @@ export default function Home() {
         {step === 3 && feedback && (
           <div ref={feedbackRef} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow space-y-6 scroll-mt-20">
             <div className="flex justify-between items-center mb-4">
-                 <h2 className="text-lg font-semibold">Step 3: Feedback Results</h2>
+                 <h2 className="text-lg font-semibold">{isStudentView ? 'Your Feedback' : 'Step 3: Feedback Results'}</h2>
+                 <div className="flex items-center gap-4">
+                 {review && !isLoadingFeedback && (
+                   <button
+                     onClick={() => { setViewMode(isStudentView ? 'instructor' : 'student'); setActiveReviewer(null); setSelectedQuote(null); }}
+                     className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                   >
+                     {isStudentView ? 'Back to instructor view' : 'Student view'}
+                   </button>
+                 )}
+                 {displayedFeedback && !isLoadingFeedback && (
+                   <button onClick={exportDocx} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                     Export DOCX
+                   </button>
+                 )}
+                 {isStudentView ? (
+                   review?.released && (
+                     <button
+                       onClick={() => downloadJson({ markdownProposal, documentType, feedback: review.released, rubric: appliedRubric, rubricResult, releasedAt: review.releasedAt }, 'released_feedback.json')}
+                       className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                     >
+                       Export released feedback (JSON)
+                     </button>
+                   )
+                 ) : (
+                 <>
+                 <button
+                   onClick={() => addToCohort([{ id: file?.name ?? 'Submission', name: file?.name ?? 'Submission', feedback: review?.released ?? feedback, rubric: appliedRubric, addedAt: new Date().toISOString() }])}
+                   className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                 >
+                   Add to cohort
+                 </button>
+                 {batchSubmissions.length > 0 && (
+                   <button onClick={() => setStep(2)} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                     Back to batch ({batchSubmissions.length})
+                   </button>
+                 )}
                  {/* Export Button */}
                  <button
-                    onClick={() => downloadJson({ feedback, tokenUsage, reasoning: aiReasoning }, 'feedback_response.json')}
+                    onClick={() => downloadJson({ markdownProposal, documentType, feedback, tokenUsage, reasoning: aiReasoning, rubric: appliedRubric, rubricResult, promptTemplate: appliedTemplate, panel: panelReviews.length > 0 ? { reviewers: panelReviews } : undefined, revisionReport, referenceReport, citationStyle: citationStyleReport, threads: Object.values(threads), review }, 'feedback_response.json')}
                     className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
                  >
                      <svg className="w-4 h-4 inline-block" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path></svg>
                      Export Raw Response (JSON)
                  </button>
+                 </>
+                 )}
+                 </div>
             </div>
 
+            {/* Live progress while streaming */}
+            {renderFeedbackProgress()}
+            {isLoadingFeedback && renderRecommendedPapers()}
+
+            {/* Instructor review and release */}
+            {review && !isLoadingFeedback && !isStudentView && (
+              <ReviewPanel
+                feedback={feedback}
+                review={review}
+                onAcceptPending={() => updateReview(current => acceptPending(feedback, current))}
+                onStateChange={(state) => updateReview(current => setReviewState(current, state, feedback))}
+              />
+            )}
+            {isStudentView && !review?.released && (
+              <p className="text-sm italic text-gray-500 dark:text-gray-400">This feedback hasn&apos;t been released yet.</p>
+            )}
+
             {/* Token Usage */}
-            {tokenUsage && (
+            {tokenUsage && !isStudentView && (
                 <div className="text-xs text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-lg p-2 flex gap-4">
                     <span>Input Tokens: {tokenUsage.promptTokenCount ?? 'N/A'}</span>
                     <span>Output Tokens: {tokenUsage.candidatesTokenCount ?? 'N/A'}</span>
                     <span>Total Tokens: {tokenUsage.totalTokenCount ?? 'N/A'}</span>
+                    {chunkCount > 1 && <span>Reviewed in {chunkCount} parts</span>}
                 </div>
             )}
+            {(cacheHits.feedback || cacheHits.searchTerms) && !isStudentView && (
+              <p className="text-xs text-amber-700 dark:text-amber-400 border border-amber-200 dark:border-amber-700 rounded-lg p-2">
+                {cacheHits.feedback
+                  ? `Feedback served from cache (generated ${new Date(cacheHits.feedback.createdAt).toLocaleString()}); the token counts are from that run and no new tokens were used.`
+                  : 'Search terms served from cache.'}
+                {' '}Tick &quot;Force regenerate&quot; in the previous step to generate afresh.
+              </p>
+            )}
+
+            {regenerationError && (
+              <div className="p-3 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-200 dark:text-red-800" role="alert">
+                {regenerationError}
+              </div>
+            )}
+
+            {/* Panel view selector */}
+            {panelSize > 0 && !isStudentView && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-gray-600 dark:text-gray-400">Show:</span>
+                {[{ id: null as string | null, name: 'Consensus' }, ...panelReviews.map(r => ({ id: r.reviewer.id as string | null, name: r.reviewer.name }))].map(view => (
+                  <button
+                    key={view.id ?? 'consensus'}
+                    type="button"
+                    onClick={() => setActiveReviewer(view.id)}
+                    className={`px-3 py-1 rounded-full border transition-colors ${activeReviewer === view.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600'}`}
+                  >
+                    {view.name}
+                  </button>
+                ))}
+              </div>
+            )}
 
             {/* AI Reasoning/Thinking */}
-            {aiReasoning && (
+            {aiReasoning && !isStudentView && (
               <details className="border border-gray-200 dark:border-gray-700 rounded-lg p-2">
                 <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
                   <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -1011,17 +1939,69 @@ export default function Home() {
               </details>
             )}
 
+            {/* Revision Report */}
+            {(previousSubmission || revisionReport) && !isStudentView && (
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <h3 className="font-semibold mb-2 text-base">Revision Report</h3>
+                {isLoadingRevision && <p className="text-sm italic text-gray-500 dark:text-gray-400">Comparing with the previous draft...</p>}
+                {revisionError && (
+                  <p className="text-sm text-red-700 dark:text-red-400">
+                    Failed to compare with the previous draft: {revisionError}{' '}
+                    <button type="button" onClick={runRevisionCheck} className="underline">Retry</button>
+                  </p>
+                )}
+                {revisionReport && <RevisionReport report={revisionReport} />}
+              </div>
+            )}
+
+            {/* References */}
+            {(isLoadingReferences || referenceReport || referenceError) && !isStudentView && (
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <h3 className="font-semibold mb-2 text-base">References</h3>
+                {isLoadingReferences && <p className="text-sm italic text-gray-500 dark:text-gray-400">Checking the reference list against OpenAlex...</p>}
+                {referenceError && (
+                  <p className="text-sm text-red-700 dark:text-red-400">
+                    Failed to check the references: {referenceError}{' '}
+                    <button type="button" onClick={runReferenceCheck} className="underline">Retry</button>
+                  </p>
+                )}
+                {referenceReport && <ReferencesPanel report={referenceReport} />}
+              </div>
+            )}
+
+            {displayedFeedback && (<>
             {/* Overall Feedback */}
             <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-              <h3 className="font-semibold mb-2 text-base">Overall Feedback</h3>
-              <p className="text-sm whitespace-pre-wrap">{feedback.overall_feedback}</p>
+              <h3 className="font-semibold mb-2 text-base">
+                Overall Feedback
+                {!isStudentView && !activeReviewer && review?.overall_feedback !== undefined && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">(edited)</span>}
+              </h3>
+              {displayedFeedback.overall_feedback ? (
+                <p className="text-sm whitespace-pre-wrap">{displayedFeedback.overall_feedback}</p>
+              ) : (
+                <p className="text-sm italic text-gray-500 dark:text-gray-400">The overall assessment will appear once the whole document has been reviewed.</p>
+              )}
+              {canReview && (
+                <EditTextControl
+                  value={displayedFeedback.overall_feedback}
+                  rows={6}
+                  onSave={(text) => updateReview(current => editReview(current, { overall_feedback: text }))}
+                />
+              )}
             </div>
 
              {/* Examination Areas */}
              <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
                <h3 className="font-semibold mb-3 text-base">Examination Areas</h3>
+               {rubricResult && (
+                 <div className="mb-3 p-3 rounded-lg border border-indigo-200 dark:border-indigo-800 bg-indigo-50/60 dark:bg-indigo-900/20 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+                   <span>Weighted total: <strong>{rubricResult.totalPercent}%</strong></span>
+                   {rubricResult.grade && <span>Grade: <strong>{rubricResult.grade}</strong></span>}
+                   <span className="text-xs text-gray-500 dark:text-gray-400">{appliedRubric?.name}</span>
+                 </div>
+               )}
                <div className="space-y-2">
-                 {feedback.examination.map((item, index) => (
+                 {displayedFeedback.examination.map((item, index) => (
                    <details key={index} className="border border-gray-200 dark:border-gray-600 rounded group" open={index < 1}>
                      <summary className={`p-3 cursor-pointer list-none flex justify-between items-center rounded-t ${getAssessmentColor(item.assesment_category)} hover:brightness-95 dark:hover:brightness-110 transition-all`}>
                        <h4 className="font-semibold text-sm">
@@ -1029,6 +2009,19 @@ export default function Home() {
                             <span className={`ml-2 inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${getAssessmentColor(item.assesment_category)}`}>
                                 {item.assesment_category}
                             </span>
+                            {(() => {
+                              const scored = rubricResult?.criteria.find(c => c.criterionId === item.criterion_id);
+                              return scored && scored.points !== undefined ? (
+                                <span className="ml-2 text-xs font-normal">
+                                  {scored.level} · {scored.points}/{scored.maxPoints} pts · weight {scored.weight}
+                                </span>
+                              ) : null;
+                            })()}
+                            {item.consensus && item.consensus.disagreement !== 'none' && (
+                              <span className={`ml-2 inline-block px-2 py-0.5 text-xs font-medium rounded-full border ${item.consensus.disagreement === 'high' ? 'bg-red-50 border-red-300 text-red-700 dark:bg-red-900/40 dark:border-red-700 dark:text-red-300' : 'bg-amber-50 border-amber-300 text-amber-700 dark:bg-amber-900/40 dark:border-amber-700 dark:text-amber-300'}`}>
+                                {item.consensus.disagreement === 'high' ? 'Reviewers disagree' : 'Some disagreement'}
+                              </span>
+                            )}
                         </h4>
                          <span className="text-xs group-open:rotate-90 transform transition-transform duration-200">▶</span>
                      </summary>
@@ -1037,6 +2030,62 @@ export default function Home() {
                          {item["suggestion for improvement"] && (
                            <p className="text-xs"><strong>Suggestion:</strong> {item["suggestion for improvement"]}</p>
                          )}
+                         {canReview && (() => {
+                           const criterion = appliedRubric?.criteria.find(c => c.id === item.criterion_id);
+                           return (
+                             <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-3 text-xs">
+                               <label className="flex items-center gap-1">
+                                 Category
+                                 <select
+                                   value={item.assesment_category}
+                                   onChange={(e) => updateReview(current => editExamination(current, item, { assesment_category: e.target.value as AssessmentCategory }))}
+                                   className="p-1 text-xs text-gray-900 bg-white rounded border border-gray-300 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+                                 >
+                                   {ASSESSMENT_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                                 </select>
+                               </label>
+                               {criterion && (
+                                 <label className="flex items-center gap-1">
+                                   Level
+                                   <select
+                                     value={item.score ?? ''}
+                                     onChange={(e) => {
+                                       const level = criterion.levels.find(l => l.points === Number(e.target.value));
+                                       if (level) updateReview(current => editExamination(current, item, { level: level.label, score: level.points }));
+                                     }}
+                                     className="p-1 text-xs text-gray-900 bg-white rounded border border-gray-300 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+                                   >
+                                     {criterion.levels.map(level => <option key={level.label} value={level.points}>{level.label} ({level.points} pts)</option>)}
+                                   </select>
+                                 </label>
+                               )}
+                               <EditTextControl
+                                 label="Edit comment"
+                                 value={item.assessment_comment}
+                                 onSave={(text) => updateReview(current => editExamination(current, item, { assessment_comment: text }))}
+                               />
+                             </div>
+                           );
+                         })()}
+                         {item.consensus && (
+                           <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 text-xs">
+                             <p className="mb-1"><strong>Panel ratings</strong> ({Math.round(item.consensus.agreement * 100)}% agree with the consensus):</p>
+                             <ul className="flex flex-wrap gap-2">
+                               {item.consensus.ratings.map(rating => (
+                                 <li key={rating.reviewer} className={`px-2 py-0.5 rounded-full border ${getAssessmentColor(rating.category)}`}>
+                                   {rating.reviewer}: {rating.category}{rating.score !== undefined ? ` (${rating.score} pts)` : ''}
+                                 </li>
+                               ))}
+                             </ul>
+                           </div>
+                         )}
+                         {canRegenerate && (
+                           <RegenerateControl
+                             pending={regenerating === `examination-${index}`}
+                             disabled={regenerating !== null}
+                             onRegenerate={(instruction) => handleRegenerate(`examination-${index}`, { type: 'examination', index }, instruction)}
+                           />
+                         )}
                      </div>
                    </details>
                  ))}
@@ -1046,48 +2095,202 @@ export default function Home() {
             {/* Annotated Proposal - Sidebar Layouts */}
             <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
               <h3 className="font-semibold mb-3 text-base">Annotated Document & Feedback</h3>
-              <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">Click on highlighted text or comments below to jump between them.</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                Click on highlighted text or comments below to jump between them.{canReview && ' Select text in the document to add your own comment.'}
+              </p>
+              {selectedQuote && canReview && (
+                <form onSubmit={handleAddAnnotation} className="mb-3 p-3 rounded-lg border border-green-300 dark:border-green-700 bg-green-50/60 dark:bg-green-900/20 space-y-2 text-xs">
+                  <p className="text-gray-700 dark:text-gray-300">
+                    Your comment on <em className="break-words">&quot;{selectedQuote.quote.length > 200 ? `${selectedQuote.quote.substring(0, 200)}...` : selectedQuote.quote}&quot;</em>
+                  </p>
+                  <textarea
+                    rows={3}
+                    value={newAnnotation}
+                    onChange={(e) => setNewAnnotation(e.target.value)}
+                    autoFocus
+                    className="block w-full p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+                  />
+                  <div className="flex gap-1">
+                    <button type="submit" disabled={!newAnnotation.trim()} className="px-2 py-1 text-white bg-green-700 rounded hover:bg-green-800 disabled:opacity-50 disabled:cursor-not-allowed">Add comment</button>
+                    <button type="button" onClick={() => setSelectedQuote(null)} className="px-2 py-1 text-gray-600 dark:text-gray-300 hover:underline">Cancel</button>
+                  </div>
+                </form>
+              )}
+              {citationStyleReport && !isStudentView && (
+                <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={showCitationStyle} onChange={(e) => setShowCitationStyle(e.target.checked)} />
+                    Show citation style issues
+                  </label>
+                  <select
+                    value={citationStyle}
+                    onChange={(e) => setCitationStyle(e.target.value as CitationStyle | 'auto')}
+                    className="p-1 text-xs text-gray-900 bg-white rounded border border-gray-300 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+                  >
+                    <option value="auto">Detect style{citationStyle === 'auto' && citationStyleReport.style ? ` (${CITATION_STYLE_LABELS[citationStyleReport.style]})` : ''}</option>
+                    {CITATION_STYLES.map(style => <option key={style} value={style}>{CITATION_STYLE_LABELS[style]}</option>)}
+                  </select>
+                  <span>
+                    {citationStyleReport.style
+                      ? `${citationStyleReport.findings.length} citation${citationStyleReport.findings.length === 1 ? '' : 's'} or reference${citationStyleReport.findings.length === 1 ? '' : 's'} deviate from ${CITATION_STYLE_LABELS[citationStyleReport.style]}`
+                      : 'Too few citations to detect a style'}
+                  </span>
+                </div>
+              )}
+              {canRegenerate && documentHeadings.length > 0 && (
+                <div className="mb-3 flex flex-wrap items-start gap-2 text-xs">
+                  <select
+                    value={regenerationSection}
+                    onChange={(e) => setRegenerationSection(e.target.value)}
+                    className="p-1.5 text-xs text-gray-900 bg-white rounded border border-gray-300 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-600 dark:border-gray-500 dark:text-white"
+                  >
+                    <option value="">Annotate a section in more detail...</option>
+                    {documentHeadings.map((heading, index) => (
+                      <option key={index} value={heading.title}>{'\u00a0'.repeat((heading.level - 1) * 2)}{heading.title}</option>
+                    ))}
+                  </select>
+                  {regenerationSection && (
+                    <RegenerateControl
+                      label="More annotations"
+                      pending={regenerating === 'section'}
+                      disabled={regenerating !== null}
+                      onRegenerate={(instruction) => handleRegenerate('section', { type: 'section', heading: regenerationSection }, instruction)}
+                    />
+                  )}
+                </div>
+              )}
               <div className="flex flex-col md:flex-row gap-6">
+                {/* Document Outline */}
+                <div className="w-full md:w-1/4 lg:w-1/5 flex-shrink-0 max-h-[70vh] overflow-y-auto">
+                  <h4 className="text-sm font-semibold sticky top-0 bg-gray-100 dark:bg-gray-700 p-2 rounded -mx-2 mb-2 z-10">Outline</h4>
+                  <DocumentOutline
+                    sections={sectionTree}
+                    checks={sectionChecks}
+                    annotationCounts={sectionAnnotationCounts}
+                    onSelect={scrollToSection}
+                  />
+                </div>
                 {/* Proposal Text */}
-                <div ref={proposalTextRef} className="w-full md:w-2/3 lg:w-3/4 flex-shrink-0 border border-gray-200 dark:border-gray-700 rounded p-3 max-h-[70vh] overflow-y-auto">
+                <div ref={proposalTextRef} onMouseUp={handleTextSelection} className="w-full md:w-1/2 lg:w-3/5 flex-shrink-0 border border-gray-200 dark:border-gray-700 rounded p-3 max-h-[70vh] overflow-y-auto">
                    {annotatedProposalHtml}
                 </div>
                 {/* Annotations Sidebar */}
-                <div ref={annotationsSidebarRef} className="w-full md:w-1/3 lg:w-1/4 flex-shrink-0 space-y-3 max-h-[70vh] overflow-y-auto">
+                <div ref={annotationsSidebarRef} className="w-full md:w-1/4 lg:w-1/5 flex-shrink-0 space-y-3 max-h-[70vh] overflow-y-auto">
                   <h4 className="text-sm font-semibold sticky top-0 bg-gray-100 dark:bg-gray-700 p-2 rounded -mx-2 z-10">Comments</h4>
                   {annotationData.length === 0 && <p className="text-xs text-gray-500 italic px-2">No annotations found or generated.</p>}
-                  {annotationData.map((anno) => (
-                    <div
-                      key={anno.id}
-                      id={`comment-${anno.id}`}
-                      onClick={() => handleAnnotationInteraction(anno.id)}
-                      onMouseEnter={() => !anno.id.startsWith('unmatched-') && setActiveAnnotationId(anno.id)}
-                      onMouseLeave={() => setActiveAnnotationId(null)}
-                      className={`p-2 border rounded text-xs cursor-pointer transition-all duration-200 ${activeAnnotationId === anno.id ? 'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/40' : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600/50'} ${anno.id.startsWith('unmatched-') ? 'border-dashed border-orange-400 dark:border-orange-600' : ''}`}
-                    >
-                        {anno.id.startsWith('unmatched-') && (
-                            <p className="mb-1 font-medium text-orange-600 dark:text-orange-400">Unmatched Quote:</p>
-                        )}
-                        {anno.id.startsWith('unmatched-') && (
-                          <p className="mb-1 break-words italic text-gray-500 dark:text-gray-400">"{anno.quote}"</p>
-                        )}
-                      <p className="font-semibold">Feedback:</p>
-                      <p className="mb-1">{anno.feedback}</p>
-                      {anno.guideline && (
-                        <p className="text-gray-500 dark:text-gray-400 mt-1 pt-1 border-t border-gray-200 dark:border-gray-600">
-                            <em>Guideline: {anno.guideline}</em>
+                  {annotationData.map((anno, annoIndex) => {
+                    // The AI passage behind the annotation, and the instructor's decision on it
+                    const aiPassage = !anno.source && !activeReviewer && !isStudentView ? feedback.passages.find(p => p.referenced_student_text_quote === anno.quote) : undefined;
+                    const decision = aiPassage && review ? review.passages[passageKey(aiPassage)]?.decision : undefined;
+                    return (
+                    <div key={anno.id}>
+                      {/* Annotations are in document order, so each section's annotations follow its header */}
+                      {(annoIndex === 0 || annotationData[annoIndex - 1].section !== anno.section || annotationData[annoIndex - 1].id.startsWith('unmatched-') !== anno.id.startsWith('unmatched-')) && (
+                        <p className="mb-2 px-1 text-xs font-semibold text-gray-600 dark:text-gray-300 truncate" title={anno.section?.title}>
+                          {anno.id.startsWith('unmatched-') ? 'Not located in the text' : anno.section ? anno.section.title : 'Before the first heading'}
                         </p>
                       )}
+                      <div
+                        id={`comment-${anno.id}`}
+                        onClick={() => handleAnnotationInteraction(anno.id)}
+                        onMouseEnter={() => !anno.id.startsWith('unmatched-') && setActiveAnnotationId(anno.id)}
+                        onMouseLeave={() => setActiveAnnotationId(null)}
+                        className={`p-2 border rounded text-xs cursor-pointer transition-all duration-200 ${activeAnnotationId === anno.id ? 'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/40' : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600/50'} ${anno.id.startsWith('unmatched-') ? 'border-dashed border-orange-400 dark:border-orange-600' : ''} ${decision === 'rejected' ? 'opacity-60' : ''}`}
+                      >
+                          {anno.id.startsWith('unmatched-') && (
+                              <p className="mb-1 font-medium text-orange-600 dark:text-orange-400">Unmatched Quote:</p>
+                          )}
+                          {anno.id.startsWith('unmatched-') && (
+                            <p className="mb-1 break-words italic text-gray-500 dark:text-gray-400">"{anno.quote}"</p>
+                          )}
+                          {anno.confidence !== undefined && anno.confidence < 1 && (
+                            <p className="mb-1 text-gray-500 dark:text-gray-400" title={`Quoted as: "${anno.quote}"`}>
+                              Approximate match ({Math.round(anno.confidence * 100)}%)
+                            </p>
+                          )}
+                        <p className="font-semibold">
+                          {anno.source === 'citation_style' ? 'Citation style:' : anno.source === 'instructor' && !isStudentView ? 'Your comment:' : 'Feedback:'}
+                          {decision && <span className={`ml-1 font-normal ${decision === 'rejected' ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>({decision})</span>}
+                        </p>
+                        {anno.reviewers && anno.reviewers.length > 1 && (
+                          <p className="mb-1 text-blue-700 dark:text-blue-300">Raised by {anno.reviewers.join(', ')}</p>
+                        )}
+                        <p className={`mb-1 whitespace-pre-wrap ${decision === 'rejected' ? 'line-through' : ''}`}>{anno.feedback}</p>
+                        {anno.guideline && (
+                          <p className="text-gray-500 dark:text-gray-400 mt-1 pt-1 border-t border-gray-200 dark:border-gray-600">
+                              <em>Guideline: {anno.guideline}</em>
+                          </p>
+                        )}
+                        {canReview && aiPassage && (
+                          <div className="mt-1 flex flex-wrap items-start gap-2" onClick={(e) => e.stopPropagation()}>
+                            {decision ? (
+                              <button type="button" onClick={() => updateReview(current => resetPassage(current, aiPassage))} className="text-blue-600 dark:text-blue-400 hover:underline">Undo {decision === 'rewritten' ? 'rewrite' : decision === 'rejected' ? 'reject' : 'accept'}</button>
+                            ) : (
+                              <>
+                                <button type="button" onClick={() => updateReview(current => decidePassage(current, aiPassage, 'accepted'))} className="text-green-700 dark:text-green-400 hover:underline">Accept</button>
+                                <button type="button" onClick={() => updateReview(current => decidePassage(current, aiPassage, 'rejected'))} className="text-red-600 dark:text-red-400 hover:underline">Reject</button>
+                              </>
+                            )}
+                            {decision !== 'rejected' && (
+                              <EditTextControl label="Rewrite" value={anno.feedback} onSave={(text) => updateReview(current => decidePassage(current, aiPassage, 'rewritten', text))} />
+                            )}
+                          </div>
+                        )}
+                        {canReview && anno.source === 'instructor' && (() => {
+                          const added = { referenced_student_text_quote: anno.quote, feedback: anno.feedback };
+                          return (
+                            <div className="mt-1 flex flex-wrap items-start gap-2" onClick={(e) => e.stopPropagation()}>
+                              <EditTextControl value={anno.feedback} onSave={(text) => updateReview(current => editAnnotation(current, added, text))} />
+                              <button type="button" onClick={() => updateReview(current => editAnnotation(current, added, null))} className="mt-1 text-red-600 dark:text-red-400 hover:underline">Remove</button>
+                            </div>
+                          );
+                        })()}
+                        {canRegenerate && !anno.source && (() => {
+                          const passageIndex = feedback.passages.findIndex(p => p.referenced_student_text_quote === anno.quote);
+                          return passageIndex !== -1 && (
+                            <RegenerateControl
+                              pending={regenerating === `passage-${passageIndex}`}
+                              disabled={regenerating !== null}
+                              onRegenerate={(instruction) => handleRegenerate(`passage-${passageIndex}`, { type: 'passage', index: passageIndex }, instruction)}
+                            />
+                          );
+                        })()}
+                        {anno.source !== 'citation_style' && (() => {
+                          const key = threadKey(anno.quote);
+                          const messageCount = threads[key]?.messages.length ?? 0;
+                          return (
+                            <>
+                              <button
+                                type="button"
+                                onClick={(e) => { e.stopPropagation(); setOpenThread(openThread === key ? null : key); }}
+                                className="mt-1 text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                {openThread === key ? 'Hide discussion' : messageCount > 0 ? `Discussion (${messageCount})` : 'Ask a follow-up'}
+                              </button>
+                              {openThread === key && (
+                                <AnnotationThread
+                                  thread={threads[key]}
+                                  pending={pendingThreads.includes(key)}
+                                  error={threadErrors[key]}
+                                  onSend={(message) => handleThreadMessage(anno.quote, anno.feedback, message)}
+                                />
+                              )}
+                            </>
+                          );
+                        })()}
+                      </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </div>
+            </>)}
 
             <div className="flex justify-center mt-6">
                  <button
                     type="button"
-                    onClick={() => { setStep(1); setError(null); setFile(null); setMarkdownProposal(''); setAssessmentGuidelines(''); setFeedback(null); setTokenUsage(null); setAiReasoning(null); }}
+                    onClick={() => { setStep(1); setError(null); setFile(null); setMarkdownProposal(''); setAssessmentGuidelines(''); setFeedback(null); setTokenUsage(null); setAiReasoning(null); setPanelSize(0); setPanelReviews([]); setActiveReviewer(null); setPreviousSubmission(null); setRevisionReport(null); setRevisionError(null); setThreads({}); setOpenThread(null); setRegenerationError(null); setRegenerationSection(''); setReferenceReport(null); setReferenceError(null); setCitationStyle('auto'); setCacheHits({}); setBatchFiles([]); setBatchSubmissions([]); setOverlapReport(null); setOverlapError(null); setReview(null); setOpenedBatchId(null); setViewMode('instructor'); setSelectedQuote(null); }}
                     className="text-white bg-green-700 hover:bg-green-800 focus:ring-4 focus:ring-green-300 font-medium rounded-lg text-sm px-5 py-2.5 text-center dark:bg-green-600 dark:hover:bg-green-700 dark:focus:ring-green-800"
                 >
                     Start New Feedback
@@ -1095,12 +2298,14 @@ export default function Home() {
             </div>
 
              {/* Raw Feedback Data (for debugging/verification) */}
+             {!isStudentView && (
              <details className="mt-6">
                   <summary className="cursor-pointer text-sm text-gray-600 dark:text-gray-400 hover:underline">Show Raw Feedback JSON</summary>
                   <pre className="mt-2 p-3 bg-gray-100 dark:bg-gray-700 rounded text-xs overflow-auto max-h-96 whitespace-pre-wrap break-words font-[family-name:var(--font-geist-mono)]">
-                    {JSON.stringify({ feedback, tokenUsage, reasoning: aiReasoning }, null, 2)}
+                    {JSON.stringify({ markdownProposal, documentType, feedback, tokenUsage, reasoning: aiReasoning, rubric: appliedRubric, rubricResult, promptTemplate: appliedTemplate, panel: panelReviews.length > 0 ? { reviewers: panelReviews } : undefined, revisionReport, referenceReport, citationStyle: citationStyleReport, threads: Object.values(threads), review }, null, 2)}
                   </pre>
                </details>
+             )}
           </div>
         )}
 
@@ -0,0 +1,23 @@
+/**
+ * Follow-up conversations attached to individual annotations
+ */
+import { normalizeKey } from "./feedback";
+
+export interface ThreadMessage {
+  role: "student" | "reviewer";
+  text: string;
+  createdAt: string;
+}
+
+export interface AnnotationThread {
+  quote: string;
+  // The annotation the conversation is about
+  feedback: string;
+  messages: ThreadMessage[];
+}
+
+// Threads are keyed by quote so they survive re-rendering and switching panel views
+export const threadKey = (quote: string): string => normalizeKey(quote);
+
+// Only the most recent messages are sent back to the model
+export const MAX_THREAD_HISTORY = 20;
@@ -0,0 +1,134 @@
+/**
+ * Batch grading: OCR and feedback for many PDFs with the same options, run from
+ * the browser against the single-document routes
+ */
+import { fetchWithApiKey } from "./api";
+import { FeedbackData } from "./feedback";
+import { computeRubricResult, Rubric, RubricResult } from "./rubric";
+import { ReviewerFeedback } from "./panel";
+import { applyReview, FeedbackReview } from "./review";
+import type { UsageMetadata } from "./llm/types";
+import type { CacheHit } from "./resultCache";
+
+export const BATCH_STATUSES = ["queued", "ocr", "feedback", "done", "error"] as const;
+export type BatchStatus = typeof BATCH_STATUSES[number];
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: "Queued",
+  ocr: "Reading PDF",
+  feedback: "Generating feedback",
+  done: "Done",
+  error: "Failed"
+};
+
+// Submissions processed at once; more would mostly queue up behind provider rate limits
+export const BATCH_CONCURRENCY = 3;
+
+// Body of a successful /api/feedback response
+export interface BatchResult {
+  feedback: FeedbackData;
+  usage: UsageMetadata;
+  reasoning: string | null;
+  chunks: number;
+  panel?: { reviewers: ReviewerFeedback[] };
+  provider: string;
+  model: string;
+  cached?: CacheHit;
+}
+
+export interface BatchSubmission {
+  id: string;
+  fileName: string;
+  status: BatchStatus;
+  markdownProposal?: string;
+  ocrCached?: CacheHit;
+  result?: BatchResult;
+  // The instructor's review, once the result has been opened
+  review?: FeedbackReview;
+  error?: string;
+}
+
+/**
+ * Creates queued submissions for the selected files
+ */
+export const createBatch = (files: File[]): BatchSubmission[] =>
+  files.map((file, index) => ({ id: `${index}-${file.name}`, fileName: file.name, status: "queued" }));
+
+/**
+ * Reads one PDF and generates its feedback, reporting each step
+ * @param file The PDF
+ * @param options Feedback request body without the document text
+ * @param force Bypass the result cache
+ * @param onUpdate Called with the changed fields as the submission progresses
+ */
+export async function gradeSubmission(
+  file: File,
+  options: Record<string, unknown>,
+  force: boolean,
+  onUpdate: (update: Partial<BatchSubmission>) => void
+): Promise<void> {
+  try {
+    onUpdate({ status: "ocr", error: undefined });
+    const formData = new FormData();
+    formData.append('file', file);
+    if (force) formData.append('force', 'true');
+    const ocrResponse = await fetch('/api/ocr', { method: 'POST', body: formData });
+    const ocr = await ocrResponse.json();
+    if (!ocrResponse.ok) throw new Error(ocr.error || `OCR failed with status ${ocrResponse.status}`);
+
+    onUpdate({ status: "feedback", markdownProposal: ocr.markdown, ocrCached: ocr.cached });
+    const response = await fetchWithApiKey('/api/feedback', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...options, markdownProposal: ocr.markdown, force })
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || `Feedback failed with status ${response.status}`);
+
+    onUpdate({ status: "done", result });
+  } catch (error: any) {
+    console.error(`Batch grading of ${file.name} failed:`, error);
+    onUpdate({ status: "error", error: error.message });
+  }
+}
+
+// The feedback with the instructor's review: the released version, or else the edits so far
+const reviewedFeedback = (result: BatchResult, review?: FeedbackReview): FeedbackData =>
+  review ? review.released ?? applyReview(result.feedback, review) : result.feedback;
+
+/**
+ * Collects the finished submissions into one export. Each submission has the same
+ * fields as a single-document export, so the files can be analysed together.
+ */
+export function exportBatch(submissions: BatchSubmission[], shared: { documentType: string; rubric: Rubric | null; promptTemplate: unknown }) {
+  return {
+    exportedAt: new Date().toISOString(),
+    ...shared,
+    submissions: submissions
+      .filter(submission => submission.status === "done" && submission.result)
+      .map(({ fileName, markdownProposal, result, review }) => ({
+        fileName,
+        markdownProposal,
+        documentType: shared.documentType,
+        feedback: result!.feedback,
+        tokenUsage: result!.usage,
+        reasoning: result!.reasoning,
+        rubric: shared.rubric,
+        rubricResult: shared.rubric ? computeRubricResult(shared.rubric, reviewedFeedback(result!, review).examination) : null,
+        promptTemplate: shared.promptTemplate,
+        panel: result!.panel,
+        review
+      })),
+    failed: submissions
+      .filter(submission => submission.status === "error")
+      .map(({ fileName, error }) => ({ fileName, error }))
+  };
+}
+
+/**
+ * Weighted rubric result of a finished submission, for the status table, with the instructor's review applied
+ */
+export const submissionRubricResult = (submission: BatchSubmission, rubric: Rubric | null): RubricResult | null =>
+  rubric && submission.result ? computeRubricResult(rubric, reviewedFeedback(submission.result, submission.review).examination) : null;
@@ -0,0 +1,105 @@
+/**
+ * Calibration against the markers' exemplars: the model grades each held-out exemplar
+ * with the same prompt as a real submission, and its categories are compared with the
+ * markers' ones
+ */
+import { addUsage, LLMProvider, UsageMetadata } from "@/app/utils/llm";
+import { ASSESSMENT_CATEGORIES, AssessmentCategory, CATEGORY_RANK } from "@/app/utils/feedback";
+import { FeedbackOptions, generateFeedback } from "@/app/utils/feedbackGeneration";
+import { mapWithConcurrency } from "@/app/utils/concurrency";
+import { getHeldOutExemplars, Rubric } from "@/app/utils/rubric";
+
+// Exemplars graded at once
+const CALIBRATION_CONCURRENCY = 3;
+
+export interface CalibrationResult {
+  exemplarId: string;
+  criterionId: string;
+  criterion: string;
+  humanCategory: AssessmentCategory;
+  humanFeedback: string;
+  // Null when the model didn't rate the criterion or the request failed
+  aiCategory: AssessmentCategory | null;
+  aiFeedback?: string;
+  error?: string;
+}
+
+export interface CalibrationReport {
+  results: CalibrationResult[];
+  // Exemplars the model rated
+  rated: number;
+  // Share of rated exemplars with the markers' category, and within one category of it
+  agreement: number | null;
+  adjacentAgreement: number | null;
+  // Cohen's kappa: agreement corrected for chance (null when it can't be computed)
+  kappa: number | null;
+  // confusion[human][ai] counts
+  confusion: Record<AssessmentCategory, Record<AssessmentCategory, number>>;
+  usage: UsageMetadata;
+}
+
+/**
+ * Agreement statistics over calibration results
+ */
+export function summarizeCalibration(results: CalibrationResult[]): Omit<CalibrationReport, 'results' | 'usage'> {
+  const confusion = Object.fromEntries(ASSESSMENT_CATEGORIES.map(human =>
+    [human, Object.fromEntries(ASSESSMENT_CATEGORIES.map(ai => [ai, 0]))]
+  )) as CalibrationReport['confusion'];
+
+  const rated = results.filter((result): result is CalibrationResult & { aiCategory: AssessmentCategory } => result.aiCategory !== null);
+  rated.forEach(result => confusion[result.humanCategory][result.aiCategory]++);
+  if (rated.length === 0) return { rated: 0, agreement: null, adjacentAgreement: null, kappa: null, confusion };
+
+  const agreement = rated.filter(result => result.aiCategory === result.humanCategory).length / rated.length;
+  const adjacentAgreement = rated.filter(result =>
+    Math.abs(CATEGORY_RANK.indexOf(result.aiCategory) - CATEGORY_RANK.indexOf(result.humanCategory)) <= 1).length / rated.length;
+
+  // Agreement expected by chance from how often each side uses each category
+  const expected = ASSESSMENT_CATEGORIES.reduce((sum, category) => {
+    const human = rated.filter(result => result.humanCategory === category).length / rated.length;
+    const ai = rated.filter(result => result.aiCategory === category).length / rated.length;
+    return sum + human * ai;
+  }, 0);
+  const kappa = expected < 1 ? (agreement - expected) / (1 - expected) : null;
+
+  return { rated: rated.length, agreement, adjacentAgreement, kappa, confusion };
+}
+
+/**
+ * Grades every held-out exemplar of the rubric as if it were a submission, with the
+ * remaining exemplars in the prompt, and compares the result with the markers' grading
+ * @param llm Provider to use
+ * @param options Feedback options (guidelines, document type, rubric...) without a document
+ */
+export async function runCalibration(llm: LLMProvider, options: Omit<FeedbackOptions, 'markdownProposal'> & { rubric: Rubric }): Promise<CalibrationReport> {
+  const { rubric } = options;
+  const exemplars = getHeldOutExemplars(rubric);
+  console.log(`Calibrating against ${exemplars.length} held-out exemplar(s) with ${llm.name} (${llm.model})...`);
+
+  const graded = await mapWithConcurrency(exemplars, CALIBRATION_CONCURRENCY, async exemplar => {
+    const criterion = rubric.criteria.find(c => c.id === exemplar.criterionId)!;
+    const result: CalibrationResult = {
+      exemplarId: exemplar.id,
+      criterionId: criterion.id,
+      criterion: criterion.name,
+      humanCategory: exemplar.category,
+      humanFeedback: exemplar.feedback,
+      aiCategory: null
+    };
+    try {
+      const { feedback, usage } = await generateFeedback(llm, { ...options, markdownProposal: exemplar.excerpt });
+      const item = feedback.examination.find(e => e.criterion_id === criterion.id);
+      return {
+        result: { ...result, aiCategory: item?.assesment_category ?? null, aiFeedback: item?.assessment_comment },
+        usage
+      };
+    } catch (calibrationError: any) {
+      // One failed exemplar shouldn't hide the results of the others
+      console.error(`Error grading exemplar ${exemplar.id}:`, calibrationError);
+      return { result: { ...result, error: calibrationError.message || 'Grading failed' }, usage: {} };
+    }
+  });
+
+  const results = graded.map(g => g.result);
+  return { results, ...summarizeCalibration(results), usage: addUsage(...graded.map(g => g.usage)) };
+}
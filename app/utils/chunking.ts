@@ -0,0 +1,87 @@
+/**
+ * Splitting long documents into chunks for separate feedback calls
+ */
+
+// Documents longer than this are reviewed in several calls (~8k tokens per chunk)
+export const CHUNK_CHAR_LIMIT = 30000;
+
+// Split points, tried in order: markdown headings, OCR page separators, paragraphs
+const SPLIT_PATTERNS = [
+  /^#{1,6}\s/gm,
+  /^---\s*$/gm,
+  /\n\s*\n/g
+];
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  // Offset of the chunk within the full document
+  start: number;
+  // First heading in the chunk, used to tell the model which part it is reviewing
+  heading?: string;
+}
+
+// Split text in front of every match, so delimiters stay with the piece they introduce
+function splitBefore(text: string, pattern: RegExp): string[] {
+  const pieces: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      pieces.push(text.substring(last, index));
+      last = index;
+    }
+  }
+  pieces.push(text.substring(last));
+  return pieces.filter(piece => piece.length > 0);
+}
+
+// Break text into pieces no longer than the limit, using the coarsest split that works
+function splitRecursive(text: string, limit: number, level: number): string[] {
+  if (text.length <= limit) return [text];
+
+  if (level >= SPLIT_PATTERNS.length) {
+    // No natural boundary left: hard cut
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += limit) {
+      pieces.push(text.substring(i, i + limit));
+    }
+    return pieces;
+  }
+
+  const pieces = splitBefore(text, SPLIT_PATTERNS[level]);
+  if (pieces.length === 1) return splitRecursive(text, limit, level + 1);
+
+  return pieces.flatMap(piece => splitRecursive(piece, limit, level + 1));
+}
+
+/**
+ * Splits a document on its headings or OCR page separators into chunks of at most
+ * `limit` characters. Concatenating the chunk texts gives back the original document.
+ * @param markdown Full document text
+ * @param limit Maximum characters per chunk
+ * @returns Chunks in document order
+ */
+export function splitIntoChunks(markdown: string, limit: number = CHUNK_CHAR_LIMIT): DocumentChunk[] {
+  const pieces = splitRecursive(markdown, limit, 0);
+
+  // Greedily pack consecutive pieces so chunks stay as large as allowed
+  const texts: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > limit) {
+      texts.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current) texts.push(current);
+
+  let offset = 0;
+  return texts.map((text, index) => {
+    const heading = text.match(/^#{1,6}\s+(.+)$/m)?.[1]?.trim();
+    const chunk = { index, text, start: offset, heading };
+    offset += text.length;
+    return chunk;
+  });
+}
@@ -0,0 +1,290 @@
+/**
+ * Citation style checking: detects whether a document follows APA 7 or Harvard
+ * (Cite Them Right) and lists the citations and reference entries that deviate.
+ * Runs locally on the markdown without calling the AI.
+ */
+import { FeedbackPassage } from "./feedback";
+import { findReferenceSection, parseReferenceList } from "./references";
+import { anchorQuote } from "./quoteAnchoring";
+
+export const CITATION_STYLES = ["apa7", "harvard"] as const;
+export type CitationStyle = typeof CITATION_STYLES[number];
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  apa7: "APA 7",
+  harvard: "Harvard"
+};
+
+export interface CitationStyleFinding {
+  kind: "citation" | "reference";
+  // The citation or reference entry as written
+  text: string;
+  // Offsets of the text in the document
+  start: number;
+  end: number;
+  // What deviates from the dominant style
+  problems: string[];
+  // The text corrected to the dominant style
+  suggestion: string;
+}
+
+export interface CitationStyleReport {
+  // Dominant style; null when the document has too few citations to tell
+  style: CitationStyle | null;
+  // Citations and entries showing features of each style
+  evidence: Record<CitationStyle, number>;
+  findings: CitationStyleFinding[];
+}
+
+// One fix: when the pattern matches text of the given kind in a document of the given
+// style, it's a problem and the replacement gives the corrected form
+interface StyleRule {
+  kind: CitationStyleFinding["kind"];
+  style: CitationStyle;
+  // Limits a citation rule to narrative ("Smith (2019)") or parenthetical citations
+  narrative?: boolean;
+  pattern: RegExp;
+  replacement: string;
+  problem: string;
+}
+
+const NAME = "\\p{Lu}[\\p{L}'’-]+";
+const YEAR = "(?:19|20)\\d{2}[a-z]?";
+
+const PARENTHETICAL = new RegExp(`\\(([^()]*?${YEAR}[^()]*)\\)`, 'gu');
+const NARRATIVE = new RegExp(`${NAME}(?:\\s+et al\\.?|\\s+(?:and|&)\\s+${NAME})?\\s+\\(${YEAR}(?:[,:][^)]*)?\\)`, 'gu');
+const CITATION_PART = new RegExp(`^(?:(?:see|e\\.g\\.|cf\\.|also)[,\\s]+)*${NAME}.*?${YEAR}`, 'u');
+
+// Features that tell the styles apart
+const STYLE_SIGNALS: { kind: CitationStyleFinding["kind"]; style: CitationStyle; pattern: RegExp }[] = [
+  { kind: "citation", style: "apa7", pattern: new RegExp(`${NAME},? & ${NAME}`, 'u') },
+  { kind: "citation", style: "harvard", pattern: new RegExp(`${NAME} and ${NAME},? ${YEAR}`, 'u') },
+  { kind: "reference", style: "apa7", pattern: new RegExp(`\\(${YEAR}\\)\\.`) },
+  { kind: "reference", style: "apa7", pattern: /,\s*&\s+\p{Lu}/u },
+  { kind: "reference", style: "harvard", pattern: new RegExp(`\\(${YEAR}\\)\\s+[^.\\s]`) },
+  { kind: "reference", style: "harvard", pattern: /\bAvailable at:|\(Accessed:?\s/ },
+  { kind: "reference", style: "harvard", pattern: /\p{Ll}\.? and \p{Lu}[\p{L}'’-]+, \p{Lu}\./u },
+];
+
+const RULES: StyleRule[] = [
+  // In-text citations
+  {
+    kind: "citation", style: "apa7", narrative: false,
+    pattern: new RegExp(`^((?:(?:see|e\\.g\\.|cf\\.|also)[,\\s]+)*${NAME}) and (${NAME})`, 'u'),
+    replacement: '$1 & $2',
+    problem: 'Parenthetical citations join two authors with "&"'
+  },
+  {
+    kind: "citation", style: "apa7", narrative: true,
+    pattern: new RegExp(`(${NAME}) & (${NAME})`, 'u'),
+    replacement: '$1 and $2',
+    problem: 'Narrative citations join two authors with "and"'
+  },
+  {
+    kind: "citation", style: "harvard",
+    pattern: new RegExp(`(${NAME}),? & (${NAME})`, 'u'),
+    replacement: '$1 and $2',
+    problem: 'Authors are joined with "and", not "&"'
+  },
+  {
+    kind: "citation", style: "apa7", narrative: false,
+    pattern: new RegExp(`^((?:(?:see|e\\.g\\.|cf\\.|also)[,\\s]+)*${NAME})(?:, ${NAME})+,? (?:&|and) ${NAME}(?=,? ${YEAR})`, 'u'),
+    replacement: '$1 et al.',
+    problem: 'Three or more authors are cited as the first author followed by "et al."'
+  },
+  {
+    kind: "citation", style: "harvard", narrative: false,
+    pattern: new RegExp(`^((?:(?:see|e\\.g\\.|cf\\.|also)[,\\s]+)*${NAME})(?:, ${NAME}){2,},? (?:&|and) ${NAME}(?=,? ${YEAR})`, 'u'),
+    replacement: '$1 et al.',
+    problem: 'Four or more authors are cited as the first author followed by "et al."'
+  },
+  {
+    kind: "citation", style: "apa7",
+    pattern: new RegExp(`(${NAME}|et al\\.) (${YEAR})`, 'u'),
+    replacement: '$1, $2',
+    problem: 'A comma separates the author and the year'
+  },
+  {
+    kind: "citation", style: "harvard",
+    pattern: new RegExp(`(${NAME}|et al\\.) (${YEAR})`, 'u'),
+    replacement: '$1, $2',
+    problem: 'A comma separates the author and the year'
+  },
+  {
+    kind: "citation", style: "apa7",
+    pattern: /\bet al(?!\.)/,
+    replacement: 'et al.',
+    problem: '"et al." ends with a full stop'
+  },
+  {
+    kind: "citation", style: "harvard",
+    pattern: /\bet al(?!\.)/,
+    replacement: 'et al.',
+    problem: '"et al." ends with a full stop'
+  },
+  {
+    kind: "citation", style: "apa7",
+    pattern: /,\s*pg?\.?\s*(\d)/,
+    replacement: ', p. $1',
+    problem: 'Page numbers are written "p. 12"'
+  },
+  // Reference entries
+  {
+    kind: "reference", style: "apa7",
+    pattern: new RegExp(`\\((${YEAR}|n\\.d\\.)\\)(?!\\.)`),
+    replacement: '($1).',
+    problem: 'The year in parentheses is followed by a full stop'
+  },
+  {
+    kind: "reference", style: "harvard",
+    pattern: new RegExp(`\\((${YEAR}|n\\.d\\.)\\)\\.`),
+    replacement: '($1)',
+    problem: 'The year in parentheses is not followed by a full stop'
+  },
+  {
+    kind: "reference", style: "apa7",
+    pattern: /(\p{Lu}\.),? and (\p{Lu}[\p{L}'’-]+, \p{Lu}\.)/u,
+    replacement: '$1, & $2',
+    problem: 'The last author is preceded by ", &"'
+  },
+  {
+    kind: "reference", style: "harvard",
+    pattern: /(\p{Lu}\.),? & (\p{Lu}[\p{L}'’-]+, \p{Lu}\.)/u,
+    replacement: '$1 and $2',
+    problem: 'The last author is preceded by "and"'
+  },
+  {
+    kind: "reference", style: "apa7",
+    pattern: /\b(?:doi|DOI):\s*(10\.\S+)/,
+    replacement: 'https://doi.org/$1',
+    problem: 'DOIs are given as https://doi.org/ links'
+  },
+  {
+    kind: "reference", style: "apa7",
+    pattern: /\s*\(Accessed:?[^)]*\)/,
+    replacement: '',
+    problem: 'Access dates are left out'
+  },
+  {
+    kind: "reference", style: "apa7",
+    pattern: /Available at:\s*/,
+    replacement: '',
+    problem: '"Available at:" is left out before URLs'
+  },
+  {
+    kind: "reference", style: "apa7",
+    pattern: /(\d+(?:\(\d+\))?),\s*pp?\.\s*(\d)/,
+    replacement: '$1, $2',
+    problem: 'Journal page ranges have no "pp."'
+  },
+  {
+    kind: "reference", style: "harvard",
+    pattern: /(\d+\(\d+\)),\s*(\d+[–-]\d+)/,
+    replacement: '$1, pp. $2',
+    problem: 'Journal page ranges are preceded by "pp."'
+  },
+];
+
+// Citations below this count give no reliable dominant style
+const MIN_EVIDENCE = 3;
+
+interface CheckedText {
+  kind: CitationStyleFinding["kind"];
+  narrative?: boolean;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Parenthetical and narrative citations outside the reference section
+function collectCitations(markdown: string, exclude: { start: number; end: number } | null): CheckedText[] {
+  const outside = (index: number) => !exclude || index < exclude.start || index >= exclude.end;
+  const citations: CheckedText[] = [];
+  for (const match of markdown.matchAll(PARENTHETICAL)) {
+    if (!outside(match.index!)) continue;
+    // Only parentheses holding citations, not e.g. "(born 1990)"
+    if (!match[1].split(';').some(part => CITATION_PART.test(part.trim()))) continue;
+    citations.push({ kind: "citation", text: match[0], start: match.index!, end: match.index! + match[0].length });
+  }
+  for (const match of markdown.matchAll(NARRATIVE)) {
+    if (!outside(match.index!)) continue;
+    citations.push({ kind: "citation", narrative: true, text: match[0], start: match.index!, end: match.index! + match[0].length });
+  }
+  return citations;
+}
+
+// Reference entries with their location in the document
+function collectReferences(markdown: string, section: { start: number; end: number } | null): CheckedText[] {
+  if (!section) return [];
+  const sectionText = markdown.substring(section.start, section.end);
+  return parseReferenceList(markdown).entries.flatMap(entry => {
+    const anchor = anchorQuote(entry.raw, sectionText);
+    return anchor
+      ? [{ kind: "reference" as const, text: sectionText.substring(anchor.start, anchor.end), start: section.start + anchor.start, end: section.start + anchor.end }]
+      : [];
+  });
+}
+
+// Applies a rule to every citation in a parenthetical, or to a whole narrative citation or entry
+function applyRule(item: CheckedText, rule: StyleRule): string {
+  const replace = (text: string) => text.replace(rule.pattern, rule.replacement);
+  if (item.kind === "citation" && !item.narrative) {
+    return `(${item.text.slice(1, -1).split(/;\s*/).map(replace).join('; ')})`;
+  }
+  return replace(item.text);
+}
+
+/**
+ * Detects the dominant citation style and lists what deviates from it
+ * @param markdown Document text
+ * @param style Style to check against instead of the detected one
+ */
+export function checkCitationStyle(markdown: string, style?: CitationStyle): CitationStyleReport {
+  const section = findReferenceSection(markdown);
+  const items = [...collectCitations(markdown, section), ...collectReferences(markdown, section)];
+
+  const evidence: Record<CitationStyle, number> = { apa7: 0, harvard: 0 };
+  for (const item of items) {
+    for (const candidate of CITATION_STYLES) {
+      if (STYLE_SIGNALS.some(s => s.kind === item.kind && s.style === candidate && s.pattern.test(item.text))) evidence[candidate]++;
+    }
+  }
+
+  const detected = evidence.apa7 + evidence.harvard < MIN_EVIDENCE
+    ? null
+    : evidence.apa7 >= evidence.harvard ? "apa7" : "harvard";
+  const dominant = style ?? detected;
+  if (!dominant) return { style: null, evidence, findings: [] };
+
+  const findings: CitationStyleFinding[] = [];
+  for (const item of items) {
+    const problems: string[] = [];
+    let suggestion = item.text;
+    const rules = RULES.filter(r =>
+      r.kind === item.kind && r.style === dominant && (r.narrative === undefined || r.narrative === !!item.narrative));
+    for (const rule of rules) {
+      const fixed = applyRule({ ...item, text: suggestion }, rule);
+      if (fixed !== suggestion) {
+        problems.push(rule.problem);
+        suggestion = fixed;
+      }
+    }
+    if (problems.length > 0) findings.push({ ...item, problems, suggestion });
+  }
+
+  return { style: dominant, evidence, findings: findings.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Turns citation style findings into annotations shown alongside the AI's
+ */
+export function citationStyleAnnotations(report: CitationStyleReport): FeedbackPassage[] {
+  if (!report.style) return [];
+  const label = CITATION_STYLE_LABELS[report.style];
+  return report.findings.map(finding => ({
+    referenced_student_text_quote: finding.text,
+    feedback: `${label}: ${finding.problems.join('. ')}.\nSuggested: ${finding.suggestion}`,
+    anchor: { start: finding.start, end: finding.end, confidence: 1 },
+    source: "citation_style"
+  }));
+}
@@ -0,0 +1,295 @@
+/**
+ * Cohort analytics: aggregates the feedback of many submissions graded against the
+ * same rubric, for programme leads rather than individual students
+ */
+import { ASSESSMENT_CATEGORIES, AssessmentCategory, CATEGORY_RANK, examinationKey, FeedbackData } from "./feedback";
+import { computeRubricResult, Rubric } from "./rubric";
+import { exportedFeedback } from "./review";
+
+// One graded submission in the cohort (kept without the document text)
+export interface CohortEntry {
+  id: string;
+  name: string;
+  feedback: FeedbackData;
+  rubric: Rubric | null;
+  addedAt: string;
+}
+
+export interface AreaDistribution {
+  key: string;
+  name: string;
+  counts: Record<AssessmentCategory, number>;
+  total: number;
+}
+
+export interface CohortWeakness {
+  key: string;
+  name: string;
+  insufficient: number;
+  // Rated below excellent
+  belowExcellent: number;
+  total: number;
+  suggestions: string[];
+}
+
+export interface SubmissionScore {
+  id: string;
+  name: string;
+  // Rubric total, or the average category on a 0-100 scale without a rubric
+  score: number;
+}
+
+export interface CohortOutlier extends SubmissionScore {
+  // Standard deviations from the cohort mean
+  zScore: number;
+}
+
+export interface CohortTheme {
+  terms: string[];
+  passages: number;
+  submissions: string[];
+  example: string;
+}
+
+export interface CohortReport {
+  submissions: number;
+  areas: AreaDistribution[];
+  weaknesses: CohortWeakness[];
+  scores: SubmissionScore[];
+  meanScore: number | null;
+  outliers: CohortOutlier[];
+  themes: CohortTheme[];
+}
+
+// Outliers need a cohort large enough for a meaningful spread
+export const MIN_OUTLIER_COHORT = 5;
+const OUTLIER_Z_SCORE = 1.5;
+
+const MAX_WEAKNESSES = 5;
+const MAX_SUGGESTIONS = 3;
+
+// Passage feedback joins a theme when its cosine similarity to the theme reaches this
+const THEME_SIMILARITY = 0.3;
+// A theme must recur across this many submissions
+const MIN_THEME_SUBMISSIONS = 2;
+const MAX_THEMES = 10;
+const THEME_TERMS = 3;
+
+// Words that say nothing about the topic of a comment
+const THEME_STOP_WORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "are", "was", "were", "not", "but", "you", "your", "its", "it's",
+  "which", "what", "when", "where", "how", "why", "who", "there", "their", "they", "them", "these", "those",
+  "from", "into", "onto", "about", "than", "then", "also", "very", "more", "most", "less", "such", "some",
+  "any", "all", "each", "other", "only", "just", "can", "could", "should", "would", "will", "may", "might",
+  "must", "has", "have", "had", "does", "did", "been", "being", "here", "while", "however", "although",
+  "because", "whether", "well", "much", "many", "make", "made", "use", "used", "using", "need", "needs",
+  "student", "students", "text", "section", "passage", "sentence", "paragraph", "proposal", "thesis",
+  "document", "consider", "clear", "clearly", "good", "better", "example", "point", "still", "one", "two"
+]);
+
+/**
+ * Reads the entries of a feedback export: a single export from Step 3 or a batch export.
+ * The released feedback is used where there is one, as for submissions added in the app.
+ * @param exported Parsed JSON file
+ * @param fileName Name of the file, used for single exports
+ * @throws Error when the file holds no feedback
+ */
+export function parseFeedbackExport(exported: any, fileName: string): CohortEntry[] {
+  const addedAt = new Date().toISOString();
+
+  if (Array.isArray(exported?.submissions)) {
+    const entries = exported.submissions
+      .filter((submission: any) => exportedFeedback(submission))
+      .map((submission: any, index: number): CohortEntry => {
+        const name = typeof submission.fileName === 'string' ? submission.fileName : `${fileName} #${index + 1}`;
+        return { id: name, name, feedback: exportedFeedback(submission)!, rubric: submission.rubric ?? exported.rubric ?? null, addedAt };
+      });
+    if (entries.length === 0) throw new Error('the batch export contains no finished submissions');
+    return entries;
+  }
+  const feedback = exportedFeedback(exported);
+  if (!feedback) throw new Error('the file does not contain exported feedback');
+  const name = fileName.replace(/\.json$/i, '');
+  return [{ id: name, name, feedback, rubric: exported.rubric ?? null, addedAt }];
+}
+
+/**
+ * Groups entries by the rubric they were scored with; only one group is analysed at a time
+ * @returns Rubric names mapped to their entries ("" for feedback without a rubric)
+ */
+export function groupByRubric(entries: CohortEntry[]): Map<string, CohortEntry[]> {
+  const groups = new Map<string, CohortEntry[]>();
+  for (const entry of entries) {
+    const key = entry.rubric?.name ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return groups;
+}
+
+function areaDistributions(entries: CohortEntry[]): AreaDistribution[] {
+  const areas = new Map<string, AreaDistribution>();
+  for (const entry of entries) {
+    for (const item of entry.feedback.examination) {
+      const key = examinationKey(item);
+      if (!areas.has(key)) {
+        const counts = Object.fromEntries(ASSESSMENT_CATEGORIES.map(category => [category, 0])) as Record<AssessmentCategory, number>;
+        areas.set(key, { key, name: item.area_of_examination, counts, total: 0 });
+      }
+      const area = areas.get(key)!;
+      if (area.counts[item.assesment_category] === undefined) continue;
+      area.counts[item.assesment_category]++;
+      area.total++;
+    }
+  }
+  return Array.from(areas.values());
+}
+
+function commonWeaknesses(entries: CohortEntry[], areas: AreaDistribution[]): CohortWeakness[] {
+  return areas
+    .map(area => {
+      const suggestions = entries
+        .flatMap(entry => entry.feedback.examination)
+        .filter(item => examinationKey(item) === area.key && item.assesment_category !== "excellent")
+        .map(item => (item["suggestion for improvement"] || '').trim())
+        .filter(Boolean);
+      return {
+        key: area.key,
+        name: area.name,
+        insufficient: area.counts.insufficient,
+        belowExcellent: area.total - area.counts.excellent,
+        total: area.total,
+        suggestions: Array.from(new Set(suggestions)).slice(0, MAX_SUGGESTIONS)
+      };
+    })
+    .filter(weakness => weakness.belowExcellent > 0)
+    // Insufficient ratings weigh double
+    .sort((a, b) => (b.insufficient + b.belowExcellent) / b.total - (a.insufficient + a.belowExcellent) / a.total)
+    .slice(0, MAX_WEAKNESSES);
+}
+
+function submissionScore(entry: CohortEntry): number | null {
+  if (entry.rubric) return computeRubricResult(entry.rubric, entry.feedback.examination).totalPercent;
+  const ranks = entry.feedback.examination
+    .map(item => CATEGORY_RANK.indexOf(item.assesment_category))
+    .filter(rank => rank >= 0);
+  if (ranks.length === 0) return null;
+  return Math.round(ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length / (CATEGORY_RANK.length - 1) * 100);
+}
+
+function scoreOutliers(scores: SubmissionScore[], mean: number): CohortOutlier[] {
+  if (scores.length < MIN_OUTLIER_COHORT) return [];
+  const deviation = Math.sqrt(scores.reduce((sum, { score }) => sum + (score - mean) ** 2, 0) / scores.length);
+  if (deviation === 0) return [];
+  return scores
+    .map(score => ({ ...score, zScore: (score.score - mean) / deviation }))
+    .filter(score => Math.abs(score.zScore) >= OUTLIER_Z_SCORE)
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+}
+
+// Strips common English inflections so "citations" falls together with "citation". Stems keep at
+// least four letters, so short words such as "cited" stay as they are.
+const stem = (word: string): string => {
+  for (const suffix of ["ations", "ation", "ings", "ing", "ies", "ed", "es", "s"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) return word.slice(0, -suffix.length);
+  }
+  return word;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}']+/u).filter(word => word.length >= 3 && !THEME_STOP_WORDS.has(word));
+
+type SparseVector = Map<string, number>;
+
+const cosine = (a: SparseVector, b: SparseVector): number => {
+  let dot = 0, normA = 0, normB = 0;
+  a.forEach((weight, term) => { dot += weight * (b.get(term) ?? 0); normA += weight * weight; });
+  b.forEach(weight => { normB += weight * weight; });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Clusters passage feedback from all submissions into recurring themes. Comments are
+ * TF-IDF vectors; each joins the most similar existing theme or starts a new one.
+ */
+function recurringThemes(entries: CohortEntry[]): CohortTheme[] {
+  const comments = entries.flatMap(entry =>
+    entry.feedback.passages.map(passage => {
+      const words = tokenize(passage.feedback);
+      return { entry: entry.name, text: passage.feedback, words, stems: words.map(stem) };
+    })
+  ).filter(comment => comment.stems.length > 0);
+
+  // Most frequent spelling of each stem, for readable labels
+  const spellings = new Map<string, Map<string, number>>();
+  const documentFrequency = new Map<string, number>();
+  for (const comment of comments) {
+    comment.stems.forEach((term, index) => {
+      const counts = spellings.get(term) ?? new Map<string, number>();
+      counts.set(comment.words[index], (counts.get(comment.words[index]) ?? 0) + 1);
+      spellings.set(term, counts);
+    });
+    new Set(comment.stems).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+
+  const clusters: { centroid: SparseVector; comments: typeof comments }[] = [];
+  for (const comment of comments) {
+    const vector: SparseVector = new Map();
+    for (const term of comment.stems) {
+      vector.set(term, (vector.get(term) ?? 0) + Math.log(comments.length / documentFrequency.get(term)!));
+    }
+    let best: typeof clusters[number] | null = null;
+    let bestSimilarity = THEME_SIMILARITY;
+    for (const cluster of clusters) {
+      const similarity = cosine(vector, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    if (!best) {
+      clusters.push({ centroid: vector, comments: [comment] });
+      continue;
+    }
+    best.comments.push(comment);
+    vector.forEach((weight, term) => best!.centroid.set(term, (best!.centroid.get(term) ?? 0) + weight));
+  }
+
+  return clusters
+    .map(cluster => {
+      const terms = Array.from(cluster.centroid.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, THEME_TERMS)
+        .map(([term]) => Array.from(spellings.get(term)!.entries()).sort((a, b) => b[1] - a[1])[0][0]);
+      return {
+        terms,
+        passages: cluster.comments.length,
+        submissions: Array.from(new Set(cluster.comments.map(comment => comment.entry))),
+        example: cluster.comments[0].text
+      };
+    })
+    .filter(theme => theme.submissions.length >= MIN_THEME_SUBMISSIONS)
+    .sort((a, b) => b.submissions.length - a.submissions.length || b.passages - a.passages)
+    .slice(0, MAX_THEMES);
+}
+
+/**
+ * Aggregates the feedback of a cohort graded against the same rubric
+ * @param entries Submissions of one rubric group (see groupByRubric)
+ */
+export function analyzeCohort(entries: CohortEntry[]): CohortReport {
+  const areas = areaDistributions(entries);
+  const scores = entries
+    .map(entry => ({ id: entry.id, name: entry.name, score: submissionScore(entry) }))
+    .filter((score): score is SubmissionScore => score.score !== null);
+  const meanScore = scores.length > 0 ? scores.reduce((sum, { score }) => sum + score, 0) / scores.length : null;
+
+  return {
+    submissions: entries.length,
+    areas,
+    weaknesses: commonWeaknesses(entries, areas),
+    scores,
+    meanScore,
+    outliers: meanScore === null ? [] : scoreOutliers(scores, meanScore),
+    themes: recurringThemes(entries)
+  };
+}
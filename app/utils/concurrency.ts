@@ -0,0 +1,18 @@
+/**
+ * Runs tasks with at most `limit` in flight, keeping results in input order
+ * @param items Inputs, one task each
+ * @param limit Maximum number of tasks running at once
+ * @param task Async work for one item; it receives the item's index as well
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,176 @@
+/**
+ * Pre-flight estimate of the tokens and cost of a feedback run, per provider.
+ * Input tokens are counted with the model's tokenizer where the backend offers it;
+ * output tokens are projected from typical runs.
+ */
+import { NextRequest } from 'next/server';
+import { getAvailableProviders, getDefaultProvider, getModelInfo, getProvider, LLMProvider, ProviderName } from "@/app/utils/llm";
+import { FeedbackOptions, getChunkRequest, getFeedbackContext, MODEL_NAME } from "@/app/utils/feedbackGeneration";
+import { MODEL_NAME as SEARCH_TERMS_MODEL } from "@/app/utils/searchTerms";
+import { splitIntoChunks } from "@/app/utils/chunking";
+import { ReviewerPersona } from "@/app/utils/panel";
+import { redactPersonalData } from "@/app/utils/redaction";
+
+// Typical output of each call, from observed runs
+const FEEDBACK_OUTPUT_TOKENS = 3000;
+const MERGE_OUTPUT_TOKENS = 2500;
+const REASONING_OUTPUT_TOKENS = 1200;
+const SEARCH_TERMS_OUTPUT_TOKENS = 60;
+
+// Output reserved per feedback call (its maxOutputTokens)
+const MAX_FEEDBACK_OUTPUT_TOKENS = 8192;
+
+// Document text each of these calls sends, and the instructions around it
+const SEARCH_TERMS_CHARS = 4000;
+const REASONING_CHARS = 5000;
+const INSTRUCTION_TOKENS = 150;
+
+// Used when the backend can't count tokens
+const approximateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface CallEstimate {
+  label: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD; null when the model's price is unknown
+  cost: number | null;
+}
+
+export interface ProviderEstimate {
+  provider: ProviderName;
+  model: string;
+  calls: CallEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;
+  contextWindow: number | null;
+  // Whether input tokens were counted by the model's tokenizer rather than approximated
+  exact: boolean;
+  warnings: string[];
+}
+
+// Counts tokens of several texts, approximating all of them if counting fails
+async function countAll(llm: LLMProvider | null, texts: string[]): Promise<{ counts: number[]; exact: boolean }> {
+  if (llm?.countTokens) {
+    try {
+      return { counts: await Promise.all(texts.map(text => llm.countTokens!(text))), exact: true };
+    } catch (error) {
+      console.error(`Token counting with ${llm.name} failed, approximating:`, error);
+    }
+  }
+  return { counts: texts.map(approximateTokens), exact: false };
+}
+
+function callEstimate(provider: ProviderName, model: string, label: string, calls: number, inputTokens: number, outputTokens: number): CallEstimate {
+  const info = getModelInfo(provider, model);
+  const cost = info && info.inputPerMillion !== null && info.outputPerMillion !== null
+    ? (inputTokens * info.inputPerMillion + outputTokens * info.outputPerMillion) / 1e6
+    : null;
+  return { label, model, calls, inputTokens, outputTokens, cost };
+}
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');
+
+async function estimateForProvider(
+  request: NextRequest,
+  provider: ProviderName,
+  options: FeedbackOptions,
+  personas: ReviewerPersona[] | null
+): Promise<ProviderEstimate> {
+  // Without an API key the provider can't be created, but an approximate estimate still helps
+  let llm: LLMProvider | null = null;
+  let searchLlm: LLMProvider | null = null;
+  try {
+    llm = getProvider(request, { provider, geminiModel: MODEL_NAME });
+    searchLlm = getProvider(request, { provider, geminiModel: SEARCH_TERMS_MODEL });
+  } catch (error) {
+    console.error(`Estimating ${provider} without a provider:`, error);
+  }
+  const model = llm?.model ?? MODEL_NAME;
+  const searchModel = searchLlm?.model ?? SEARCH_TERMS_MODEL;
+
+  // Counting tokens sends the text to the provider too, so it is redacted like the feedback request
+  const markdownProposal = redactPersonalData(options.markdownProposal).text;
+  const chunks = splitIntoChunks(markdownProposal);
+  const reviewers = personas ?? [undefined];
+  const contexts = reviewers.map(persona => getFeedbackContext({ ...options, markdownProposal, persona }));
+
+  // System prompts differ per reviewer; chunk messages are shared, so each text is counted once
+  const chunkMessages = chunks.map(chunk => getChunkRequest(contexts[0], chunk, chunks.length).messages[0].text);
+  const { counts, exact } = await countAll(llm, [
+    markdownProposal,
+    markdownProposal.substring(0, REASONING_CHARS),
+    ...contexts.map(context => context.systemInstruction),
+    ...chunkMessages
+  ]);
+  const [documentTokens, reasoningExcerptTokens, ...rest] = counts;
+  const systemTokens = rest.slice(0, contexts.length);
+  const chunkTokens = rest.slice(contexts.length);
+  const searchTokens = (await countAll(searchLlm, [markdownProposal.substring(0, SEARCH_TERMS_CHARS)])).counts[0];
+
+  const totalSystemTokens = systemTokens.reduce((sum, tokens) => sum + tokens, 0);
+  const totalChunkTokens = chunkTokens.reduce((sum, tokens) => sum + tokens, 0);
+  const calls: CallEstimate[] = [
+    callEstimate(provider, searchModel, "Search terms", 1, searchTokens + INSTRUCTION_TOKENS, SEARCH_TERMS_OUTPUT_TOKENS),
+    callEstimate(
+      provider, model,
+      personas ? `Feedback (${personas.length} reviewers)` : "Feedback",
+      chunks.length * reviewers.length,
+      totalSystemTokens * chunks.length + totalChunkTokens * reviewers.length,
+      FEEDBACK_OUTPUT_TOKENS * chunks.length * reviewers.length
+    )
+  ];
+  if (chunks.length > 1) {
+    // Combining sends each part's review back to the model
+    calls.push(callEstimate(
+      provider, model, "Combining parts", reviewers.length,
+      totalSystemTokens + FEEDBACK_OUTPUT_TOKENS * chunks.length * reviewers.length,
+      MERGE_OUTPUT_TOKENS * reviewers.length
+    ));
+  }
+  calls.push(callEstimate(provider, model, "Reasoning", 1, systemTokens[0] + reasoningExcerptTokens + INSTRUCTION_TOKENS, REASONING_OUTPUT_TOKENS));
+
+  const info = getModelInfo(provider, model);
+  const warnings: string[] = [];
+  if (info) {
+    const largestCall = Math.max(...chunkTokens) + Math.max(...systemTokens) + MAX_FEEDBACK_OUTPUT_TOKENS;
+    if (documentTokens > info.contextWindow) {
+      warnings.push(`The document (~${formatTokens(documentTokens)} tokens) is longer than the context window of ${model} (${formatTokens(info.contextWindow)} tokens).`);
+    }
+    if (largestCall > info.contextWindow) {
+      warnings.push(`A single request (~${formatTokens(largestCall)} tokens with room for the answer) exceeds the context window of ${model}; the model may truncate or reject it.`);
+    }
+  }
+
+  return {
+    provider,
+    model,
+    calls,
+    inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+    outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+    cost: calls.every(call => call.cost !== null) ? calls.reduce((sum, call) => sum + call.cost!, 0) : null,
+    contextWindow: info?.contextWindow ?? null,
+    exact,
+    warnings
+  };
+}
+
+/**
+ * Estimates a feedback run for every provider this server offers
+ * @param request Incoming request (for the per-user Gemini API key)
+ * @param options Feedback options as parsed from the request
+ * @param personas Reviewers when a panel was requested
+ * @param selected Provider the user picked (the server default otherwise); its estimate comes first
+ */
+export async function estimateFeedbackCost(
+  request: NextRequest,
+  options: FeedbackOptions,
+  personas: ReviewerPersona[] | null,
+  selected?: string
+): Promise<ProviderEstimate[]> {
+  const first = selected ?? getDefaultProvider();
+  const providers = [...getAvailableProviders()].sort((a, b) => Number(b === first) - Number(a === first));
+  return Promise.all(providers.map(provider => estimateForProvider(request, provider, options, personas)));
+}
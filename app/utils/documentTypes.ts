@@ -0,0 +1,388 @@
+/**
+ * Registry of the document types we assess. Each type carries the wording used in
+ * prompts, the sections a complete document is expected to have and a default rubric.
+ */
+import { DEFAULT_RUBRIC, GradeBoundary, Rubric, RubricLevel } from "./rubric";
+
+export interface DocumentTypeDefinition {
+  id: string;
+  // Shown in the Step 2 selector
+  label: string;
+  description: string;
+  // Completes "You are a professor that provides feedback on ..."
+  roleDescription: string;
+  // Short noun phrase used in follow-up prompts, e.g. "research proposal"
+  name: string;
+  expectedSections: string[];
+  defaultRubric: Rubric;
+  // What the literature search terms should focus on for this type
+  searchTermsPrompt: string;
+}
+
+const GRADE_BOUNDARIES: GradeBoundary[] = DEFAULT_RUBRIC.gradeBoundaries;
+
+// Four-level scale shared by the default rubrics
+const levels = (excellent: string, good: string, adequate: string, poor: string): RubricLevel[] => [
+  { label: "Excellent", points: 4, descriptor: excellent },
+  { label: "Good", points: 3, descriptor: good },
+  { label: "Adequate", points: 2, descriptor: adequate },
+  { label: "Poor", points: 1, descriptor: poor }
+];
+
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  {
+    id: "proposal",
+    label: "Thesis Proposal",
+    description: "First-year PhD proposal",
+    roleDescription: "a first year phd student's thesis proposal",
+    name: "research proposal",
+    expectedSections: ["Introduction", "Research Question", "Literature Review", "Methodology", "Ethical Considerations", "Timeline", "References"],
+    defaultRubric: DEFAULT_RUBRIC,
+    searchTermsPrompt: "Focus on the core research topics, methods, or unique aspects that would yield relevant literature."
+  },
+  {
+    id: "paper_draft",
+    label: "Paper Draft",
+    description: "Journal or working paper",
+    roleDescription: "an academic paper draft",
+    name: "academic paper draft",
+    expectedSections: ["Abstract", "Introduction", "Literature Review", "Methods", "Results", "Discussion", "Conclusion", "References"],
+    defaultRubric: {
+      name: "Paper draft rubric",
+      criteria: [
+        {
+          id: "contribution",
+          name: "Contribution",
+          weight: 30,
+          levels: levels(
+            "Clear, original contribution that is convincingly positioned against prior work.",
+            "Contribution is clear but its novelty is only partly argued.",
+            "Contribution is vague or largely incremental.",
+            "No identifiable contribution."
+          )
+        },
+        {
+          id: "methods",
+          name: "Methods",
+          weight: 30,
+          levels: levels(
+            "Rigorous, well-justified methods reported in enough detail to replicate.",
+            "Appropriate methods with minor gaps in justification or reporting.",
+            "Methods are only partly suited or insufficiently reported.",
+            "Methods are missing or unsuitable."
+          )
+        },
+        {
+          id: "results_discussion",
+          name: "Results and Discussion",
+          weight: 25,
+          levels: levels(
+            "Results are clearly presented and interpreted with appropriate caution and implications.",
+            "Results are sound; the discussion misses some implications or limitations.",
+            "Results are hard to follow or over-interpreted.",
+            "Results do not support the conclusions."
+          )
+        },
+        {
+          id: "writing",
+          name: "Structure and Writing",
+          weight: 15,
+          levels: levels(
+            "Tightly structured and clearly written for the target venue.",
+            "Generally clear with some structural or stylistic weaknesses.",
+            "Structure or language often gets in the way of the argument.",
+            "Disorganised and hard to read."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the core research topics, methods, or unique aspects that would yield relevant literature."
+  },
+  {
+    id: "grant_application",
+    label: "Grant Application",
+    description: "Funding proposal",
+    roleDescription: "a research grant application",
+    name: "grant application",
+    expectedSections: ["Summary", "Objectives", "Background", "Methodology", "Work Plan", "Impact", "Budget", "References"],
+    defaultRubric: {
+      name: "Grant application rubric",
+      criteria: [
+        {
+          id: "significance",
+          name: "Significance and Objectives",
+          weight: 30,
+          levels: levels(
+            "Important problem with specific, ambitious and achievable objectives.",
+            "Relevant problem with mostly clear objectives.",
+            "Objectives are vague or only loosely tied to the problem.",
+            "No clear problem or objectives."
+          )
+        },
+        {
+          id: "approach",
+          name: "Approach and Feasibility",
+          weight: 35,
+          levels: levels(
+            "Sound methodology, realistic work plan and risks addressed with mitigation.",
+            "Credible approach with some gaps in the plan or risk assessment.",
+            "Feasibility is doubtful or the plan lacks detail.",
+            "No credible plan."
+          )
+        },
+        {
+          id: "impact",
+          name: "Impact",
+          weight: 20,
+          levels: levels(
+            "Concrete pathways to academic and societal impact with dissemination planned.",
+            "Impact is plausible but pathways are only partly described.",
+            "Impact is asserted rather than argued.",
+            "Impact is not addressed."
+          )
+        },
+        {
+          id: "resources",
+          name: "Resources and Budget",
+          weight: 15,
+          levels: levels(
+            "Budget and team are well justified and proportionate to the objectives.",
+            "Resources are mostly appropriate with minor gaps in justification.",
+            "Resources are poorly justified or mismatched to the work.",
+            "Budget or resources are missing."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the research problem and the approach proposed, so the results show recent work and competing projects in the same area."
+  },
+  {
+    id: "literature_review",
+    label: "Literature Review",
+    description: "Systematic or narrative review",
+    roleDescription: "a literature review",
+    name: "literature review",
+    expectedSections: ["Introduction", "Search Strategy", "Thematic Synthesis", "Research Gaps", "Conclusion", "References"],
+    defaultRubric: {
+      name: "Literature review rubric",
+      criteria: [
+        {
+          id: "coverage",
+          name: "Coverage and Search",
+          weight: 30,
+          levels: levels(
+            "Comprehensive, up-to-date coverage with a transparent search strategy.",
+            "Good coverage; the search strategy is only partly documented.",
+            "Noticeable gaps or outdated sources.",
+            "Narrow or arbitrary selection of sources."
+          )
+        },
+        {
+          id: "synthesis",
+          name: "Critical Synthesis",
+          weight: 40,
+          levels: levels(
+            "Sources are compared, evaluated and organised into a coherent argument.",
+            "Some critical comparison, partly organised by theme.",
+            "Mostly a source-by-source summary.",
+            "Descriptive list with no synthesis."
+          )
+        },
+        {
+          id: "gaps",
+          name: "Gaps and Implications",
+          weight: 30,
+          levels: levels(
+            "Well-argued gaps that lead to clear directions for research.",
+            "Gaps identified but only partly argued.",
+            "Gaps are generic or not derived from the review.",
+            "No gaps or implications identified."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the review's central themes and any recent reviews or meta-analyses on the same topic, so the results show literature the review may have missed."
+  },
+  {
+    id: "thesis_chapter",
+    label: "Thesis Chapter",
+    description: "A single chapter of a thesis",
+    roleDescription: "a chapter of a doctoral thesis",
+    name: "thesis chapter",
+    expectedSections: ["Introduction", "Main Argument", "Conclusion", "References"],
+    defaultRubric: {
+      name: "Thesis chapter rubric",
+      criteria: [
+        {
+          id: "argument",
+          name: "Argument",
+          weight: 35,
+          levels: levels(
+            "Clear, sustained argument that advances the thesis as a whole.",
+            "Clear argument with occasional digressions.",
+            "Argument is hard to follow or loosely connected to the thesis.",
+            "No discernible argument."
+          )
+        },
+        {
+          id: "evidence",
+          name: "Evidence and Analysis",
+          weight: 35,
+          levels: levels(
+            "Claims are well supported by appropriate evidence and careful analysis.",
+            "Most claims are supported; analysis is sometimes thin.",
+            "Evidence is patchy or the analysis largely descriptive.",
+            "Claims are unsupported."
+          )
+        },
+        {
+          id: "scholarship",
+          name: "Engagement with Literature",
+          weight: 30,
+          levels: levels(
+            "Critically engages with the relevant literature and positions the chapter within it.",
+            "Relevant literature used with some critical engagement.",
+            "Literature is cited but not engaged with.",
+            "Little or no use of the literature."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the specific topic and argument of this chapter rather than the thesis as a whole."
+  },
+  {
+    id: "conference_abstract",
+    label: "Conference Abstract",
+    description: "Short abstract for a conference",
+    roleDescription: "a conference abstract submission",
+    name: "conference abstract",
+    expectedSections: ["Background", "Aim", "Methods", "Results", "Conclusion"],
+    defaultRubric: {
+      name: "Conference abstract rubric",
+      criteria: [
+        {
+          id: "clarity",
+          name: "Clarity and Focus",
+          weight: 30,
+          levels: levels(
+            "States the problem, aim and contribution precisely within the word limit.",
+            "Mostly clear; some words spent on secondary points.",
+            "Aim or contribution is hard to identify.",
+            "Unclear what the work is about."
+          )
+        },
+        {
+          id: "methods_results",
+          name: "Methods and Results",
+          weight: 40,
+          levels: levels(
+            "Methods and key findings are stated concretely, with numbers where relevant.",
+            "Methods and findings are present but somewhat vague.",
+            "Findings are promised rather than reported.",
+            "No methods or results."
+          )
+        },
+        {
+          id: "relevance",
+          name: "Relevance to the Audience",
+          weight: 30,
+          levels: levels(
+            "Clearly matters to the conference audience and explains why.",
+            "Relevant, though the significance is only implied.",
+            "Relevance to the audience is unclear.",
+            "Off-topic for the venue."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the main finding and method, using the specific terminology of the field."
+  },
+  {
+    id: "masters_dissertation",
+    label: "Master's Dissertation",
+    description: "Complete master's thesis",
+    roleDescription: "a master's dissertation",
+    name: "master's dissertation",
+    expectedSections: ["Abstract", "Introduction", "Literature Review", "Methodology", "Results", "Discussion", "Conclusion", "References"],
+    defaultRubric: {
+      name: "Master's dissertation rubric",
+      criteria: [
+        {
+          id: "research_question",
+          name: "Research Question and Rationale",
+          weight: 20,
+          levels: levels(
+            "Focused, well-motivated question appropriate in scope for a master's project.",
+            "Clear question with a reasonable rationale.",
+            "Question is broad, vague or weakly motivated.",
+            "No clear question."
+          )
+        },
+        {
+          id: "literature",
+          name: "Literature Review",
+          weight: 20,
+          levels: levels(
+            "Critical and well-organised review that frames the question.",
+            "Relevant review with some critical engagement.",
+            "Mostly descriptive review.",
+            "Little relevant literature."
+          )
+        },
+        {
+          id: "methodology",
+          name: "Methodology",
+          weight: 25,
+          levels: levels(
+            "Appropriate, well-justified methods applied competently.",
+            "Suitable methods with minor weaknesses in justification or execution.",
+            "Methods only partly suited or poorly explained.",
+            "Methods missing or unsuitable."
+          )
+        },
+        {
+          id: "analysis",
+          name: "Analysis and Discussion",
+          weight: 25,
+          levels: levels(
+            "Insightful analysis with conclusions that follow from the findings and address limitations.",
+            "Sound analysis; discussion could go deeper.",
+            "Analysis is superficial or conclusions overreach.",
+            "No meaningful analysis."
+          )
+        },
+        {
+          id: "presentation",
+          name: "Presentation",
+          weight: 10,
+          levels: levels(
+            "Well structured, clearly written and consistently referenced.",
+            "Generally clear with minor presentation issues.",
+            "Presentation issues distract from the content.",
+            "Poorly presented."
+          )
+        }
+      ],
+      gradeBoundaries: GRADE_BOUNDARIES
+    },
+    searchTermsPrompt: "Focus on the research question and methods, so the results show recent studies the dissertation should engage with."
+  }
+];
+
+export const DEFAULT_DOCUMENT_TYPE = "proposal";
+
+export const isDocumentType = (id: unknown): id is string =>
+  typeof id === "string" && DOCUMENT_TYPES.some(type => type.id === id);
+
+/**
+ * Looks up a document type, falling back to the default for unknown IDs
+ */
+export function getDocumentType(id: string = DEFAULT_DOCUMENT_TYPE): DocumentTypeDefinition {
+  return DOCUMENT_TYPES.find(type => type.id === id)
+    ?? DOCUMENT_TYPES.find(type => type.id === DEFAULT_DOCUMENT_TYPE)!;
+}
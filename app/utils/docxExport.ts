@@ -0,0 +1,192 @@
+/**
+ * Word export: the extracted document text with each located annotation as a margin
+ * comment anchored to its quote, after a cover section with the overall feedback and
+ * the examination table
+ */
+import { FeedbackData, FeedbackPassage } from "./feedback";
+import { anchorPassages } from "./quoteAnchoring";
+import { Rubric, RubricResult } from "./rubric";
+import { parseHeadings } from "./sections";
+import { createZip } from "./zip";
+
+export interface DocxExportOptions {
+  markdownProposal: string;
+  feedback: FeedbackData;
+  // Shown as the title of the cover section, e.g. the PDF's file name
+  title: string;
+  rubric?: Rubric | null;
+  rubricResult?: RubricResult | null;
+  // Author of the margin comments
+  author?: string;
+  // Feedback that hasn't been released to the student; the cover section says so
+  draft?: boolean;
+}
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// Control characters other than tab and newline aren't allowed in XML
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f￾￿]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, properties = ''): string =>
+  text ? `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : '';
+
+const paragraph = (content: string, style?: string): string =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${content}</w:p>`;
+
+// One paragraph per line of a multi-line text
+const paragraphs = (text: string, style?: string): string =>
+  text.split('\n').map(line => paragraph(run(line), style)).join('');
+
+const tableCell = (text: string, header = false): string =>
+  `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${text.split('\n').map(line => paragraph(run(line, header ? '<w:b/>' : ''))).join('') || paragraph('')}</w:tc>`;
+
+function examinationTable(feedback: FeedbackData, rubricResult?: RubricResult | null): string {
+  const scored = !!rubricResult;
+  const headers = ["Area", "Assessment", ...(scored ? ["Level"] : []), "Comment", "Suggestion for improvement"];
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+  const rows = feedback.examination.map(item => {
+    const criterion = rubricResult?.criteria.find(c => c.criterionId === item.criterion_id);
+    return `<w:tr>${[
+      item.area_of_examination,
+      item.assesment_category,
+      ...(scored ? [criterion && criterion.points !== undefined ? `${criterion.level ?? ''} (${criterion.points}/${criterion.maxPoints})`.trim() : ''] : []),
+      item.assessment_comment,
+      item["suggestion for improvement"] || ''
+    ].map(text => tableCell(text)).join('')}</w:tr>`;
+  });
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join('')}</w:tblBorders></w:tblPr>`
+    + `<w:tr>${headers.map(text => tableCell(text, true)).join('')}</w:tr>${rows.join('')}</w:tbl>`;
+}
+
+interface CommentMarker {
+  position: number;
+  type: "start" | "end";
+  id: number;
+}
+
+/**
+ * The document text as paragraphs, with comment ranges around the anchored quotes.
+ * Markdown headings become Word headings; other markdown is kept as written.
+ */
+function documentBody(markdown: string, anchored: { id: number; start: number; end: number }[]): string {
+  const markers: CommentMarker[] = anchored
+    .flatMap(({ id, start, end }) => [{ position: start, type: "start" as const, id }, { position: end, type: "end" as const, id }])
+    // Ranges that touch close before the next one opens
+    .sort((a, b) => a.position - b.position || (a.type === b.type ? 0 : a.type === "end" ? -1 : 1));
+  const headingLevels = new Map(parseHeadings(markdown).map(heading => [heading.start, heading.level]));
+
+  const body: string[] = [];
+  let next = 0;
+  let lineStart = 0;
+  for (const line of markdown.split('\n')) {
+    const lineEnd = lineStart + line.length;
+    const level = headingLevels.get(lineStart);
+    // Markers inside the "## " of a heading move to its text
+    const contentStart = lineStart + (level ? line.match(/^#{1,6}\s+/)![0].length : 0);
+
+    let content = '';
+    let position = contentStart;
+    for (; next < markers.length && markers[next].position <= lineEnd; next++) {
+      const marker = markers[next];
+      const at = Math.max(marker.position, contentStart);
+      content += run(markdown.substring(position, at));
+      position = Math.max(position, at);
+      content += marker.type === "start"
+        ? `<w:commentRangeStart w:id="${marker.id}"/>`
+        : `<w:commentRangeEnd w:id="${marker.id}"/><w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:commentReference w:id="${marker.id}"/></w:r>`;
+    }
+    content += run(markdown.substring(position, lineEnd));
+    body.push(paragraph(content, level ? `Heading${Math.min(level, 3)}` : undefined));
+    lineStart = lineEnd + 1;
+  }
+  return body.join('');
+}
+
+const commentText = (passage: FeedbackPassage): string =>
+  [passage.feedback, passage.quote_from_marking_guidelines ? `Guideline: ${passage.quote_from_marking_guidelines}` : '']
+    .filter(Boolean)
+    .join('\n');
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NAMESPACE}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="CommentText"><w:name w:val="annotation text"/><w:basedOn w:val="Normal"/><w:rPr><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CommentReference"><w:name w:val="annotation reference"/><w:rPr><w:sz w:val="16"/></w:rPr></w:style>
+</w:styles>`;
+
+/**
+ * Builds the Word document
+ * @returns The .docx file contents
+ */
+export function buildFeedbackDocx({ markdownProposal, feedback, title, rubric, rubricResult, author = "Reviewer", draft = false }: DocxExportOptions): Uint8Array {
+  const passages = anchorPassages(feedback.passages, markdownProposal);
+  const anchored = passages
+    .map((passage, id) => ({ id, passage, start: passage.anchor?.start ?? -1, end: passage.anchor?.end ?? -1 }))
+    .filter(item => item.passage.anchor && item.end > item.start && item.end <= markdownProposal.length);
+  const unanchored = passages.filter((_, id) => !anchored.some(item => item.id === id));
+
+  const date = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const initials = author.split(/\s+/).map(word => word[0] ?? '').join('').toUpperCase();
+  const comments = anchored.map(({ id, passage }) => {
+    const [first, ...rest] = commentText(passage).split('\n');
+    return `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="${escapeXml(initials)}">`
+      + paragraph(`<w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:annotationRef/></w:r>${run(first)}`, "CommentText")
+      + rest.map(line => paragraph(run(line), "CommentText")).join('')
+      + `</w:comment>`;
+  });
+
+  const cover = [
+    paragraph(run(draft ? `Draft: ${title}` : title), "Title"),
+    draft ? paragraph(run("Draft feedback, not yet reviewed and released to the student.", '<w:b/><w:color w:val="C00000"/>')) : '',
+    paragraph(run("Overall feedback"), "Heading1"),
+    paragraphs(feedback.overall_feedback || ''),
+    paragraph(run("Examination"), "Heading1"),
+    rubricResult
+      ? paragraph(run(`Weighted total: ${rubricResult.totalPercent}%${rubricResult.grade ? `, grade ${rubricResult.grade}` : ''}${rubric ? ` (${rubric.name})` : ''}`, '<w:b/>'))
+      : '',
+    feedback.examination.length > 0 ? examinationTable(feedback, rubricResult) : paragraph(run("No examination areas.")),
+    // Comments on quotes that couldn't be located can't go in the margin
+    ...(unanchored.length > 0 ? [
+      paragraph(run("Comments not located in the text"), "Heading1"),
+      ...unanchored.map(passage => paragraph(run(`"${passage.referenced_student_text_quote}": `, '<w:i/>') + run(commentText(passage).replace(/\n/g, ' '))))
+    ] : []),
+    paragraph('<w:r><w:br w:type="page"/></w:r>')
+  ].join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}"><w:body>${cover}${documentBody(markdownProposal, anchored)}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/></Types>`
+    },
+    {
+      name: "_rels/.rels",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+    },
+    {
+      name: "word/_rels/document.xml.rels",
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="comments.xml"/></Relationships>`
+    },
+    { name: "word/document.xml", data: document },
+    { name: "word/styles.xml", data: STYLES },
+    { name: "word/comments.xml", data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${W_NAMESPACE}">${comments.join('')}</w:comments>` }
+  ]);
+}
@@ -0,0 +1,246 @@
+/**
+ * Feedback data types shared by the API routes and the client
+ */
+import { Schema } from "./llm/types";
+import { SchemaIssue, validateSchema } from "./schemaValidation";
+
+export const ASSESSMENT_CATEGORIES = ["excellent", "sufficient with room for improvement", "insufficient"] as const;
+export type AssessmentCategory = typeof ASSESSMENT_CATEGORIES[number];
+
+// Location of a quote in the document text, found by quoteAnchoring
+export interface QuoteAnchor {
+  // Character offsets into the document text (end is exclusive)
+  start: number;
+  end: number;
+  // 1 for a verbatim match, lower the more the quote had to be aligned fuzzily
+  confidence: number;
+}
+
+// Define the structure of the feedback object based on the response schema
+export interface FeedbackPassage {
+  referenced_student_text_quote: string;
+  feedback: string;
+  quote_from_marking_guidelines?: string;
+  // Names of the panel reviewers who raised this point (panel mode only)
+  reviewers?: string[];
+  // Set on the server once the quote has been located in the document
+  anchor?: QuoteAnchor;
+  // Set on findings of the local checkers and on annotations added by the instructor rather than the AI
+  source?: "citation_style" | "instructor";
+}
+
+export interface FeedbackExamination {
+  area_of_examination: string;
+  assessment_comment: string;
+  "suggestion for improvement"?: string; // Make optional as per schema
+  assesment_category: AssessmentCategory;
+  // Only present when scored against a structured rubric
+  criterion_id?: string;
+  level?: string;
+  score?: number;
+  // How the panel rated this area (panel mode only)
+  consensus?: ExaminationConsensus;
+}
+
+export interface ExaminationConsensus {
+  ratings: { reviewer: string; category: AssessmentCategory; score?: number }[];
+  // Share of reviewers who gave the consensus category, 0-1
+  agreement: number;
+  disagreement: "none" | "some" | "high";
+}
+
+export interface FeedbackData {
+  overall_feedback: string;
+  passages: FeedbackPassage[];
+  examination: FeedbackExamination[];
+}
+
+// Ordered worst to best, used when several assessments of one area need combining
+export const CATEGORY_RANK: AssessmentCategory[] = [...ASSESSMENT_CATEGORIES].reverse();
+
+// Structured output schema for the feedback call. The interfaces above describe
+// the same shape; validateFeedback checks model output against it at runtime.
+export const feedbackSchema: Schema = {
+  type: "object",
+  properties: {
+    overall_feedback: {
+      type: "string",
+      description: "General assessment of the document, summarizing strengths and weaknesses."
+    },
+    passages: {
+      type: "array",
+      description: "Specific feedback points linked to exact text passages from the document.",
+      items: {
+        type: "object",
+        properties: {
+          referenced_student_text_quote: {
+            type: "string",
+            description: "The exact, full quote from the student's document being commented on. Do not use ellipses."
+          },
+          feedback: {
+            type: "string",
+            description: "Constructive feedback related to the referenced quote."
+          },
+          quote_from_marking_guidelines: {
+            type: "string",
+            description: "Optional: The specific guideline text relevant to this feedback point.",
+            nullable: true
+          }
+        },
+        required: [
+          "referenced_student_text_quote",
+          "feedback"
+        ]
+      }
+    },
+    examination: {
+      type: "array",
+      description: "Structured assessment based on predefined examination areas.",
+      items: {
+        type: "object",
+        properties: {
+          area_of_examination: {
+            type: "string",
+            description: "The specific area being assessed (e.g., 'Clarity of Research Question', 'Methodology', 'Literature Review')."
+          },
+          assessment_comment: {
+            type: "string",
+            description: "Detailed comments on the student's performance in this area."
+          },
+          "suggestion for improvement": {
+            type: "string",
+            description: "Actionable suggestions for the student to improve this area.",
+            nullable: true
+          },
+          assesment_category: { // Consider fixing typo: assessment_category
+            type: "string",
+            description: "Overall rating for this area. Must be one of: 'excellent', 'sufficient with room for improvement', 'insufficient'.",
+            enum: [...ASSESSMENT_CATEGORIES]
+          }
+        },
+        required: [
+          "area_of_examination",
+          "assessment_comment",
+          "assesment_category" // Matches typo above
+        ]
+      }
+    }
+  },
+  required: [
+    "overall_feedback",
+    "passages",
+    "examination"
+  ]
+};
+
+// Fix harmless deviations (letter case, stray whitespace) before validating
+function normalizeCategories(value: any): any {
+  if (!value || !Array.isArray(value.examination)) return value;
+  return {
+    ...value,
+    examination: value.examination.map((item: any) => {
+      if (!item || typeof item.assesment_category !== "string") return item;
+      const normalized = item.assesment_category.toLowerCase().replace(/\s+/g, ' ').trim();
+      return ASSESSMENT_CATEGORIES.includes(normalized as AssessmentCategory)
+        ? { ...item, assesment_category: normalized }
+        : item;
+    })
+  };
+}
+
+/**
+ * Validates parsed model output against a feedback schema
+ * @param value Parsed JSON from the model
+ * @param schema Schema to check against (defaults to the full feedback schema)
+ * @returns The normalised value and any issues found
+ */
+export function validateFeedback(value: unknown, schema: Schema = feedbackSchema): { value: any; issues: SchemaIssue[] } {
+  const normalized = normalizeCategories(value);
+  return { value: normalized, issues: validateSchema(normalized, schema) };
+}
+
+export const normalizeKey = (text: string): string =>
+  (text || '').toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+// Identifies an examination area; rubric entries match by criterion, since the area name may be worded differently
+export const examinationKey = (item: { criterion_id?: string; area_of_examination: string }): string =>
+  item.criterion_id || normalizeKey(item.area_of_examination);
+
+const joinDistinct = (values: (string | undefined)[]): string =>
+  Array.from(new Set(values.map(v => (v || '').trim()).filter(Boolean))).join('\n\n');
+
+/**
+ * Removes duplicate passages. Quotes that are identical after normalisation, or
+ * contained in another quote, are folded into the longer one and their feedback joined.
+ * @param passages Passages possibly coming from several generation calls
+ * @returns Deduplicated passages in their original order
+ */
+export function dedupePassages(passages: FeedbackPassage[]): FeedbackPassage[] {
+  // Longest quotes first so shorter ones fold into them
+  const ordered = passages
+    .map((passage, index) => ({ passage, index }))
+    .sort((a, b) => b.passage.referenced_student_text_quote.length - a.passage.referenced_student_text_quote.length);
+
+  const kept: { key: string; index: number; passage: FeedbackPassage }[] = [];
+  for (const { passage, index } of ordered) {
+    const key = normalizeKey(passage.referenced_student_text_quote);
+    const existing = kept.find(k => k.key === key || (key.length > 0 && k.key.includes(key)));
+    if (existing) {
+      existing.passage = {
+        ...existing.passage,
+        feedback: joinDistinct([existing.passage.feedback, passage.feedback]),
+        quote_from_marking_guidelines: joinDistinct([existing.passage.quote_from_marking_guidelines, passage.quote_from_marking_guidelines]) || undefined
+      };
+    } else {
+      kept.push({ key, index, passage });
+    }
+  }
+
+  return kept.sort((a, b) => a.index - b.index).map(k => k.passage);
+}
+
+/**
+ * Combines examination lists, keeping one entry per area. Comments are joined and
+ * the lowest category wins so that a weakness found in any part is not hidden.
+ */
+export function mergeExaminations(lists: FeedbackExamination[][]): FeedbackExamination[] {
+  const byArea = new Map<string, FeedbackExamination[]>();
+  for (const item of lists.flat()) {
+    const key = examinationKey(item);
+    byArea.set(key, [...(byArea.get(key) || []), item]);
+  }
+
+  return Array.from(byArea.values()).map(items => {
+    // Rubric scores follow the same rule: the lowest score wins
+    const lowestScored = items
+      .filter(i => typeof i.score === "number")
+      .sort((a, b) => (a.score as number) - (b.score as number))[0];
+
+    return {
+      area_of_examination: items[0].area_of_examination,
+      assessment_comment: joinDistinct(items.map(i => i.assessment_comment)),
+      "suggestion for improvement": joinDistinct(items.map(i => i["suggestion for improvement"])) || undefined,
+      assesment_category: items
+        .map(i => i.assesment_category)
+        .sort((a, b) => CATEGORY_RANK.indexOf(a) - CATEGORY_RANK.indexOf(b))[0],
+      ...(lowestScored ? {
+        criterion_id: lowestScored.criterion_id,
+        level: lowestScored.level,
+        score: lowestScored.score
+      } : {})
+    };
+  });
+}
+
+/**
+ * Deterministically merges feedback generated for separate parts of one document
+ * @param parts Feedback for each chunk, in document order
+ * @returns A single FeedbackData
+ */
+export function mergeFeedback(parts: FeedbackData[]): FeedbackData {
+  return {
+    overall_feedback: joinDistinct(parts.map(p => p.overall_feedback)),
+    passages: dedupePassages(parts.flatMap(p => p.passages || [])),
+    examination: mergeExaminations(parts.map(p => p.examination || []))
+  };
+}
@@ -0,0 +1,536 @@
+import { addUsage, GenerateRequest, GenerateResult, LLMProvider, Schema, UsageMetadata } from "@/app/utils/llm";
+import { FeedbackData, FeedbackExamination, FeedbackPassage, feedbackSchema, mergeFeedback, validateFeedback } from "@/app/utils/feedback";
+import { SchemaIssue, validateSchema } from "@/app/utils/schemaValidation";
+import { CHUNK_CHAR_LIMIT, DocumentChunk, splitIntoChunks } from "@/app/utils/chunking";
+import { extractCompletedArrayItems } from "@/app/utils/partialJson";
+import { alignRubricEntries, formatExemplarsForPrompt, formatRubricForPrompt, Rubric, validateRubricScores, withRubricSchema } from "@/app/utils/rubric";
+import { DEFAULT_DOCUMENT_TYPE, getDocumentType } from "@/app/utils/documentTypes";
+import { getDefaultPromptTemplate, PromptTemplateContent, renderPromptTemplate } from "@/app/utils/promptTemplates";
+import { aggregatePanel, ReviewerFeedback, ReviewerPersona } from "@/app/utils/panel";
+import { alignQuote, anchorPassages, anchorQuote } from "@/app/utils/quoteAnchoring";
+import { describeOutputLanguage } from "@/app/utils/languages";
+import { describeDocumentStructure } from "@/app/utils/sections";
+import { anonymizePersonalData, hasPlaceholders, PLACEHOLDER_NOTE, redactPersonalData, restoreFeedback, restorePersonalData } from "@/app/utils/redaction";
+
+export const MODEL_NAME = "gemini-2.5-pro-preview-03-25";
+
+export interface FeedbackOptions {
+  markdownProposal: string;
+  assessmentGuidelines: string;
+  documentType?: string;
+  harshness?: string;
+  rubric?: Rubric;
+  // Reviewer persona when the feedback is one voice of a review panel
+  persona?: ReviewerPersona;
+  promptTemplate?: PromptTemplateContent;
+  // Output language ID; "auto" (the default) follows the document
+  language?: string;
+}
+
+// Optional callbacks for reporting progress while feedback is generated
+export interface FeedbackProgress {
+  onChunkStart?: (chunk: DocumentChunk, totalChunks: number) => void;
+  onPassage?: (passage: FeedbackPassage) => void;
+  onExamination?: (item: FeedbackExamination) => void;
+}
+
+// Everything a single generation call needs, derived once from FeedbackOptions
+export interface FeedbackContext {
+  systemInstruction: string;
+  schema: Schema;
+  mergeSchema: Schema;
+  // Extra checks beyond the schema; `complete` is false for a single chunk of a longer document
+  validate?: (value: any, complete: boolean) => SchemaIssue[];
+}
+
+export interface FeedbackResult {
+  feedback: FeedbackData;
+  usage: UsageMetadata;
+  chunks: number;
+}
+
+/**
+ * Builds the system prompt from a prompt template
+ * @param documentType Document type ID from the registry
+ * @param harshness Harshness level
+ * @param guidelines Marking guidelines (and rubric instructions)
+ * @param template Template to use; the built-in default when omitted
+ * @param language Language the feedback should be written in
+ */
+export function getSystemPrompt(
+  documentType: string,
+  harshness: string,
+  guidelines: string,
+  template: PromptTemplateContent = getDefaultPromptTemplate(),
+  language: string = "the same language as the document"
+) {
+  const type = getDocumentType(documentType);
+
+  return renderPromptTemplate(template, harshness, {
+    document_type: type.roleDescription,
+    document_name: type.name,
+    expected_sections: type.expectedSections.join(', '),
+    guidelines,
+    language
+  });
+}
+
+// Schema for combining per-chunk results into one overall assessment
+const getMergeSchema = (schema: Schema): Schema => ({
+  type: "object",
+  properties: {
+    overall_feedback: schema.properties!.overall_feedback,
+    examination: schema.properties!.examination
+  },
+  required: ["overall_feedback", "examination"]
+});
+
+// Build the system prompt, schema and extra validation for a feedback request
+export function getFeedbackContext(options: FeedbackOptions): FeedbackContext {
+  const { markdownProposal, assessmentGuidelines, documentType = DEFAULT_DOCUMENT_TYPE, harshness = "tough", rubric, persona, promptTemplate, language } = options;
+  // Exemplars come from other students' work, so their personal data is removed for good
+  const guidelines = [assessmentGuidelines, rubric ? formatRubricForPrompt(rubric) : '', rubric ? anonymizePersonalData(formatExemplarsForPrompt(rubric)) : '']
+    .filter(Boolean)
+    .join('\n\n');
+  const schema = rubric ? withRubricSchema(rubric) : feedbackSchema;
+
+  const prompt = getSystemPrompt(
+    documentType, harshness, guidelines, promptTemplate, describeOutputLanguage(language, markdownProposal));
+  // Long documents are reviewed in chunks, so each call gets the outline of the whole document
+  const structure = describeDocumentStructure(markdownProposal, getDocumentType(documentType).expectedSections);
+  const systemInstruction = [prompt, structure, hasPlaceholders(markdownProposal) ? PLACEHOLDER_NOTE : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    systemInstruction: persona
+      ? `${systemInstruction}\n\nYou are the "${persona.name}" on a panel of reviewers. ${persona.focus}`
+      : systemInstruction,
+    schema,
+    mergeSchema: getMergeSchema(schema),
+    validate: rubric
+      ? (value, complete) => validateRubricScores(rubric, value.examination || [], complete)
+      : undefined
+  };
+}
+
+// Bounds for fixing invalid output: repair prompts per attempt, then fresh attempts
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_RETRIES = 1;
+
+// Raised when model output still doesn't match the schema after repair and retry
+export class FeedbackValidationError extends Error {
+  constructor(message: string, public details: SchemaIssue[]) {
+    super(message);
+  }
+}
+
+// Find the first '{' and the last '}' to extract the JSON part, then validate it
+function parseAndValidate(responseText: string, schema: Schema): { value?: any; issues: SchemaIssue[] } {
+  const startIndex = responseText.indexOf('{');
+  const endIndex = responseText.lastIndexOf('}');
+
+  if (startIndex === -1 || endIndex === -1 || endIndex < startIndex) {
+    return { issues: [{ path: '$', message: 'response did not contain a JSON object' }] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText.substring(startIndex, endIndex + 1));
+  } catch (parseError: any) {
+    return { issues: [{ path: '$', message: `invalid JSON (${parseError.message}); the output may have been cut off` }] };
+  }
+
+  return validateFeedback(parsed, schema);
+}
+
+// Follow-up prompt telling the model exactly which fields were wrong
+function getRepairPrompt(issues: SchemaIssue[]): string {
+  const listed = issues.slice(0, 20).map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+  const more = issues.length > 20 ? `\n- ...and ${issues.length - 20} more` : '';
+  return `Your previous response did not match the required JSON schema:
+${listed}${more}
+
+Return the complete, corrected JSON object only. Keep all content that was already valid and fix only the listed problems.`;
+}
+
+/**
+ * Runs a structured generation call and makes sure the output matches its schema.
+ * Invalid output first gets a repair prompt listing the failed fields; if that doesn't
+ * help the call is retried from scratch, up to MAX_RETRIES times.
+ * @param llm Provider to use
+ * @param request Generation request; its responseSchema is used for validation
+ * @param options Already obtained first response (e.g. from streaming), and extra checks to run on valid output
+ * @returns Validated value and the usage of all calls made
+ * @throws FeedbackValidationError listing the issues of the last attempt
+ */
+export async function generateValidated(
+  llm: LLMProvider,
+  request: GenerateRequest & { responseSchema: Schema },
+  options: { firstResponse?: GenerateResult; validate?: (value: any) => SchemaIssue[] } = {}
+): Promise<{ value: any; usage: UsageMetadata }> {
+  const { firstResponse, validate } = options;
+  const check = (text: string) => {
+    const result = parseAndValidate(text, request.responseSchema);
+    return validate && result.issues.length === 0 ? { ...result, issues: validate(result.value) } : result;
+  };
+
+  const usages: UsageMetadata[] = [];
+  let lastIssues: SchemaIssue[] = [];
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    let response = attempt === 0 && firstResponse ? firstResponse : await llm.generate(request);
+    usages.push(response.usage);
+    let result = check(response.text);
+
+    for (let repair = 0; result.issues.length > 0 && repair < MAX_REPAIR_ATTEMPTS; repair++) {
+      console.warn(`LLM output failed validation (attempt ${attempt + 1}), asking for a repair:`, result.issues);
+      response = await llm.generate({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", text: response.text },
+          { role: "user", text: getRepairPrompt(result.issues) }
+        ]
+      });
+      usages.push(response.usage);
+      result = check(response.text);
+    }
+
+    if (result.issues.length === 0) {
+      return { value: result.value, usage: addUsage(...usages) };
+    }
+
+    console.error(`LLM output still invalid after repair (attempt ${attempt + 1}):`, result.issues);
+    console.error("Raw response text:", response.text);
+    lastIssues = result.issues;
+  }
+
+  throw new FeedbackValidationError(
+    `AI output did not match the feedback schema after ${MAX_RETRIES + 1} attempts: ${lastIssues.slice(0, 3).map(i => `${i.path} ${i.message}`).join('; ')}`,
+    lastIssues
+  );
+}
+
+/**
+ * Builds the request that reviews one chunk of the document
+ */
+export function getChunkRequest(
+  context: FeedbackContext,
+  chunk: DocumentChunk,
+  totalChunks: number
+): GenerateRequest & { responseSchema: Schema } {
+  const text = totalChunks === 1
+    ? chunk.text
+    : `This is part ${chunk.index + 1} of ${totalChunks} of a longer document${chunk.heading ? ` (starting at "${chunk.heading}")` : ''}. Review only this part and only quote text that appears in it. Rate only the examination areas this part gives evidence for.
+
+${chunk.text}`;
+
+  return {
+    messages: [{ role: "user", text }],
+    systemInstruction: context.systemInstruction,
+    temperature: 0.7,
+    topP: 0.95,
+    topK: 64,
+    maxOutputTokens: 8192,
+    responseSchema: context.schema
+  };
+}
+
+async function generateChunkFeedback(
+  llm: LLMProvider,
+  context: FeedbackContext,
+  chunk: DocumentChunk,
+  totalChunks: number,
+  progress: FeedbackProgress
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const generateRequest = getChunkRequest(context, chunk, totalChunks);
+  const validate = context.validate && ((value: any) => context.validate!(value, totalChunks === 1));
+
+  if (!progress.onPassage && !progress.onExamination) {
+    const { value, usage } = await generateValidated(llm, generateRequest, { validate });
+    return { feedback: value as FeedbackData, usage };
+  }
+
+  const passageSchema = context.schema.properties!.passages.items!;
+  const examinationSchema = context.schema.properties!.examination.items!;
+
+  // Stream the response and report passages / examination items as soon as they are complete
+  let buffer = '';
+  let passagesSent = 0;
+  let examinationSent = 0;
+  const response = await llm.stream(generateRequest, delta => {
+    buffer += delta;
+    const passages = extractCompletedArrayItems(buffer, 'passages');
+    passages.slice(passagesSent)
+      .filter(passage => validateSchema(passage, passageSchema).length === 0)
+      .forEach(passage => progress.onPassage?.(passage));
+    passagesSent = passages.length;
+    // Invalid items are skipped here; the validated final result replaces them anyway
+    const examination = extractCompletedArrayItems(buffer, 'examination');
+    examination.slice(examinationSent)
+      .map(item => validateFeedback({ examination: [item] }).value.examination[0])
+      .filter(item => validateSchema(item, examinationSchema).length === 0)
+      .forEach(item => progress.onExamination?.(item));
+    examinationSent = examination.length;
+  });
+
+  const { value, usage } = await generateValidated(llm, generateRequest, { firstResponse: response, validate });
+  return { feedback: value as FeedbackData, usage };
+}
+
+// Combine per-chunk reviews into a single overall feedback and examination list
+async function combineChunkFeedback(
+  llm: LLMProvider,
+  context: FeedbackContext,
+  parts: FeedbackData[]
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const merged = mergeFeedback(parts);
+
+  try {
+    const partials = parts.map((part, index) => ({
+      part: index + 1,
+      overall_feedback: part.overall_feedback,
+      examination: part.examination
+    }));
+
+    const { value: combined, usage } = await generateValidated(llm, {
+      messages: [{ role: "user", text: `The document was too long to review at once, so each of its ${parts.length} consecutive parts was reviewed separately. Combine these partial reviews into ONE overall feedback for the whole document and ONE examination list that assesses each area exactly once, weighing the evidence from all parts.
+
+${JSON.stringify(partials, null, 2)}` }],
+      systemInstruction: context.systemInstruction,
+      temperature: 0.3,
+      maxOutputTokens: 8192,
+      responseSchema: context.mergeSchema
+    }, { validate: context.validate && (value => context.validate!(value, true)) });
+
+    return {
+      feedback: {
+        overall_feedback: combined.overall_feedback,
+        passages: merged.passages,
+        examination: combined.examination
+      },
+      usage
+    };
+  } catch (mergeError) {
+    // Fall back to the deterministic merge rather than failing the whole request
+    console.error("Error combining chunk feedback, using deterministic merge:", mergeError);
+    return { feedback: merged, usage: {} };
+  }
+}
+
+// Document text shown around a misquoted passage when the document is too long to resend
+const REQUOTE_CONTEXT_CHARS = 1500;
+
+const requoteSchema: Schema = {
+  type: "object",
+  properties: {
+    quotes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer", description: "Number of the passage." },
+          quote: { type: "string", description: "The passage copied verbatim from the document, or an empty string if it isn't in the document." }
+        },
+        required: ["index", "quote"]
+      }
+    }
+  },
+  required: ["quotes"]
+};
+
+/**
+ * Anchors each passage's quote to exact offsets in the document. Quotes that can't
+ * be found are sent back to the model once to be copied verbatim; any that still
+ * can't be found are left without an anchor.
+ * @param llm Provider to use
+ * @param markdownProposal Document text the quotes were taken from
+ * @param feedback Feedback whose passages to anchor
+ * @returns The feedback with anchors set, and the usage of the re-quote call
+ */
+export async function anchorFeedbackQuotes(
+  llm: LLMProvider,
+  markdownProposal: string,
+  feedback: FeedbackData
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const passages = anchorPassages(feedback.passages, markdownProposal);
+  const unanchored = passages
+    .map((passage, index) => ({ passage, index }))
+    .filter(({ passage }) => !passage.anchor);
+  if (unanchored.length === 0) return { feedback: { ...feedback, passages }, usage: {} };
+
+  console.log(`${unanchored.length} quote(s) not found in the document, asking for verbatim quotes...`);
+
+  // Long documents can't be resent whole, so show the region closest to each quote instead
+  const fullText = markdownProposal.length <= CHUNK_CHAR_LIMIT;
+  const listed = unanchored
+    .map(({ passage, index }) => ({
+      passage,
+      index,
+      closest: fullText ? null : alignQuote(passage.referenced_student_text_quote, markdownProposal)
+    }))
+    .filter(item => fullText || item.closest)
+    .map((item, position) => {
+      const excerpt = item.closest
+        ? `\n   Closest part of the document: "...${markdownProposal.substring(Math.max(0, item.closest.start - REQUOTE_CONTEXT_CHARS), item.closest.end + REQUOTE_CONTEXT_CHARS)}..."`
+        : '';
+      return {
+        index: item.index,
+        number: position + 1,
+        text: `${position + 1}. Quoted: "${item.passage.referenced_student_text_quote}"\n   Your comment: ${item.passage.feedback}${excerpt}`
+      };
+    });
+  if (listed.length === 0) return { feedback: { ...feedback, passages }, usage: {} };
+
+  try {
+    const { value, usage } = await generateValidated(llm, {
+      messages: [{ role: "user", text: `The passages below, which you quoted in your feedback, don't appear in the document word for word. For each one, copy the passage you meant exactly as it is written in the document: same wording, spelling and punctuation, without ellipses. If the passage isn't in the document, return an empty string.
+
+${listed.map(item => item.text).join('\n\n')}${fullText ? `\n\nThe document:\n\n${markdownProposal}` : ''}` }],
+      systemInstruction: "You copy text exactly as it appears in a document.",
+      temperature: 0,
+      maxOutputTokens: 4096,
+      responseSchema: requoteSchema
+    });
+
+    for (const { index, quote } of value.quotes as { index: number; quote: string }[]) {
+      const item = listed.find(l => l.number === index);
+      const anchor = item && quote.trim() ? anchorQuote(quote, markdownProposal) : null;
+      if (item && anchor) {
+        passages[item.index] = { ...passages[item.index], referenced_student_text_quote: quote.trim(), anchor };
+      }
+    }
+    return { feedback: { ...feedback, passages }, usage };
+  } catch (requoteError) {
+    // Unanchored passages are still shown, just without a highlight
+    console.error("Error re-quoting unanchored passages:", requoteError);
+    return { feedback: { ...feedback, passages }, usage: {} };
+  }
+}
+
+/**
+ * Generates structured feedback for a document, splitting it into chunks when it is long.
+ * Personal data is redacted before the document is sent and restored in the feedback.
+ * @param llm Provider to use
+ * @param options Document text, guidelines, document type and harshness
+ * @param progress Optional callbacks; when passages or examination items are
+ *   requested the model output is streamed so they can be reported early
+ * @returns Merged feedback, summed token usage and the number of chunks
+ */
+export async function generateFeedback(
+  llm: LLMProvider,
+  options: FeedbackOptions,
+  progress: FeedbackProgress = {}
+): Promise<FeedbackResult> {
+  const redaction = redactPersonalData(options.markdownProposal);
+  const result = await generateRedactedFeedback(llm, { ...options, markdownProposal: redaction.text }, {
+    onChunkStart: progress.onChunkStart,
+    onPassage: progress.onPassage && (passage => progress.onPassage!(restorePersonalData(passage, redaction))),
+    onExamination: progress.onExamination && (item => progress.onExamination!(restorePersonalData(item, redaction)))
+  });
+  return { ...result, feedback: restoreFeedback(result.feedback, redaction, options.markdownProposal) };
+}
+
+async function generateRedactedFeedback(
+  llm: LLMProvider,
+  options: FeedbackOptions,
+  progress: FeedbackProgress
+): Promise<FeedbackResult> {
+  const context = getFeedbackContext(options);
+
+  const chunks = splitIntoChunks(options.markdownProposal);
+  console.log(`Sending request to ${llm.name} (${llm.model}) in ${chunks.length} chunk(s)...`);
+
+  // Generate feedback for each chunk in turn
+  const parts: FeedbackData[] = [];
+  const usages: UsageMetadata[] = [];
+  for (const chunk of chunks) {
+    progress.onChunkStart?.(chunk, chunks.length);
+    const result = await generateChunkFeedback(llm, context, chunk, chunks.length, progress);
+    parts.push(result.feedback);
+    usages.push(result.usage);
+  }
+
+  console.log(`Received response from ${llm.name}.`);
+
+  let feedback = parts[0];
+  if (parts.length > 1) {
+    const combined = await combineChunkFeedback(llm, context, parts);
+    feedback = combined.feedback;
+    usages.push(combined.usage);
+  }
+  if (options.rubric) {
+    feedback = { ...feedback, examination: alignRubricEntries(options.rubric, feedback.examination || []) };
+  }
+
+  const anchored = await anchorFeedbackQuotes(llm, options.markdownProposal, feedback);
+  usages.push(anchored.usage);
+
+  return { feedback: anchored.feedback, usage: addUsage(...usages), chunks: chunks.length };
+}
+
+export interface PanelResult extends FeedbackResult {
+  reviewers: ReviewerFeedback[];
+}
+
+/**
+ * Has each reviewer persona review the document independently, then aggregates
+ * their feedback into a consensus
+ * @param llm Provider to use
+ * @param options Document text, guidelines, document type and harshness
+ * @param personas Reviewers on the panel
+ * @param onReviewerDone Called as each reviewer finishes
+ * @returns Consensus feedback plus each reviewer's own feedback
+ */
+export async function generatePanelFeedback(
+  llm: LLMProvider,
+  options: FeedbackOptions,
+  personas: ReviewerPersona[],
+  onReviewerDone?: (review: ReviewerFeedback) => void
+): Promise<PanelResult> {
+  const results = await Promise.all(personas.map(async persona => {
+    const result = await generateFeedback(llm, { ...options, persona });
+    onReviewerDone?.({ reviewer: persona, feedback: result.feedback });
+    return { persona, ...result };
+  }));
+
+  const reviewers = results.map(r => ({ reviewer: r.persona, feedback: r.feedback }));
+  return {
+    feedback: aggregatePanel(reviewers),
+    usage: addUsage(...results.map(r => r.usage)),
+    chunks: results[0].chunks,
+    reviewers
+  };
+}
+
+/**
+ * Asks the model to explain its thinking process for the feedback.
+ * Returns null instead of throwing, since reasoning is optional.
+ */
+export async function generateReasoning(llm: LLMProvider, options: FeedbackOptions): Promise<string | null> {
+  const redaction = redactPersonalData(options.markdownProposal);
+  const { markdownProposal, documentType } = { ...options, markdownProposal: redaction.text };
+
+  try {
+    const reasoningResponse = await llm.generate({
+      messages: [{ role: "user", text: `Given the following ${getDocumentType(documentType).name}, explain your thinking process for the feedback (but don't provide the feedback itself again):
+              
+${markdownProposal.substring(0, 5000)}... [truncated for brevity]` }],
+      systemInstruction: getFeedbackContext({ ...options, markdownProposal }).systemInstruction,
+      temperature: 0.7,
+      topP: 0.95,
+      topK: 64,
+      maxOutputTokens: 2048
+    });
+
+    // Logged before the real values are restored
+    const aiReasoning = reasoningResponse.text || null;
+    console.log("Generated AI reasoning:", aiReasoning);
+    return restorePersonalData(aiReasoning, redaction);
+  } catch (reasoningError) {
+    console.error("Error getting AI reasoning:", reasoningError);
+    // Don't fail the whole request if reasoning fails
+    return null;
+  }
+}
@@ -0,0 +1,242 @@
+import { addUsage, GenerateRequest, LLMProvider, Schema, UsageMetadata } from "@/app/utils/llm";
+import { dedupePassages, FeedbackData, FeedbackExamination, FeedbackPassage, normalizeKey } from "@/app/utils/feedback";
+import { anchorFeedbackQuotes, FeedbackContext, FeedbackOptions, generateValidated, getFeedbackContext } from "@/app/utils/feedbackGeneration";
+import { SchemaIssue } from "@/app/utils/schemaValidation";
+import { CHUNK_CHAR_LIMIT, splitIntoChunks } from "@/app/utils/chunking";
+import { findSectionsAbout, getSectionText } from "@/app/utils/sections";
+import { alignRubricEntries } from "@/app/utils/rubric";
+import { redactKnownValues, redactPersonalData, restoreFeedback } from "@/app/utils/redaction";
+
+// Part of the feedback to generate again; everything else is kept as it is
+export type RegenerationTarget =
+  | { type: "examination"; index: number }
+  | { type: "passage"; index: number }
+  | { type: "section"; heading: string };
+
+// Raised when the target doesn't exist in the current feedback or document
+export class RegenerationTargetError extends Error {}
+
+const steering = (instruction?: string): string =>
+  instruction?.trim() ? `\n\nThe instructor asks you to take this into account: ${instruction.trim()}` : '';
+
+/**
+ * The document as sent with a regeneration prompt. Documents that were reviewed in chunks
+ * are sent in part as well: the chunk at the given offset, or else their beginning. The
+ * outline of the whole document is in the system instruction either way.
+ * @param markdownProposal Document text
+ * @param position Offset of the text the prompt is about, if any
+ */
+function documentMessage(markdownProposal: string, position?: number): string {
+  if (markdownProposal.length <= CHUNK_CHAR_LIMIT) return `Here is the document you reviewed:\n\n${markdownProposal}`;
+  const chunks = splitIntoChunks(markdownProposal);
+  const chunk = position !== undefined && position >= 0
+    ? chunks.find(c => position >= c.start && position < c.start + c.text.length)
+    : undefined;
+  return chunk
+    ? `Here is part ${chunk.index + 1} of ${chunks.length} of the document you reviewed, the part the passage is in:\n\n${chunk.text}`
+    : `The document you reviewed is too long to repeat in full. Here is its beginning:\n\n${markdownProposal.substring(0, CHUNK_CHAR_LIMIT)} [...]`;
+}
+
+const buildRequest = (context: FeedbackContext, document: string | null, prompt: string, responseSchema: Schema): GenerateRequest & { responseSchema: Schema } => ({
+  messages: [{ role: "user", text: document ? `${document}\n\n---\n\n${prompt}` : prompt }],
+  systemInstruction: context.systemInstruction,
+  temperature: 0.7,
+  topP: 0.95,
+  topK: 64,
+  maxOutputTokens: 8192,
+  responseSchema
+});
+
+async function regenerateExamination(
+  llm: LLMProvider,
+  context: FeedbackContext,
+  options: FeedbackOptions,
+  current: FeedbackData,
+  index: number,
+  instruction?: string
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const item = current.examination[index];
+  if (!item) throw new RegenerationTargetError(`There is no examination area ${index + 1}`);
+
+  const assessment = (scope: string) => `Your earlier assessment of the examination area "${item.area_of_examination}" was:
+
+${JSON.stringify(item, null, 2)}
+
+Assess this one area again from scratch, ${scope}.${steering(instruction)}
+
+Return a single examination entry as a JSON object. Keep area_of_examination "${item.area_of_examination}"${item.criterion_id ? ` and criterion_id "${item.criterion_id}"` : ''}.`;
+
+  const validate = (value: any): SchemaIssue[] => [
+    ...(item.criterion_id && value.criterion_id !== item.criterion_id
+      ? [{ path: '$.criterion_id', message: `must be "${item.criterion_id}"` }]
+      : []),
+    ...(context.validate ? context.validate({ examination: [value] }, false) : [])
+  ];
+  const schema = context.schema.properties!.examination.items!;
+  const assess = (document: string | null, prompt: string) =>
+    generateValidated(llm, buildRequest(context, document, prompt, schema), { validate });
+
+  const { markdownProposal } = options;
+  const criterionName = options.rubric?.criteria.find(c => c.id === item.criterion_id)?.name;
+  const sections = findSectionsAbout(markdownProposal, [item.area_of_examination, ...(criterionName ? [criterionName] : [])]);
+
+  let result: { value: any; usage: UsageMetadata };
+  if (markdownProposal.length <= CHUNK_CHAR_LIMIT) {
+    result = await assess(documentMessage(markdownProposal), assessment("weighing the whole document"));
+  } else if (sections.length > 0) {
+    // A long document is represented by the sections about this area
+    const text = sections.map(section => markdownProposal.substring(section.start, section.end)).join('\n\n[...]\n\n');
+    result = await assess(
+      `The document you reviewed is too long to repeat in full. Here are its sections on "${item.area_of_examination}":\n\n${text.length > CHUNK_CHAR_LIMIT ? `${text.substring(0, CHUNK_CHAR_LIMIT)} [...]` : text}`,
+      assessment("weighing these sections against the outline of the whole document")
+    );
+  } else {
+    // No section is about this area, so it is assessed on each chunk and the assessments combined, as in the full review
+    const chunks = splitIntoChunks(markdownProposal);
+    const parts: { value: any; usage: UsageMetadata }[] = [];
+    for (const chunk of chunks) {
+      parts.push(await assess(
+        `Here is part ${chunk.index + 1} of ${chunks.length} of the document you reviewed:\n\n${chunk.text}`,
+        assessment("using only the evidence in this part")
+      ));
+    }
+    const combined = await assess(null, assessment(`combining your assessments of each part of the document:
+
+${parts.map((part, i) => `Part ${i + 1}:\n${JSON.stringify(part.value, null, 2)}`).join('\n\n')}
+
+Weigh them into one assessment of the whole document`));
+    result = { value: combined.value, usage: addUsage(...parts.map(part => part.usage), combined.usage) };
+  }
+
+  // The regenerated entry stands on its own, so any panel consensus no longer applies
+  let regenerated: FeedbackExamination = { ...result.value, area_of_examination: item.area_of_examination };
+  if (options.rubric) regenerated = alignRubricEntries(options.rubric, [regenerated])[0];
+  return {
+    feedback: { ...current, examination: current.examination.map((e, i) => i === index ? regenerated : e) },
+    usage: result.usage
+  };
+}
+
+async function regeneratePassage(
+  llm: LLMProvider,
+  context: FeedbackContext,
+  options: FeedbackOptions,
+  current: FeedbackData,
+  index: number,
+  instruction?: string
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const passage = current.passages[index];
+  if (!passage) throw new RegenerationTargetError(`There is no annotation ${index + 1}`);
+
+  const prompt = `Your earlier annotation on this passage was:
+
+Passage: "${passage.referenced_student_text_quote}"
+Annotation: ${passage.feedback}
+
+Write a new annotation for exactly this passage.${steering(instruction)}
+
+Return a single annotation as a JSON object, with the passage unchanged as referenced_student_text_quote.`;
+
+  const position = options.markdownProposal.indexOf(passage.referenced_student_text_quote);
+  const { value, usage } = await generateValidated(
+    llm,
+    buildRequest(context, documentMessage(options.markdownProposal, position >= 0 ? position : passage.anchor?.start), prompt, context.schema.properties!.passages.items!)
+  );
+
+  const regenerated: FeedbackPassage = { ...value, referenced_student_text_quote: passage.referenced_student_text_quote, anchor: passage.anchor };
+  return {
+    feedback: { ...current, passages: current.passages.map((p, i) => i === index ? regenerated : p) },
+    usage
+  };
+}
+
+async function annotateSection(
+  llm: LLMProvider,
+  context: FeedbackContext,
+  options: FeedbackOptions,
+  current: FeedbackData,
+  heading: string,
+  instruction?: string
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const sectionText = getSectionText(options.markdownProposal, heading);
+  if (sectionText === null) throw new RegenerationTargetError(`The document has no section "${heading}"`);
+
+  const sectionKey = normalizeKey(sectionText);
+  const existing = current.passages.filter(p => sectionKey.includes(normalizeKey(p.referenced_student_text_quote)));
+
+  const prompt = `Give more detailed annotations on the section "${heading}":
+
+${sectionText.length > CHUNK_CHAR_LIMIT ? `${sectionText.substring(0, CHUNK_CHAR_LIMIT)} [...]` : sectionText}
+
+${existing.length > 0
+    ? `You already annotated these passages in it; don't repeat them:\n${existing.map(p => `- "${p.referenced_student_text_quote}": ${p.feedback}`).join('\n')}`
+    : 'You have not annotated this section yet.'}${steering(instruction)}
+
+Only quote text from this section. Return a JSON object with the new annotations as "passages".`;
+
+  const schema: Schema = {
+    type: "object",
+    properties: { passages: context.schema.properties!.passages },
+    required: ["passages"]
+  };
+
+  // The section is in the prompt; a long document isn't sent again around it
+  const document = options.markdownProposal.length <= CHUNK_CHAR_LIMIT ? documentMessage(options.markdownProposal) : null;
+  const { value, usage } = await generateValidated(llm, buildRequest(context, document, prompt, schema));
+  return {
+    feedback: { ...current, passages: dedupePassages([...current.passages, ...value.passages]) },
+    usage
+  };
+}
+
+/**
+ * Generates one part of the feedback again and leaves the rest untouched. Personal
+ * data is redacted in everything sent to the model and restored in the result.
+ * @param llm Provider to use
+ * @param options The options the feedback was generated with
+ * @param current Current feedback
+ * @param target Examination area or annotation to redo, or a section to annotate further
+ * @param instruction Optional steering instruction from the instructor
+ * @returns The updated feedback and the usage of this call
+ * @throws RegenerationTargetError if the target doesn't exist
+ */
+export async function regenerateFeedback(
+  llm: LLMProvider,
+  options: FeedbackOptions,
+  current: FeedbackData,
+  target: RegenerationTarget,
+  instruction?: string
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const redaction = redactPersonalData(options.markdownProposal);
+  const result = await regenerateRedacted(
+    llm,
+    { ...options, markdownProposal: redaction.text },
+    redactKnownValues(current, redaction),
+    redactKnownValues(target, redaction),
+    redactKnownValues(instruction, redaction)
+  );
+  return { ...result, feedback: restoreFeedback(result.feedback, redaction, options.markdownProposal) };
+}
+
+async function regenerateRedacted(
+  llm: LLMProvider,
+  options: FeedbackOptions,
+  current: FeedbackData,
+  target: RegenerationTarget,
+  instruction?: string
+): Promise<{ feedback: FeedbackData; usage: UsageMetadata }> {
+  const context = getFeedbackContext(options);
+
+  switch (target.type) {
+    case "examination":
+      return regenerateExamination(llm, context, options, current, target.index, instruction);
+    case "passage":
+      return regeneratePassage(llm, context, options, current, target.index, instruction);
+    case "section": {
+      // New annotations need anchoring like those of the original feedback
+      const result = await annotateSection(llm, context, options, current, target.heading, instruction);
+      const anchored = await anchorFeedbackQuotes(llm, options.markdownProposal, result.feedback);
+      return { feedback: anchored.feedback, usage: addUsage(result.usage, anchored.usage) };
+    }
+  }
+}
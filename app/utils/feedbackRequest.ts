@@ -0,0 +1,82 @@
+/**
+ * Parsing and validation of the request body shared by the feedback routes
+ */
+import { NextResponse } from 'next/server';
+import { DEFAULT_DOCUMENT_TYPE, isDocumentType } from "@/app/utils/documentTypes";
+import { FeedbackOptions } from "@/app/utils/feedbackGeneration";
+import { LLMProvider } from "@/app/utils/llm";
+import { AUTO_LANGUAGE, isOutputLanguage } from "@/app/utils/languages";
+import { getPanelPersonas, ReviewerPersona } from "@/app/utils/panel";
+import { isHarshnessLevel, promptTemplateSchema } from "@/app/utils/promptTemplates";
+import { cacheKey } from "@/app/utils/resultCache";
+import { rubricSchema } from "@/app/utils/rubric";
+import { validateSchema } from "@/app/utils/schemaValidation";
+
+export interface FeedbackRequest {
+  options: FeedbackOptions;
+  // Reviewer personas when a review panel was requested
+  personas: ReviewerPersona[] | null;
+  provider?: string;
+  // Skip the result cache and generate afresh
+  force: boolean;
+}
+
+/**
+ * Reads the feedback options from a request body
+ * @param body Parsed JSON body
+ * @returns The options, or a 400 response describing what is wrong
+ */
+export function parseFeedbackRequest(body: any): FeedbackRequest | NextResponse {
+  const { markdownProposal, assessmentGuidelines, documentType = DEFAULT_DOCUMENT_TYPE, harshness = "tough", rubric, panel, promptTemplate, language = AUTO_LANGUAGE, provider, force = false } = body;
+
+  if (!markdownProposal || (!assessmentGuidelines && !rubric)) {
+    return NextResponse.json({ error: 'Missing document text or guidelines' }, { status: 400 });
+  }
+
+  if (!isDocumentType(documentType)) {
+    return NextResponse.json({ error: `Unknown document type: ${documentType}` }, { status: 400 });
+  }
+
+  if (!isOutputLanguage(language)) {
+    return NextResponse.json({ error: `Unknown output language: ${language}` }, { status: 400 });
+  }
+
+  if (!isHarshnessLevel(harshness)) {
+    return NextResponse.json({ error: `Unknown harshness level: ${harshness}` }, { status: 400 });
+  }
+
+  const rubricIssues = rubric ? validateSchema(rubric, rubricSchema) : [];
+  if (rubricIssues.length > 0) {
+    return NextResponse.json({ error: 'Invalid rubric', details: rubricIssues }, { status: 400 });
+  }
+
+  const templateIssues = promptTemplate ? validateSchema(promptTemplate, promptTemplateSchema) : [];
+  if (templateIssues.length > 0) {
+    return NextResponse.json({ error: 'Invalid prompt template', details: templateIssues }, { status: 400 });
+  }
+
+  const personas = panel ? getPanelPersonas(panel) : null;
+  if (panel && !personas) {
+    return NextResponse.json({ error: 'A review panel needs at least two known reviewers' }, { status: 400 });
+  }
+
+  return {
+    options: { markdownProposal, assessmentGuidelines, documentType, harshness, rubric, promptTemplate, language },
+    personas,
+    provider,
+    force: force === true
+  };
+}
+
+/**
+ * Cache key for a feedback result: the document, guidelines, every option that
+ * shapes the prompt, and the model that answers it
+ */
+export function feedbackCacheKey({ options, personas }: FeedbackRequest, llm: LLMProvider): string {
+  return cacheKey({
+    ...options,
+    panel: personas?.map(persona => persona.id),
+    provider: llm.name,
+    model: llm.model
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Highlighting of text spans, shared by the annotated document in Step 3 and the
+ * side-by-side overlap view
+ */
+import type { ReactNode } from "react";
+
+export interface HighlightSpan {
+  // Character offsets into the text (end is exclusive)
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits a text into plain and highlighted segments in document order. Where spans
+ * overlap, the later highlight starts where the earlier one ends.
+ * @param text Full text
+ * @param spans Spans to highlight, in any order
+ * @param renderSpan Renders the highlighted part of a span; give the element a key
+ * @param renderText Renders the plain text between spans, called in document order
+ */
+export function highlightSpans<T extends HighlightSpan>(
+  text: string,
+  spans: T[],
+  renderSpan: (span: T, highlighted: string) => ReactNode,
+  renderText: (from: number, to: number) => ReactNode[] = (from, to) => to > from ? [text.substring(from, to)] : []
+): ReactNode[] {
+  const segments: ReactNode[] = [];
+  let position = 0;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(span.start, position);
+    if (span.end <= start) continue;
+    segments.push(...renderText(position, start));
+    segments.push(renderSpan(span, text.substring(start, span.end)));
+    position = span.end;
+  }
+  segments.push(...renderText(position, text.length));
+  return segments;
+}
@@ -0,0 +1,69 @@
+/**
+ * Output languages for feedback, and a light-weight guess of the document's language
+ */
+
+export interface OutputLanguage {
+  id: string;
+  label: string;
+}
+
+export const AUTO_LANGUAGE = "auto";
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { id: AUTO_LANGUAGE, label: "Same as the document" },
+  { id: "en", label: "English" },
+  { id: "de", label: "German" },
+  { id: "es", label: "Spanish" },
+  { id: "fr", label: "French" },
+  { id: "nl", label: "Dutch" },
+  { id: "it", label: "Italian" },
+  { id: "pt", label: "Portuguese" }
+];
+
+export const isOutputLanguage = (id: unknown): id is string =>
+  typeof id === "string" && OUTPUT_LANGUAGES.some(language => language.id === id);
+
+// Frequent function words; a document's language is the one whose words occur most
+const STOP_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "that", "for", "with", "this", "are", "on", "as", "be", "by"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "mit", "den", "von", "zu", "ein", "eine", "auf", "sich", "für"],
+  es: ["el", "la", "de", "que", "y", "los", "las", "en", "del", "una", "por", "con", "para", "es", "se"],
+  fr: ["le", "la", "les", "de", "des", "et", "est", "une", "du", "que", "dans", "pour", "pas", "sur", "qui"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "te", "voor", "met", "zijn", "ook", "wordt"],
+  it: ["il", "la", "di", "che", "e", "per", "una", "del", "della", "sono", "non", "con", "gli", "nel", "le"],
+  pt: ["o", "a", "de", "que", "e", "do", "da", "em", "um", "uma", "para", "com", "não", "os", "dos"]
+};
+
+// Words sampled, and how clearly the winner must lead to count as detected
+const SAMPLE_WORDS = 2000;
+const MIN_HITS = 20;
+const MIN_LEAD = 1.3;
+
+/**
+ * Guesses the language of a text from its function words
+ * @returns A language ID from OUTPUT_LANGUAGES, or null when unclear
+ */
+export function detectLanguage(text: string): string | null {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean).slice(0, SAMPLE_WORDS);
+  const ranked = Object.entries(STOP_WORDS)
+    .map(([id, stopWords]) => {
+      const set = new Set(stopWords);
+      return { id, hits: words.filter(word => set.has(word)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = ranked;
+  return best.hits >= MIN_HITS && best.hits >= second.hits * MIN_LEAD ? best.id : null;
+}
+
+/**
+ * Names the language the output should be written in, for use in prompts
+ * @param language Language ID, or "auto" to follow the document
+ * @param text Document text, used to resolve "auto"
+ */
+export function describeOutputLanguage(language: string | undefined, text: string): string {
+  const id = !language || language === AUTO_LANGUAGE ? detectLanguage(text) : language;
+  const label = OUTPUT_LANGUAGES.find(l => l.id === id && id !== AUTO_LANGUAGE)?.label;
+  if (!label) return "the same language as the document";
+  return !language || language === AUTO_LANGUAGE ? `${label} (the language of the document)` : label;
+}
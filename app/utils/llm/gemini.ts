@@ -0,0 +1,116 @@
+import {
+  GoogleGenAI,
+  Type,
+  HarmCategory,
+  HarmBlockThreshold,
+  Schema as GeminiSchema,
+  GenerateContentResponseUsageMetadata
+} from "@google/genai";
+import { GenerateRequest, GenerateResult, LLMProvider, Schema, UsageMetadata } from "./types";
+
+// Define safety settings using imported enums
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+const typeMap: Record<Schema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+// Convert our neutral schema into the shape Gemini's responseSchema expects
+export function toGeminiSchema(schema: Schema): GeminiSchema {
+  const result: GeminiSchema = { type: typeMap[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.nullable) result.nullable = true;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return result;
+}
+
+/**
+ * Creates a provider backed by Google's Gemini API
+ * @param apiKey Gemini API key (from the request header or GEMINI_API_KEY)
+ * @param model Gemini model name
+ */
+export function createGeminiProvider(apiKey: string, model: string): LLMProvider {
+  const ai = new GoogleGenAI({apiKey});
+
+  // Map our request onto Gemini's generateContent parameters
+  const toParams = (request: GenerateRequest) => ({
+    model,
+    contents: request.messages.map(message => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [{ text: message.text }]
+    })),
+    config: {
+      safetySettings: safetySettings,
+      temperature: request.temperature,
+      topP: request.topP,
+      topK: request.topK,
+      maxOutputTokens: request.maxOutputTokens,
+      systemInstruction: request.systemInstruction,
+      ...(request.responseSchema ? {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.responseSchema)
+      } : {})
+    }
+  });
+
+  const toUsage = (usage: GenerateContentResponseUsageMetadata = {}): UsageMetadata => ({
+    promptTokenCount: usage.promptTokenCount,
+    candidatesTokenCount: usage.candidatesTokenCount,
+    totalTokenCount: usage.totalTokenCount
+  });
+
+  return {
+    name: "gemini",
+    model,
+    async generate(request: GenerateRequest): Promise<GenerateResult> {
+      const response = await ai.models.generateContent(toParams(request));
+
+      // Log important parts for debugging
+      console.log("Response candidates:", response.candidates);
+      console.log("Response promptFeedback:", response.promptFeedback);
+
+      return {
+        text: response.text ?? "",
+        usage: toUsage(response.usageMetadata)
+      };
+    },
+    async stream(request: GenerateRequest, onText: (delta: string) => void): Promise<GenerateResult> {
+      const responseStream = await ai.models.generateContentStream(toParams(request));
+
+      let text = "";
+      let usage: UsageMetadata = {};
+      for await (const chunk of responseStream) {
+        const delta = chunk.text ?? "";
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        // Usage is reported on the final chunk
+        if (chunk.usageMetadata) usage = toUsage(chunk.usageMetadata);
+      }
+
+      return { text, usage };
+    },
+    async countTokens(text: string): Promise<number> {
+      const response = await ai.models.countTokens({ model, contents: text });
+      return response.totalTokens ?? 0;
+    }
+  };
+}
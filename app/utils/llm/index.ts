@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { LLMProvider, ProviderName, UsageMetadata } from "./types";
+
+export * from "./types";
+export * from "./models";
+
+const PROVIDER_NAMES: ProviderName[] = ["gemini", "openai"];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === "string" && PROVIDER_NAMES.includes(value as ProviderName);
+
+// Function to get API key from request headers or environment variable
+const getGeminiApiKey = (request: NextRequest): string => {
+  // Get auth method from headers (if sent from client)
+  const authMethod = request.headers.get('x-auth-method');
+  const apiKeyFromRequest = request.headers.get('x-gemini-api-key');
+
+  // Only use the API key from request if it exists and auth method is api_key
+  if (authMethod === 'api_key' && apiKeyFromRequest) {
+    return apiKeyFromRequest;
+  }
+
+  // For password auth method or if no auth method specified, use env variable
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is not set and no API key provided in request.");
+  }
+
+  return apiKey;
+};
+
+/**
+ * Lists the providers this server can use. Gemini is always listed since users
+ * may bring their own key; the OpenAI-compatible backend needs OPENAI_BASE_URL.
+ */
+export function getAvailableProviders(): ProviderName[] {
+  return PROVIDER_NAMES.filter(name => name !== "openai" || !!process.env.OPENAI_BASE_URL);
+}
+
+/**
+ * The provider used when a request doesn't ask for one (LLM_PROVIDER, default gemini)
+ */
+export function getDefaultProvider(): ProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  return isProviderName(configured) ? configured : "gemini";
+}
+
+/**
+ * Resolves the LLM provider for a request
+ * @param request Incoming request (used for the per-user Gemini API key)
+ * @param options Requested provider name (falls back to server config) and the Gemini model to use
+ * @returns A ready-to-use provider
+ */
+export function getProvider(request: NextRequest, options: { provider?: string; geminiModel: string }): LLMProvider {
+  const name = options.provider ?? getDefaultProvider();
+
+  if (!isProviderName(name) || !getAvailableProviders().includes(name)) {
+    throw new Error(`LLM provider "${name}" is not available on this server.`);
+  }
+
+  if (name === "openai") {
+    return createOpenAIProvider({
+      baseUrl: process.env.OPENAI_BASE_URL as string,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL || "llama3.1"
+    });
+  }
+
+  return createGeminiProvider(getGeminiApiKey(request), options.geminiModel);
+}
+
+/**
+ * Adds up token usage from several calls
+ */
+export function addUsage(...usages: UsageMetadata[]): UsageMetadata {
+  const sum = (key: keyof UsageMetadata) => usages.reduce((total, usage) => total + (usage[key] || 0), 0);
+  return {
+    promptTokenCount: sum("promptTokenCount"),
+    candidatesTokenCount: sum("candidatesTokenCount"),
+    totalTokenCount: sum("totalTokenCount")
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Context windows and list prices of the models the app uses, for cost estimates
+ */
+import { ProviderName } from "./types";
+
+export interface ModelInfo {
+  // Input plus output tokens the model accepts in one request
+  contextWindow: number;
+  // USD per million tokens; null when unknown
+  inputPerMillion: number | null;
+  outputPerMillion: number | null;
+}
+
+// Gemini list prices (paid tier, prompts up to 200k tokens)
+const GEMINI_MODELS: Record<string, ModelInfo> = {
+  "gemini-2.5-pro-preview-03-25": { contextWindow: 1048576, inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gemini-2.0-flash-lite": { contextWindow: 1048576, inputPerMillion: 0.075, outputPerMillion: 0.3 }
+};
+
+const parsePrice = (value: string | undefined, fallback: number | null): number | null => {
+  const price = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(price) ? price : fallback;
+};
+
+/**
+ * Looks up a model's context window and prices
+ * @returns The model's info, or null for an unknown Gemini model
+ */
+export function getModelInfo(provider: ProviderName, model: string): ModelInfo | null {
+  if (provider === "openai") {
+    // The endpoint may be self-hosted or paid, so the price is unknown unless configured
+    return {
+      contextWindow: parseInt(process.env.OPENAI_CONTEXT_WINDOW || '', 10) || 131072,
+      inputPerMillion: parsePrice(process.env.OPENAI_INPUT_PRICE, null),
+      outputPerMillion: parsePrice(process.env.OPENAI_OUTPUT_PRICE, null)
+    };
+  }
+  return GEMINI_MODELS[model] ?? null;
+}
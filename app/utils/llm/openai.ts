@@ -0,0 +1,124 @@
+import { GenerateRequest, GenerateResult, LLMProvider, Schema, UsageMetadata } from "./types";
+
+interface OpenAIConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Convert our neutral schema into standard JSON Schema for `response_format`
+export function toJsonSchema(schema: Schema): Record<string, any> {
+  const result: Record<string, any> = {
+    type: schema.nullable ? [schema.type, "null"] : schema.type
+  };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+}
+
+/**
+ * Creates a provider for any OpenAI-compatible chat completions endpoint
+ * (OpenAI itself, or a self-hosted Ollama / llama.cpp server)
+ * @param config Base URL (including /v1), optional API key and model name
+ */
+export function createOpenAIProvider(config: OpenAIConfig): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  // POST a chat completion request and return the raw response
+  const post = async (request: GenerateRequest, stream: boolean): Promise<Response> => {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: "system", content: request.systemInstruction }] : []),
+      ...request.messages.map(message => ({ role: message.role, content: message.text }))
+    ];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: request.temperature,
+        top_p: request.topP,
+        max_tokens: request.maxOutputTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(request.responseSchema ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema: toJsonSchema(request.responseSchema) }
+          }
+        } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error (${response.status}): ${errorText}`);
+    }
+
+    return response;
+  };
+
+  const toUsage = (usage: any): UsageMetadata => ({
+    promptTokenCount: usage?.prompt_tokens,
+    candidatesTokenCount: usage?.completion_tokens,
+    totalTokenCount: usage?.total_tokens
+  });
+
+  return {
+    name: "openai",
+    model: config.model,
+    async generate(request: GenerateRequest): Promise<GenerateResult> {
+      const data = await (await post(request, false)).json();
+      return {
+        text: data.choices?.[0]?.message?.content ?? "",
+        usage: toUsage(data.usage)
+      };
+    },
+    async stream(request: GenerateRequest, onText: (delta: string) => void): Promise<GenerateResult> {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("OpenAI-compatible API returned an empty stream.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let text = "";
+      let usage: UsageMetadata = {};
+
+      // The response is a server-sent event stream of `data: {...}` lines ending with `data: [DONE]`
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+
+          const data = JSON.parse(payload);
+          const delta = data.choices?.[0]?.delta?.content ?? "";
+          if (delta) {
+            text += delta;
+            onText(delta);
+          }
+          if (data.usage) usage = toUsage(data.usage);
+        }
+      }
+
+      return { text, usage };
+    }
+  };
+}
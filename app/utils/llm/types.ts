@@ -0,0 +1,55 @@
+/**
+ * Provider-neutral types shared by all LLM backends
+ */
+
+export type ProviderName = "gemini" | "openai";
+
+// JSON-schema-like description of structured output. Providers translate this
+// into their own format (Gemini `Type` enums, OpenAI `json_schema`).
+export interface Schema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: { [key: string]: Schema };
+  items?: Schema;
+  required?: string[];
+}
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface GenerateRequest {
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  // When set, the provider is asked to return JSON matching this schema
+  responseSchema?: Schema;
+}
+
+// Token counts, named after Gemini's usageMetadata since the client already reads those
+export interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage: UsageMetadata;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  // Same as generate, but calls onText with each piece of text as it arrives
+  stream(request: GenerateRequest, onText: (delta: string) => void): Promise<GenerateResult>;
+  // Counts the tokens of a text with the model's tokenizer, where the backend offers it
+  countTokens?(text: string): Promise<number>;
+}
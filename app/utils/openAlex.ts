@@ -0,0 +1,160 @@
+// OpenAlex API endpoint for works (papers)
+export const OPENALEX_API = "https://api.openalex.org/works";
+
+// Add your email address in the User-Agent header as recommended by OpenAlex
+export const OPENALEX_HEADERS = {
+  'User-Agent': 'AcademicFeedbackAssistant/1.0 (mailto:support@academicfeedback.app)'
+};
+
+export interface Paper {
+  paperId: string;
+  title: string;
+  abstract?: string;
+  url: string;
+  venue?: string;
+  year?: number;
+  authors: Array<{
+    authorId: string;
+    name: string;
+  }>;
+  publicationDate?: string;
+  citationCount?: number;
+}
+
+export interface RecentPapersResult {
+  query: string;
+  papers: Paper[];
+  total: number;
+}
+
+// Thrown when OpenAlex answers with a non-2xx status
+export class OpenAlexError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Map an OpenAlex work onto our Paper shape
+export function toPaper(paper: any): Paper {
+  return {
+    paperId: paper.id || '',
+    title: paper.title || 'Untitled Paper',
+    abstract: paper.abstract || '',
+    url: paper.doi ? `https://doi.org/${paper.doi}` : (paper.open_access?.oa_url || ''),
+    venue: paper.primary_location?.source?.display_name || '',
+    year: paper.publication_year || null,
+    authors: (paper.authorships || []).map((authorship: any) => ({
+      authorId: authorship.author?.id || '',
+      name: authorship.author?.display_name || 'Unknown Author'
+    })),
+    publicationDate: paper.publication_date || '',
+    citationCount: paper.cited_by_count || 0
+  };
+}
+
+/**
+ * Finds up to four well-cited papers from the last six months for the first search term
+ * @param searchTerms Search terms, e.g. from generateSearchTerms
+ * @returns The query used, the papers found and OpenAlex's total hit count
+ */
+export async function findRecentPapers(searchTerms: string[]): Promise<RecentPapersResult> {
+  // Get the primary search term (first one)
+  const query = searchTerms[0];
+  
+  // If the query is empty or too short, return empty result
+  if (!query || query.trim().length < 3) {
+    return {
+      query: query || "",
+      papers: [],
+      total: 0
+    };
+  }
+  
+  // Calculate date 6 months ago for filtering recent papers
+  const today = new Date();
+  const sixMonthsAgo = new Date();
+  sixMonthsAgo.setMonth(today.getMonth() - 6);
+  const fromDate = sixMonthsAgo.toISOString().split('T')[0]; // Format as YYYY-MM-DD
+  
+  // Build OpenAlex API URL with parameters
+  const params = new URLSearchParams({
+    search: query,
+    filter: `from_publication_date:${fromDate}`,
+    sort: 'relevance_score:desc',
+    per_page: '10',  // Request more to filter for best results
+  });
+  
+  const apiUrl = `${OPENALEX_API}?${params.toString()}`;
+  
+  console.log(`Querying OpenAlex with: ${query}, from date: ${fromDate}`);
+  
+  const response = await fetch(apiUrl, { headers: OPENALEX_HEADERS });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`OpenAlex API error (${response.status}): ${errorText}`);
+    throw new OpenAlexError(response.status, `OpenAlex API error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  
+  // Format and filter papers from OpenAlex response
+  let papers: Paper[] = (data.results || []).map(toPaper);
+  
+  // Filter papers to ensure we have good quality results
+  papers = papers
+    // Ensure we have a paper with a title and URL
+    .filter((paper: Paper) => 
+      paper.title && 
+      paper.url && 
+      (paper.abstract || paper.venue) // Must have either abstract or venue
+    )
+    // Sort by most cited first, recent date as tiebreaker
+    .sort((a: Paper, b: Paper) => {
+      const citeDiff = (b.citationCount || 0) - (a.citationCount || 0);
+      if (citeDiff !== 0) return citeDiff;
+      
+      // If citation count is the same, sort by date
+      const dateA = a.publicationDate ? new Date(a.publicationDate) : new Date(0);
+      const dateB = b.publicationDate ? new Date(b.publicationDate) : new Date(0);
+      return dateB.getTime() - dateA.getTime();
+    })
+    // Take only the top 4
+    .slice(0, 4);
+  
+  return {
+    query,
+    papers,
+    total: data.meta?.count || 0
+  };
+}
+
+/**
+ * Looks up a single work by its DOI
+ * @returns The OpenAlex work, or null if OpenAlex doesn't know the DOI
+ */
+export async function getWorkByDoi(doi: string): Promise<any | null> {
+  const response = await fetch(`${OPENALEX_API}/https://doi.org/${encodeURIComponent(doi)}`, { headers: OPENALEX_HEADERS });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    console.error(`OpenAlex API error (${response.status}) for DOI ${doi}`);
+    throw new OpenAlexError(response.status, `OpenAlex API error: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Full-text search for works, best matches first
+ * @param query Search text, e.g. a title
+ * @param perPage Number of works to return
+ */
+export async function searchWorks(query: string, perPage: number = 5): Promise<any[]> {
+  const params = new URLSearchParams({ search: query, per_page: String(perPage) });
+  const response = await fetch(`${OPENALEX_API}?${params.toString()}`, { headers: OPENALEX_HEADERS });
+  if (!response.ok) {
+    console.error(`OpenAlex API error (${response.status}) searching for: ${query}`);
+    throw new OpenAlexError(response.status, `OpenAlex API error: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.results || [];
+}
@@ -0,0 +1,194 @@
+/**
+ * Text overlap between submissions of a batch: documents are split into word shingles,
+ * and runs of shingles two documents share are reported as overlapping spans.
+ * Runs locally; no text leaves the server.
+ */
+import { findReferenceSection } from "./references";
+
+// Words per shingle; shorter runs of shared words are common phrasing rather than copying
+const SHINGLE_WORDS = 8;
+
+// Overlapping spans shorter than this are not reported
+const MIN_SPAN_WORDS = 15;
+
+// Pairs sharing fewer words than this are not reported
+const MIN_PAIR_WORDS = 30;
+
+// Shingles found in more than this share of a batch (of at least MIN_COMMON_BATCH
+// documents) are taken from the assignment template and ignored
+const MAX_COMMON_SHARE = 0.5;
+const MIN_COMMON_BATCH = 4;
+
+// Occurrences of one shingle looked at per document, so repeated phrases stay cheap
+const MAX_OCCURRENCES = 5;
+
+export interface OverlapDocument {
+  id: string;
+  name: string;
+  markdown: string;
+}
+
+// Character offsets into a document's text (end is exclusive)
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface OverlapSpan {
+  a: TextSpan;
+  b: TextSpan;
+  words: number;
+}
+
+export interface OverlapPair {
+  a: string;
+  b: string;
+  // Words of each document covered by shared spans, and their share of its words
+  sharedWordsA: number;
+  sharedWordsB: number;
+  coverageA: number;
+  coverageB: number;
+  spans: OverlapSpan[];
+}
+
+export interface OverlapReport {
+  pairs: OverlapPair[];
+  // Shingles ignored because most of the batch shares them
+  commonShingles: number;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Words of the text outside its reference list, which students citing the same sources share legitimately
+function extractWords(markdown: string): Word[] {
+  const references = findReferenceSection(markdown);
+  const words: Word[] = [];
+  for (const match of markdown.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index!;
+    if (references && start >= references.start && start < references.end) continue;
+    words.push({ text: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return words;
+}
+
+// 32-bit FNV-1a
+function hashShingle(words: Word[], from: number): number {
+  let hash = 0x811c9dc5;
+  for (let index = from; index < from + SHINGLE_WORDS; index++) {
+    const text = words[index].text;
+    for (let char = 0; char < text.length; char++) {
+      hash = Math.imul(hash ^ text.charCodeAt(char), 0x01000193);
+    }
+    hash = Math.imul(hash ^ 0x20, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Shingle positions of each document, by shingle hash
+function indexShingles(documents: Word[][]): Map<number, Map<number, number[]>> {
+  const index = new Map<number, Map<number, number[]>>();
+  documents.forEach((words, document) => {
+    for (let position = 0; position + SHINGLE_WORDS <= words.length; position++) {
+      const hash = hashShingle(words, position);
+      const byDocument = index.get(hash) ?? new Map<number, number[]>();
+      const positions = byDocument.get(document) ?? [];
+      if (positions.length < MAX_OCCURRENCES) positions.push(position);
+      byDocument.set(document, positions);
+      index.set(hash, byDocument);
+    }
+  });
+  return index;
+}
+
+// Joins shingle matches on the same diagonal into runs and turns them into spans
+function matchesToSpans(matches: [number, number][], wordsA: Word[], wordsB: Word[]): OverlapSpan[] {
+  matches.sort((x, y) => (x[0] - x[1]) - (y[0] - y[1]) || x[0] - y[0]);
+  const spans: OverlapSpan[] = [];
+  let run: { i: number; j: number; length: number } | null = null;
+  const flush = () => {
+    if (!run) return;
+    const words = run.length + SHINGLE_WORDS - 1;
+    if (words >= MIN_SPAN_WORDS) {
+      spans.push({
+        a: { start: wordsA[run.i].start, end: wordsA[run.i + words - 1].end },
+        b: { start: wordsB[run.j].start, end: wordsB[run.j + words - 1].end },
+        words
+      });
+    }
+  };
+  for (const [i, j] of matches) {
+    if (run && i - j === run.i - run.j && i === run.i + run.length) {
+      run.length++;
+      continue;
+    }
+    flush();
+    run = { i, j, length: 1 };
+  }
+  flush();
+  return spans.sort((x, y) => x.a.start - y.a.start);
+}
+
+// Words of the document inside at least one span
+function coveredWords(words: Word[], spans: TextSpan[]): number {
+  return words.filter(word => spans.some(span => word.start >= span.start && word.end <= span.end)).length;
+}
+
+/**
+ * Compares every pair of documents in a batch
+ * @param documents Submissions with their extracted text
+ * @returns Pairs that share enough text, most overlapping first
+ */
+export function detectOverlap(documents: OverlapDocument[]): OverlapReport {
+  const words = documents.map(document => extractWords(document.markdown));
+  const index = indexShingles(words);
+  const maxDocuments = documents.length >= MIN_COMMON_BATCH ? Math.floor(documents.length * MAX_COMMON_SHARE) : documents.length;
+
+  // Shingle matches per document pair, keyed "a:b" with a < b
+  const pairMatches = new Map<string, [number, number][]>();
+  let commonShingles = 0;
+  index.forEach(byDocument => {
+    if (byDocument.size < 2) return;
+    if (byDocument.size > maxDocuments) {
+      commonShingles++;
+      return;
+    }
+    const entries = Array.from(byDocument.entries());
+    for (let x = 0; x < entries.length; x++) {
+      for (let y = x + 1; y < entries.length; y++) {
+        const [[a, positionsA], [b, positionsB]] = entries[x][0] < entries[y][0] ? [entries[x], entries[y]] : [entries[y], entries[x]];
+        const key = `${a}:${b}`;
+        const matches = pairMatches.get(key) ?? [];
+        positionsA.forEach(i => positionsB.forEach(j => matches.push([i, j])));
+        pairMatches.set(key, matches);
+      }
+    }
+  });
+
+  const pairs: OverlapPair[] = [];
+  pairMatches.forEach((matches, key) => {
+    const [a, b] = key.split(':').map(Number);
+    const spans = matchesToSpans(matches, words[a], words[b]);
+    if (spans.length === 0) return;
+    const sharedWordsA = coveredWords(words[a], spans.map(span => span.a));
+    const sharedWordsB = coveredWords(words[b], spans.map(span => span.b));
+    if (Math.max(sharedWordsA, sharedWordsB) < MIN_PAIR_WORDS) return;
+    pairs.push({
+      a: documents[a].id,
+      b: documents[b].id,
+      sharedWordsA,
+      sharedWordsB,
+      coverageA: sharedWordsA / words[a].length,
+      coverageB: sharedWordsB / words[b].length,
+      spans
+    });
+  });
+
+  return {
+    pairs: pairs.sort((x, y) => Math.max(y.coverageA, y.coverageB) - Math.max(x.coverageA, x.coverageB)),
+    commonShingles
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Review panel: several reviewer personas and how their feedback is combined
+ */
+import { compareTwoStrings } from 'string-similarity';
+import {
+  AssessmentCategory,
+  CATEGORY_RANK,
+  examinationKey,
+  FeedbackData,
+  FeedbackExamination,
+  FeedbackPassage,
+  normalizeKey
+} from "./feedback";
+
+export interface ReviewerPersona {
+  id: string;
+  name: string;
+  // Added to the system prompt to steer the reviewer
+  focus: string;
+}
+
+export interface ReviewerFeedback {
+  reviewer: ReviewerPersona;
+  feedback: FeedbackData;
+}
+
+export const REVIEWER_PERSONAS: ReviewerPersona[] = [
+  {
+    id: "methodologist",
+    name: "Methodologist",
+    focus: "Focus on research design, methods, data, validity and whether the conclusions follow from the evidence."
+  },
+  {
+    id: "domain_expert",
+    name: "Domain Expert",
+    focus: "Focus on the substance: originality, positioning in the literature, theoretical grounding and significance for the field."
+  },
+  {
+    id: "writing_coach",
+    name: "Writing Coach",
+    focus: "Focus on structure, argumentation, clarity, academic style and how well the text guides the reader."
+  },
+  {
+    id: "devils_advocate",
+    name: "Devil's Advocate",
+    focus: "Challenge the core claims: look for unstated assumptions, alternative explanations and the strongest objections a critical examiner would raise."
+  }
+];
+
+export const getPersona = (id: string): ReviewerPersona | undefined =>
+  REVIEWER_PERSONAS.find(persona => persona.id === id);
+
+/**
+ * Resolves the persona IDs sent by the client
+ * @returns The personas, or null unless at least two known, distinct reviewers were given
+ */
+export function getPanelPersonas(ids: unknown): ReviewerPersona[] | null {
+  if (!Array.isArray(ids)) return null;
+  const personas = Array.from(new Set(ids))
+    .map(id => typeof id === "string" ? getPersona(id) : undefined)
+    .filter((persona): persona is ReviewerPersona => !!persona);
+  return personas.length >= 2 && personas.length === ids.length ? personas : null;
+}
+
+// Quotes this similar (or one containing the other) count as the same passage
+const PASSAGE_SIMILARITY_THRESHOLD = 0.7;
+
+const samePassage = (a: string, b: string): boolean => {
+  const keyA = normalizeKey(a);
+  const keyB = normalizeKey(b);
+  return keyA.includes(keyB) || keyB.includes(keyA) || compareTwoStrings(keyA, keyB) >= PASSAGE_SIMILARITY_THRESHOLD;
+};
+
+// Median of the ratings, taking the lower (stricter) middle value on ties
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+};
+
+// Merge passages flagged by several reviewers into one, attributing each comment
+function mergePanelPassages(reviews: ReviewerFeedback[]): FeedbackPassage[] {
+  const merged: { passage: FeedbackPassage; reviewers: string[]; comments: string[]; guidelines: string[] }[] = [];
+
+  for (const { reviewer, feedback } of reviews) {
+    for (const passage of feedback.passages) {
+      const existing = merged.find(m => samePassage(m.passage.referenced_student_text_quote, passage.referenced_student_text_quote));
+      const comment = `${reviewer.name}: ${passage.feedback}`;
+      if (existing) {
+        // Keep the longer quote so the highlight covers what every reviewer meant
+        if (passage.referenced_student_text_quote.length > existing.passage.referenced_student_text_quote.length) {
+          existing.passage = { ...existing.passage, referenced_student_text_quote: passage.referenced_student_text_quote, anchor: passage.anchor };
+        }
+        if (!existing.reviewers.includes(reviewer.name)) existing.reviewers.push(reviewer.name);
+        existing.comments.push(comment);
+        if (passage.quote_from_marking_guidelines) existing.guidelines.push(passage.quote_from_marking_guidelines);
+      } else {
+        merged.push({
+          passage,
+          reviewers: [reviewer.name],
+          comments: [comment],
+          guidelines: passage.quote_from_marking_guidelines ? [passage.quote_from_marking_guidelines] : []
+        });
+      }
+    }
+  }
+
+  return merged.map(m => ({
+    referenced_student_text_quote: m.passage.referenced_student_text_quote,
+    feedback: m.comments.join('\n\n'),
+    quote_from_marking_guidelines: Array.from(new Set(m.guidelines)).join('\n\n') || undefined,
+    reviewers: m.reviewers,
+    anchor: m.passage.anchor
+  }));
+}
+
+// Combine every reviewer's rating of one area into a consensus entry
+function aggregateArea(entries: { reviewer: ReviewerPersona; item: FeedbackExamination }[]): FeedbackExamination {
+  const ranks = entries.map(e => Math.max(0, CATEGORY_RANK.indexOf(e.item.assesment_category)));
+  const consensusCategory: AssessmentCategory = CATEGORY_RANK[median(ranks)];
+  const spread = Math.max(...ranks) - Math.min(...ranks);
+
+  const scores = entries.map(e => e.item.score).filter((score): score is number => typeof score === "number");
+  const scoredEntry = scores.length > 0
+    ? entries.find(e => e.item.score === median(scores))
+    : undefined;
+
+  const labelled = (text: string | undefined, reviewer: ReviewerPersona) => text ? `${reviewer.name}: ${text}` : '';
+
+  return {
+    area_of_examination: entries[0].item.area_of_examination,
+    assessment_comment: entries.map(e => labelled(e.item.assessment_comment, e.reviewer)).filter(Boolean).join('\n\n'),
+    "suggestion for improvement": entries.map(e => labelled(e.item["suggestion for improvement"], e.reviewer)).filter(Boolean).join('\n\n') || undefined,
+    assesment_category: consensusCategory,
+    ...(scoredEntry ? {
+      criterion_id: scoredEntry.item.criterion_id,
+      level: scoredEntry.item.level,
+      score: scoredEntry.item.score
+    } : {}),
+    consensus: {
+      ratings: entries.map(e => ({ reviewer: e.reviewer.name, category: e.item.assesment_category, score: e.item.score })),
+      agreement: entries.filter(e => e.item.assesment_category === consensusCategory).length / entries.length,
+      disagreement: spread === 0 ? "none" : spread === 1 ? "some" : "high"
+    }
+  };
+}
+
+/**
+ * Aggregates the reviewers' feedback into a consensus. Examination areas are matched
+ * by rubric criterion (or area name) and rated by the median category; passages raised
+ * by several reviewers are merged and attributed.
+ * @param reviews Feedback from each reviewer
+ * @returns Consensus feedback in the usual FeedbackData shape
+ */
+export function aggregatePanel(reviews: ReviewerFeedback[]): FeedbackData {
+  const areas = new Map<string, { reviewer: ReviewerPersona; item: FeedbackExamination }[]>();
+  for (const { reviewer, feedback } of reviews) {
+    for (const item of feedback.examination) {
+      const key = examinationKey(item);
+      areas.set(key, [...(areas.get(key) || []), { reviewer, item }]);
+    }
+  }
+
+  return {
+    overall_feedback: reviews
+      .map(({ reviewer, feedback }) => `${reviewer.name}:\n${feedback.overall_feedback}`)
+      .join('\n\n'),
+    passages: mergePanelPassages(reviews),
+    examination: Array.from(areas.values()).map(aggregateArea)
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Helpers for reading structured output while it is still being streamed
+ */
+
+/**
+ * Returns the objects of a top-level array property that are already complete
+ * in a partial JSON document, e.g. the finished entries of `"passages": [...]`
+ * while the model is still writing the rest of the response.
+ * @param text JSON received so far (may be cut off anywhere)
+ * @param key Name of an array property on the root object
+ * @returns Parsed items, in order
+ */
+export function extractCompletedArrayItems(text: string, key: string): any[] {
+  const items: any[] = [];
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let currentKey: string | null = null; // Key of the root property currently being read
+  let arrayDepth = -1; // Depth inside the target array, -1 when not inside it
+  let itemStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        lastString = text.substring(stringStart + 1, i);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        break;
+      case ':':
+        if (depth === 1) currentKey = lastString;
+        break;
+      case ',':
+        if (depth === 1) currentKey = null;
+        break;
+      case '{':
+      case '[':
+        if (char === '[' && depth === 1 && currentKey === key) {
+          arrayDepth = depth + 1;
+        } else if (char === '{' && depth === arrayDepth) {
+          itemStart = i;
+        }
+        depth++;
+        break;
+      case '}':
+      case ']':
+        depth--;
+        if (char === '}' && depth === arrayDepth && itemStart >= 0) {
+          try {
+            items.push(JSON.parse(text.substring(itemStart, i + 1)));
+          } catch {
+            // Skip items that aren't valid JSON on their own
+          }
+          itemStart = -1;
+        } else if (char === ']' && depth === arrayDepth - 1) {
+          arrayDepth = -1;
+        }
+        break;
+    }
+  }
+
+  return items;
+}
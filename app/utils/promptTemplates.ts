@@ -0,0 +1,163 @@
+/**
+ * Prompt templates: the reviewer's voice as an editable, versioned system prompt
+ * with {{variables}} filled in for each request
+ */
+import { Schema } from "./llm/types";
+
+export const HARSHNESS_LEVELS = ["mild", "tough", "extremely_tough"] as const;
+export type HarshnessLevel = typeof HARSHNESS_LEVELS[number];
+
+export const isHarshnessLevel = (level: unknown): level is HarshnessLevel =>
+  typeof level === "string" && (HARSHNESS_LEVELS as readonly string[]).includes(level);
+
+export interface PromptTemplateContent {
+  body: string;
+  // Text substituted for {{harshness}} at each level
+  harshness: Record<HarshnessLevel, string>;
+}
+
+export interface PromptTemplateVersion extends PromptTemplateContent {
+  version: number;
+  savedAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Built-in templates can't be edited, only copied
+  builtIn?: boolean;
+  versions: PromptTemplateVersion[];
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: "document_type", description: "Description of the document, e.g. \"a first year phd student's thesis proposal\"" },
+  { name: "document_name", description: "Short name of the document type, e.g. \"research proposal\"" },
+  { name: "expected_sections", description: "Sections a complete document of this type usually has" },
+  { name: "harshness", description: "The template's text for the selected harshness level" },
+  { name: "guidelines", description: "Marking guidelines and rubric (appended at the end if the template doesn't use it)" },
+  { name: "language", description: "Language the feedback should be written in" }
+];
+
+export type TemplateVariables = Record<string, string>;
+
+// Used when a request has no harshness level we know
+const FALLBACK_HARSHNESS = "Be constructive in your feedback applying high academic standards.";
+
+const DEFAULT_HARSHNESS: Record<HarshnessLevel, string> = {
+  mild: "Be constructive and encouraging in your feedback while still pointing out areas for improvement.",
+  tough: "Be constructive but firm in your feedback, applying high academic standards.",
+  extremely_tough: "Be very hard but constructive in your feedback, applying the highest academic standards. Be nit-picky and detail-oriented."
+};
+
+const QUOTE_INSTRUCTIONS = "Please provide overall feedback plus sentence/paragraph specific annotations. For the annotations, please reference the FULL quote from the document that your annotation belongs to. Do NOT abbreviate with ... in between. ALWAYS return the full quote.";
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "professor";
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_PROMPT_TEMPLATE_ID,
+    name: "Professor (default)",
+    builtIn: true,
+    versions: [{
+      version: 1,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      harshness: DEFAULT_HARSHNESS,
+      body: `You are a professor that provides feedback on {{document_type}}.
+
+{{harshness}}
+
+A complete {{document_name}} usually has these sections: {{expected_sections}}. Point out sections that are missing or underdeveloped.
+
+${QUOTE_INSTRUCTIONS}
+
+Here are your marking guidelines:
+
+{{guidelines}}`
+    }]
+  },
+  {
+    id: "socratic",
+    name: "Socratic supervisor",
+    builtIn: true,
+    versions: [{
+      version: 1,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      harshness: {
+        mild: "Keep your questions gentle and encouraging, and acknowledge what already works.",
+        tough: "Ask probing questions that expose weak reasoning, and hold the work to high academic standards.",
+        extremely_tough: "Ask searching, uncomfortable questions about every unsupported claim, applying the highest academic standards."
+      },
+      body: `You are a supervisor giving feedback on {{document_type}}. Be Socratic: ask questions that lead the student to see the problems themselves rather than prescribing fixes.
+
+{{harshness}}
+
+A complete {{document_name}} usually has these sections: {{expected_sections}}. Ask about sections that are missing or underdeveloped.
+
+${QUOTE_INSTRUCTIONS}
+
+Here are your marking guidelines:
+
+{{guidelines}}`
+    }]
+  }
+];
+
+// Shape of a template sent by the client
+export const promptTemplateSchema: Schema = {
+  type: "object",
+  properties: {
+    body: { type: "string" },
+    harshness: {
+      type: "object",
+      properties: Object.fromEntries(HARSHNESS_LEVELS.map(level => [level, { type: "string" } as Schema])),
+      required: [...HARSHNESS_LEVELS]
+    }
+  },
+  required: ["body", "harshness"]
+};
+
+export const latestVersion = (template: PromptTemplate): PromptTemplateVersion =>
+  template.versions[template.versions.length - 1];
+
+export const getDefaultPromptTemplate = (): PromptTemplateContent =>
+  latestVersion(BUILT_IN_TEMPLATES[0]);
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Lists the {{variables}} a template body uses that we don't know how to fill
+ */
+export function findUnknownVariables(body: string): string[] {
+  const known = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+  const unknown = Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]).filter(name => !known.has(name));
+  return Array.from(new Set(unknown));
+}
+
+/**
+ * Fills in a template for one request
+ * @param template Template body and harshness texts
+ * @param harshness Selected harshness level
+ * @param variables Values for the other variables
+ * @returns The system prompt; unknown variables are left as they are
+ */
+export function renderPromptTemplate(
+  template: PromptTemplateContent,
+  harshness: string,
+  variables: TemplateVariables
+): string {
+  const values: TemplateVariables = {
+    ...variables,
+    harshness: isHarshnessLevel(harshness) ? template.harshness[harshness] : FALLBACK_HARSHNESS
+  };
+
+  const rendered = template.body.replace(VARIABLE_PATTERN, (match, name: string) => values[name] ?? match);
+
+  const used = new Set(Array.from(template.body.matchAll(VARIABLE_PATTERN), match => match[1]));
+  // The output language is chosen by the user, so it applies even when the template doesn't mention it
+  const withLanguage = used.has("language") || !values.language
+    ? rendered
+    : `${rendered}\n\nWrite all of your feedback in ${values.language}. Keep the JSON field names and fixed values such as assesment_category exactly as specified.`;
+
+  // The guidelines carry the rubric instructions, so they must reach the model
+  return used.has("guidelines") || !values.guidelines ? withLanguage : `${withLanguage}\n\nHere are your marking guidelines:\n\n${values.guidelines}`;
+}
@@ -0,0 +1,221 @@
+/**
+ * Quote anchoring: locates the passages quoted in feedback in the document text,
+ * giving exact character offsets and a confidence score
+ */
+import { FeedbackPassage, QuoteAnchor } from "./feedback";
+
+// Below this confidence a quote is not considered found
+export const MIN_ANCHOR_CONFIDENCE = 0.8;
+
+// Quotes shorter than this (after normalisation) match too many places to anchor
+const MIN_QUOTE_LENGTH = 8;
+
+// Seeds looked up per quote, and occurrences considered per seed
+const MAX_SEEDS = 12;
+const MAX_SEED_OCCURRENCES = 50;
+
+// Candidate regions aligned in full for each quote
+const MAX_CANDIDATES = 3;
+
+// Text normalised for matching, with the original offset of every character
+interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...'
+};
+
+// Markdown emphasis that models usually leave out of quotes
+const IGNORED_CHARACTERS = new Set(['*', '_', '`']);
+
+// Lower-cases, unifies quotes and dashes, drops emphasis markers and collapses whitespace
+function normalize(text: string): NormalizedText {
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (IGNORED_CHARACTERS.has(char)) continue;
+    if (/\s/.test(char)) {
+      if (chars.length > 0 && chars[chars.length - 1] !== ' ') {
+        chars.push(' ');
+        offsets.push(index);
+      }
+      continue;
+    }
+    for (const replaced of (CHARACTER_REPLACEMENTS[char] ?? char).toLowerCase()) {
+      chars.push(replaced);
+      offsets.push(index);
+    }
+  }
+  if (chars[chars.length - 1] === ' ') {
+    chars.pop();
+    offsets.pop();
+  }
+  return { text: chars.join(''), offsets };
+}
+
+// Maps a span of the normalised text back to offsets in the original text
+const toOriginal = (document: NormalizedText, start: number, end: number) => ({
+  start: document.offsets[start],
+  end: document.offsets[end - 1] + 1
+});
+
+/**
+ * Best approximate occurrence of a pattern within text[from, to), by edit distance
+ * with free start and end in the text (semi-global alignment)
+ */
+function alignInWindow(pattern: string, text: string, from: number, to: number): { start: number; end: number; distance: number } {
+  const m = pattern.length;
+  let cost = Array.from({ length: m + 1 }, (_, i) => i);
+  let origin = new Array<number>(m + 1).fill(from);
+  let best = { start: from, end: from, distance: m };
+
+  for (let j = from; j < to; j++) {
+    const nextCost = new Array<number>(m + 1);
+    const nextOrigin = new Array<number>(m + 1);
+    nextCost[0] = 0;
+    nextOrigin[0] = j + 1;
+    for (let i = 1; i <= m; i++) {
+      const substitution = cost[i - 1] + (pattern[i - 1] === text[j] ? 0 : 1);
+      const skipText = cost[i] + 1;
+      const skipPattern = nextCost[i - 1] + 1;
+      if (substitution <= skipText && substitution <= skipPattern) {
+        nextCost[i] = substitution;
+        nextOrigin[i] = origin[i - 1];
+      } else if (skipText <= skipPattern) {
+        nextCost[i] = skipText;
+        nextOrigin[i] = origin[i];
+      } else {
+        nextCost[i] = skipPattern;
+        nextOrigin[i] = nextOrigin[i - 1];
+      }
+    }
+    cost = nextCost;
+    origin = nextOrigin;
+    if (cost[m] < best.distance) best = { start: origin[m], end: j + 1, distance: cost[m] };
+  }
+  return best;
+}
+
+// Runs of consecutive words of the quote with their offset in it
+function wordRuns(words: string[], runLength: number): { text: string; offset: number }[] {
+  const runs: { text: string; offset: number }[] = [];
+  let offset = 0;
+  for (let index = 0; index + runLength <= words.length; index++) {
+    runs.push({ text: words.slice(index, index + runLength).join(' '), offset });
+    offset += words[index].length + 1;
+  }
+  return runs;
+}
+
+// Where the quote probably starts, estimated from exact occurrences of its words
+function candidateStarts(quote: string, document: string): number[] {
+  const words = quote.split(' ');
+  const estimates: number[] = [];
+  // Three-word runs are distinctive; single words catch quotes with errors every few words
+  for (const runLength of words.length >= 3 ? [3, 1] : [1]) {
+    const runs = wordRuns(words, runLength).filter(run => run.text.length >= 4);
+    // Spread the seeds over the whole quote, since its start or end may be misquoted
+    const step = Math.max(1, Math.ceil(runs.length / MAX_SEEDS));
+    for (const seed of runs.filter((_, index) => index % step === 0)) {
+      let found = document.indexOf(seed.text);
+      for (let count = 0; found !== -1 && count < MAX_SEED_OCCURRENCES; count++) {
+        estimates.push(found - seed.offset);
+        found = document.indexOf(seed.text, found + 1);
+      }
+    }
+    if (estimates.length > 0) break;
+  }
+
+  // Seeds that agree on a start position vote for it
+  const tolerance = Math.max(8, Math.floor(quote.length / 4));
+  const clusters: { start: number; votes: number }[] = [];
+  for (const estimate of estimates.sort((a, b) => a - b)) {
+    const last = clusters[clusters.length - 1];
+    if (last && estimate - last.start <= tolerance) last.votes++;
+    else clusters.push({ start: estimate, votes: 1 });
+  }
+  return clusters
+    .sort((a, b) => b.votes - a.votes)
+    .slice(0, MAX_CANDIDATES)
+    .map(cluster => cluster.start);
+}
+
+// Closest match of an already normalised quote, or null when nothing resembles it
+function alignNormalized(quote: string, document: NormalizedText, taken: QuoteAnchor[]): QuoteAnchor | null {
+  if (quote.length < MIN_QUOTE_LENGTH) return null;
+
+  // Verbatim occurrences first, preferring one no other passage is anchored to
+  let firstExact: QuoteAnchor | null = null;
+  for (let found = document.text.indexOf(quote); found !== -1; found = document.text.indexOf(quote, found + 1)) {
+    const anchor = { ...toOriginal(document, found, found + quote.length), confidence: 1 };
+    if (!taken.some(t => t.start === anchor.start)) return anchor;
+    firstExact ??= anchor;
+  }
+  if (firstExact) return firstExact;
+
+  let best: QuoteAnchor | null = null;
+  for (const start of candidateStarts(quote, document.text)) {
+    const from = Math.max(0, start - Math.floor(quote.length / 2));
+    const to = Math.min(document.text.length, start + Math.ceil(quote.length * 1.5));
+    const match = alignInWindow(quote, document.text, from, to);
+    const confidence = Math.max(0, 1 - match.distance / quote.length);
+    if (match.end > match.start && (!best || confidence > best.confidence)) {
+      best = { ...toOriginal(document, match.start, match.end), confidence: Math.round(confidence * 100) / 100 };
+    }
+  }
+  return best;
+}
+
+// Quotes that skip text with an ellipsis are anchored by their first and last part
+function alignQuoteIn(quote: string, document: NormalizedText, taken: QuoteAnchor[] = []): QuoteAnchor | null {
+  const normalized = normalize(quote).text;
+  const parts = normalized.split(/\s*(?:\.\.\.|\[\.\.\.\])\s*/).filter(part => part.length > 0);
+  if (parts.length <= 1) return alignNormalized(parts[0] ?? '', document, taken);
+
+  const first = alignNormalized(parts[0], document, taken);
+  const last = alignNormalized(parts[parts.length - 1], document, taken);
+  if (!first || !last || last.start < first.end || last.start - first.end > normalized.length * 3) {
+    return alignNormalized(normalized, document, taken);
+  }
+  return { start: first.start, end: last.end, confidence: Math.min(first.confidence, last.confidence) };
+}
+
+/**
+ * Finds the span of the document that best matches a quote, however weak the match
+ * @returns The closest span, or null when no part of the quote occurs in the document
+ */
+export function alignQuote(quote: string, documentText: string): QuoteAnchor | null {
+  return alignQuoteIn(quote, normalize(documentText));
+}
+
+/**
+ * Anchors a quote to the document
+ * @returns Offsets and confidence, or null if the quote can't be found with at least MIN_ANCHOR_CONFIDENCE
+ */
+export function anchorQuote(quote: string, documentText: string): QuoteAnchor | null {
+  const anchor = alignQuote(quote, documentText);
+  return anchor && anchor.confidence >= MIN_ANCHOR_CONFIDENCE ? anchor : null;
+}
+
+/**
+ * Anchors every passage that doesn't have an anchor yet. Passages whose quote can't
+ * be found are returned without one.
+ * @param passages Feedback passages
+ * @param documentText Text the quotes were taken from
+ */
+export function anchorPassages(passages: FeedbackPassage[], documentText: string): FeedbackPassage[] {
+  if (passages.every(p => p.anchor)) return passages;
+  const document = normalize(documentText);
+  const taken = passages.flatMap(p => p.anchor ? [p.anchor] : []);
+  return passages.map(passage => {
+    if (passage.anchor) return passage;
+    const anchor = alignQuoteIn(passage.referenced_student_text_quote, document, taken);
+    if (!anchor || anchor.confidence < MIN_ANCHOR_CONFIDENCE) return passage;
+    taken.push(anchor);
+    return { ...passage, anchor };
+  });
+}
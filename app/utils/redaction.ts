@@ -0,0 +1,196 @@
+/**
+ * Redaction of personal data before document text is sent to an LLM provider.
+ * Names, email addresses, student IDs and phone numbers are replaced with stable
+ * placeholders ([NAME_1], [EMAIL_1], ...). The mapping back to the real values stays
+ * on the server and is used to restore them in the model's output.
+ */
+import { FeedbackData } from "@/app/utils/feedback";
+import { anchorPassages } from "@/app/utils/quoteAnchoring";
+
+export const PII_KINDS = ["name", "email", "id", "phone"] as const;
+export type PiiKind = typeof PII_KINDS[number];
+
+export interface Replacement {
+  kind: PiiKind;
+  placeholder: string;
+  value: string;
+}
+
+export interface Redaction {
+  text: string;
+  // Never sent to a provider or the client
+  replacements: Replacement[];
+}
+
+// Set PII_REDACTION=off to send documents unchanged
+export const isRedactionEnabled = (): boolean => process.env.PII_REDACTION !== 'off';
+
+// Told to the model whenever the document contains placeholders
+export const PLACEHOLDER_NOTE = "Personal details in the document (names, email addresses, IDs and phone numbers) have been replaced with placeholders such as [NAME_1]. Copy placeholders exactly as written when quoting, and don't comment on them.";
+
+const NAME_TOKEN = String.raw`\p{Lu}[\p{L}'’-]+`;
+const INITIAL = String.raw`\p{Lu}\.`;
+const PERSON = String.raw`(?:(?:${NAME_TOKEN}|${INITIAL})[ \t]+){0,3}${NAME_TOKEN}`;
+// Courtesy titles come before a name: "Dr. Jane Doe", "Prof. Dr. Max Müller", "Frau Müller"
+const TITLE = String.raw`(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Professor|Herr|Frau)\.?`;
+const TITLED_PERSON = String.raw`(?:${TITLE}[ \t]+)*${PERSON}`;
+const PERSON_LIST = String.raw`${TITLED_PERSON}(?:[ \t]*(?:,|;|&|\band\b|\bund\b)[ \t]*${TITLED_PERSON})*`;
+const LEADING_TITLES = new RegExp(String.raw`^(?:${TITLE}[ \t]+)+`, 'u');
+
+// Matches a label in any letter case (the "i" flag would make \p{Lu} match lower case too)
+const anyCase = (label: string): string =>
+  label.replace(/\p{L}/gu, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`);
+
+// Lines that introduce people on a title page: "Name: Jane Doe", "Submitted by Jane Doe and John Roe"
+const COLON_LABELS = [
+  "name", "student name", "full name", "author", "authors", "student", "students", "candidate",
+  "supervisor", "supervisors", "first supervisor", "second supervisor", "examiner", "advisor", "tutor",
+  "verfasser", "verfasserin", "autor", "autorin", "betreuer", "betreuerin", "gutachter", "gutachterin"
+];
+const BY_LABELS = ["submitted by", "prepared by", "written by", "supervised by", "by", "verfasst von", "vorgelegt von"];
+const NAME_LINE = new RegExp(
+  String.raw`^[ \t>#*_-]*(?:(?:${COLON_LABELS.map(anyCase).join('|')})[*_]*[ \t]*[:：]|(?:${BY_LABELS.map(anyCase).join('|')}))[*_]*[ \t]*(${PERSON_LIST})[*_ \t.]*$`,
+  'gmu'
+);
+
+// A name anywhere in the text that follows a courtesy title
+const HONORIFIC = new RegExp(String.raw`\b(?:${TITLE}\s+)+(${PERSON})`, 'gu');
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// Labelled IDs ("Student ID: 1234567", "Matrikelnummer 123456") and student account IDs ("s1234567")
+const LABELLED_ID = /\b(?:student\s*(?:id|number|no\.?)|matriculation\s*(?:number|no\.?)|matric\.?\s*no\.?|matrikel(?:nummer|nr\.?)?|registration\s*(?:number|no\.?)|id)\s*[:#]?\s*((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{3,})\b/gi;
+const ACCOUNT_ID = /\b[A-Za-z]{1,2}\d{6,9}\b/g;
+
+// Phone numbers start with a country code, an area code in brackets or a trunk 0
+const PHONE = /(?<![\w+])(?:\+\d{1,3}|\(0\d{1,4}\)|0\d{1,4})(?:[\s./-]?\d{2,5}){2,5}(?!\w)/g;
+const PHONE_DIGITS = { min: 8, max: 15 };
+
+const PLACEHOLDER = /\[?\b(NAME|EMAIL|ID|PHONE)_(\d+)\b\]?/g;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Personal values in the text, with the position they first occur at
+function findPersonalData(text: string): { kind: PiiKind; value: string; index: number }[] {
+  const found: { kind: PiiKind; value: string; index: number }[] = [];
+  const add = (kind: PiiKind, value: string, index: number) => found.push({ kind, value: value.trim(), index });
+
+  for (const match of text.matchAll(EMAIL)) add("email", match[0], match.index!);
+  for (const match of text.matchAll(LABELLED_ID)) add("id", match[1], match.index! + match[0].lastIndexOf(match[1]));
+  for (const match of text.matchAll(ACCOUNT_ID)) add("id", match[0], match.index!);
+  for (const match of text.matchAll(PHONE)) {
+    const digits = match[0].replace(/\D/g, '').length;
+    if (digits >= PHONE_DIGITS.min && digits <= PHONE_DIGITS.max) add("phone", match[0], match.index!);
+  }
+
+  const addNames = (names: string, index: number) => {
+    for (const titled of names.split(/\s*(?:,|;|&|\band\b|\bund\b)\s*/u).filter(Boolean)) {
+      const name = titled.replace(LEADING_TITLES, '');
+      add("name", name, index + names.indexOf(name));
+      // Surnames and first names also appear on their own later in the text
+      for (const part of name.split(/\s+/)) {
+        if (new RegExp(`^${NAME_TOKEN}$`, 'u').test(part) && part.length >= 3) add("name", part, index + names.indexOf(part));
+      }
+    }
+  };
+  for (const match of text.matchAll(NAME_LINE)) addNames(match[1], match.index! + match[0].indexOf(match[1]));
+  for (const match of text.matchAll(HONORIFIC)) addNames(match[1], match.index! + match[0].indexOf(match[1]));
+
+  return found;
+}
+
+/**
+ * Replaces personal data in a text with placeholders. The same text always gives the
+ * same placeholders, so separate calls for one document stay consistent.
+ * @param text Document text
+ * @returns The redacted text and the replacements made (none when redaction is off)
+ */
+export function redactPersonalData(text: string): Redaction {
+  if (!isRedactionEnabled()) return { text, replacements: [] };
+
+  // Number the values by kind in order of first occurrence
+  const values = new Map<string, { kind: PiiKind; index: number }>();
+  for (const { kind, value, index } of findPersonalData(text)) {
+    const existing = values.get(value);
+    if (!existing || index < existing.index) values.set(value, { kind: existing?.kind ?? kind, index });
+  }
+  const counters: Record<PiiKind, number> = { name: 0, email: 0, id: 0, phone: 0 };
+  const replacements: Replacement[] = Array.from(values.entries())
+    .sort((a, b) => a[1].index - b[1].index)
+    .map(([value, { kind }]) => ({ kind, value, placeholder: `[${kind.toUpperCase()}_${++counters[kind]}]` }));
+
+  return { text: applyReplacements(text, replacements), replacements };
+}
+
+// Replaces whole occurrences of each value, longest first so "Jane Doe" wins over "Doe"
+function applyReplacements(text: string, replacements: Replacement[]): string {
+  return [...replacements]
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((redacted, { value, placeholder }) =>
+      redacted.replace(new RegExp(`(?<![\\p{L}\\p{N}@.])${escapeRegExp(value)}(?![\\p{L}\\p{N}@])`, 'gu'), placeholder), text);
+}
+
+// Applies a function to every string in a JSON-like value
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Redacts personal data for good, for text whose values are never restored, such as
+ * the markers' exemplars in a rubric. Placeholders carry no number ("[NAME]"), so
+ * they can't be mistaken for those of the document.
+ */
+export function anonymizePersonalData(text: string): string {
+  const { replacements } = redactPersonalData(text);
+  return applyReplacements(text, replacements.map(r => ({ ...r, placeholder: `[${r.kind.toUpperCase()}]` })));
+}
+
+/**
+ * Redacts the values found in the document wherever else they appear, e.g. in
+ * earlier feedback or an instructor's message sent along with the document
+ */
+export function redactKnownValues<T>(value: T, redaction: Redaction): T {
+  if (redaction.replacements.length === 0) return value;
+  return mapStrings(value, text => applyReplacements(text, redaction.replacements));
+}
+
+/**
+ * Puts the real values back in place of the placeholders, in every string of a value
+ */
+export function restorePersonalData<T>(value: T, redaction: Redaction): T {
+  if (redaction.replacements.length === 0) return value;
+  const byPlaceholder = new Map(redaction.replacements.map(r => [r.placeholder, r.value]));
+  return mapStrings(value, text =>
+    text.replace(PLACEHOLDER, (placeholder, kind, number) => byPlaceholder.get(`[${kind}_${number}]`) ?? placeholder));
+}
+
+/**
+ * Restores the real values in feedback and anchors its quotes in the original text,
+ * since offsets found in the redacted text don't apply to it
+ * @param feedback Feedback generated from the redacted text
+ * @param redaction The redaction of the document
+ * @param originalText The document as the student wrote it
+ */
+export function restoreFeedback(feedback: FeedbackData, redaction: Redaction, originalText: string): FeedbackData {
+  if (redaction.replacements.length === 0) return feedback;
+  const restored = restorePersonalData(feedback, redaction);
+  return {
+    ...restored,
+    passages: anchorPassages(restored.passages.map(({ anchor, ...passage }) => passage), originalText)
+  };
+}
+
+/**
+ * Whether a text contains redaction placeholders
+ */
+export const hasPlaceholders = (text: string): boolean => new RegExp(PLACEHOLDER.source).test(text);
+
+/**
+ * Removes redaction placeholders from a text, e.g. before extracting keywords from it
+ */
+export const removePlaceholders = (text: string): string => text.replace(PLACEHOLDER, ' ');
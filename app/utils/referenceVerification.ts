@@ -0,0 +1,149 @@
+import { compareTwoStrings } from 'string-similarity';
+import { getWorkByDoi, searchWorks } from "@/app/utils/openAlex";
+import { mapWithConcurrency } from "@/app/utils/concurrency";
+import {
+  citesReference,
+  findInTextCitations,
+  findReferenceSection,
+  normalizeName,
+  parseReferenceList,
+  ReferenceEntry,
+  ReferenceMatch,
+  ReferenceReport,
+  VerifiedReference
+} from "@/app/utils/references";
+
+// Title similarity above which a search result is taken to be the referenced work
+const MIN_TITLE_SIMILARITY = 0.8;
+
+// Below this similarity a DOI is taken to point to a different work than the one cited
+const MIN_DOI_TITLE_SIMILARITY = 0.5;
+
+// Keeps OpenAlex happy (its polite pool allows ~10 requests per second)
+const CONCURRENT_LOOKUPS = 4;
+
+// Long bibliographies are cut off rather than making hundreds of requests
+const MAX_REFERENCES = 150;
+
+const normalizeTitle = (title: string): string =>
+  title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const titleSimilarity = (a: string, b: string): number =>
+  compareTwoStrings(normalizeTitle(a), normalizeTitle(b));
+
+const toMatch = (work: any): ReferenceMatch => ({
+  openAlexId: work.id || '',
+  title: work.title || work.display_name || 'Untitled',
+  year: work.publication_year || undefined,
+  authors: (work.authorships || []).map((a: any) => a.author?.display_name).filter(Boolean),
+  doi: work.doi ? String(work.doi).replace(/^https?:\/\/doi\.org\//i, '') : undefined
+});
+
+// Best search result for an entry's title, if any is close enough
+async function findByTitle(entry: ReferenceEntry): Promise<ReferenceMatch | null> {
+  if (!entry.title || entry.title.length < 10) return null;
+  const works = await searchWorks(entry.title);
+  const best = works
+    .map(work => ({ work, similarity: titleSimilarity(entry.title!, work.title || '') }))
+    .sort((a, b) => b.similarity - a.similarity)[0];
+  return best && best.similarity >= MIN_TITLE_SIMILARITY ? toMatch(best.work) : null;
+}
+
+// Differences between what the entry says and what OpenAlex knows about the work
+function compareMetadata(entry: ReferenceEntry, match: ReferenceMatch): string[] {
+  const issues: string[] = [];
+  const year = entry.year ? parseInt(entry.year, 10) : undefined;
+  if (year && match.year && year !== match.year) {
+    issues.push(`Year is ${entry.year}, but OpenAlex has ${match.year}`);
+  }
+  if (entry.authors.length > 0 && match.authors.length > 0) {
+    const firstAuthor = normalizeName(entry.authors[0]);
+    const known = match.authors.map(name => name.split(/\s+/).map(normalizeName));
+    if (!known.some(words => words.includes(firstAuthor))) {
+      issues.push(`First author "${entry.authors[0]}" is not among the authors in OpenAlex (${match.authors.slice(0, 3).join(', ')}${match.authors.length > 3 ? ', ...' : ''})`);
+    }
+  }
+  if (entry.title && titleSimilarity(entry.title, match.title) < MIN_TITLE_SIMILARITY) {
+    issues.push(`Title differs from OpenAlex: "${match.title}"`);
+  }
+  return issues;
+}
+
+// Resolves one entry by DOI, falling back to its title
+async function resolveEntry(entry: ReferenceEntry): Promise<Omit<VerifiedReference, "cited">> {
+  const issues: string[] = [];
+
+  if (entry.doi) {
+    const work = await getWorkByDoi(entry.doi);
+    if (work) {
+      const match = toMatch(work);
+      if (entry.title && titleSimilarity(entry.title, match.title) < MIN_DOI_TITLE_SIMILARITY) {
+        // The DOI is probably wrong; see whether the title finds the intended work
+        const byTitle = await findByTitle(entry);
+        return {
+          ...entry,
+          status: "mismatch",
+          issues: [
+            `DOI ${entry.doi} belongs to a different work: "${match.title}"`,
+            ...(byTitle?.doi ? [`The cited title has DOI ${byTitle.doi}`] : [])
+          ],
+          match: byTitle ?? match
+        };
+      }
+      const metadataIssues = compareMetadata(entry, match);
+      return { ...entry, status: metadataIssues.length > 0 ? "mismatch" : "verified", issues: metadataIssues, match };
+    }
+    issues.push(`DOI ${entry.doi} could not be resolved`);
+  }
+
+  const match = await findByTitle(entry);
+  if (!match) {
+    return {
+      ...entry,
+      status: "not_found",
+      issues: [...issues, entry.title ? 'No work with this title was found in OpenAlex' : 'The title could not be read from this entry'],
+      match: null
+    };
+  }
+  if (entry.doi && match.doi) issues.push(`The work found by title has DOI ${match.doi}`);
+  issues.push(...compareMetadata(entry, match));
+  return { ...entry, status: issues.length > 0 ? "mismatch" : "verified", issues, match };
+}
+
+// A failed lookup (rate limit, OpenAlex outage) only leaves its own entry unchecked
+async function verifyEntry(entry: ReferenceEntry): Promise<Omit<VerifiedReference, "cited">> {
+  try {
+    return await resolveEntry(entry);
+  } catch (error: any) {
+    console.error(`Could not verify reference "${entry.raw.substring(0, 80)}":`, error);
+    return { ...entry, status: "unverifiable", issues: [`OpenAlex could not be reached: ${error.message}`], match: null };
+  }
+}
+
+/**
+ * Parses a document's reference list, resolves each entry against OpenAlex and
+ * matches in-text citations to the entries
+ * @param markdownProposal Document text
+ * @returns Report with a status per reference and the citations without a reference;
+ * entries whose lookup failed are marked unverifiable
+ */
+export async function verifyReferences(markdownProposal: string): Promise<ReferenceReport> {
+  const { heading, entries } = parseReferenceList(markdownProposal);
+  const section = findReferenceSection(markdownProposal);
+  const citations = findInTextCitations(markdownProposal, section ?? undefined);
+
+  console.log(`Verifying ${Math.min(entries.length, MAX_REFERENCES)} reference(s) against OpenAlex...`);
+  const verified = await mapWithConcurrency(entries.slice(0, MAX_REFERENCES), CONCURRENT_LOOKUPS, verifyEntry);
+
+  return {
+    sectionHeading: heading,
+    references: verified.map(reference => ({
+      ...reference,
+      cited: citations.some(citation => citesReference(citation, reference))
+    })),
+    // Without a reference list every citation would be flagged, which says nothing new
+    unmatchedCitations: entries.length === 0
+      ? []
+      : citations.filter(citation => !entries.some(entry => citesReference(citation, entry)))
+  };
+}
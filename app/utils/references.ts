@@ -0,0 +1,230 @@
+/**
+ * Reference list checking: parses the bibliography and in-text citations out of the
+ * OCR markdown so each reference can be verified against OpenAlex
+ */
+import { parseHeadings } from "./sections";
+
+export const REFERENCE_STATUSES = ["verified", "mismatch", "not_found", "unverifiable"] as const;
+export type ReferenceStatus = typeof REFERENCE_STATUSES[number];
+
+// One entry of the reference list, as far as it could be parsed
+export interface ReferenceEntry {
+  // Entry text without list markers
+  raw: string;
+  // Number the entry is cited by in numeric styles ([1], 1.)
+  label?: string;
+  // Surnames in order of authorship
+  authors: string[];
+  // Four-digit year, possibly with a disambiguating letter (2019a)
+  year?: string;
+  title?: string;
+  doi?: string;
+}
+
+// The OpenAlex work an entry was resolved to
+export interface ReferenceMatch {
+  openAlexId: string;
+  title: string;
+  year?: number;
+  authors: string[];
+  doi?: string;
+}
+
+export interface VerifiedReference extends ReferenceEntry {
+  status: ReferenceStatus;
+  // What doesn't agree with OpenAlex, or why the entry couldn't be resolved
+  issues: string[];
+  match: ReferenceMatch | null;
+  // Whether any in-text citation points to this entry
+  cited: boolean;
+}
+
+export interface InTextCitation {
+  // The citation as written, e.g. "Smith et al., 2019"
+  text: string;
+  // First author's surname, or the number for numeric citations
+  author: string;
+  year?: string;
+  // Offset in the document text
+  start: number;
+}
+
+export interface ReferenceReport {
+  // Heading of the reference section; null when none was found
+  sectionHeading: string | null;
+  references: VerifiedReference[];
+  // In-text citations with no matching reference entry
+  unmatchedCitations: InTextCitation[];
+}
+
+export const REFERENCE_STATUS_LABELS: Record<ReferenceStatus, string> = {
+  verified: "Verified",
+  mismatch: "Metadata differs",
+  not_found: "Not found",
+  unverifiable: "Could not be checked"
+};
+
+const REFERENCE_HEADING = /^(?:\d+(?:\.\d+)*\.?\s+)?(references?|bibliography|works cited|literature cited|reference list|sources|literatur(?:verzeichnis)?|bibliografie|références|referencias)$/i;
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+const YEAR_IN_PARENS = /\((\d{4}[a-z]?|n\.d\.)\)/;
+const YEAR = /\b((?:19|20)\d{2}[a-z]?)\b/;
+const LIST_MARKER = /^\s*(?:[-*+]\s+|\[(\d+)\]\s*|(\d+)[.)]\s+)/;
+const INITIALS = /^(?:[A-Z]\.?\s*-?\s*)+$/;
+
+// Lower-case surname without diacritics, for comparisons
+export const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z'-]/g, '');
+
+/**
+ * Finds the reference section of a document
+ * @returns Heading and extent of the section, or null when the document has none
+ */
+export function findReferenceSection(markdown: string): { heading: string; start: number; end: number } | null {
+  // The last match wins, since a "Sources" heading can also occur in the body
+  const heading = parseHeadings(markdown).filter(h => REFERENCE_HEADING.test(h.title.replace(/[*_:]/g, '').trim())).pop();
+  if (!heading) return null;
+  const bodyStart = markdown.indexOf('\n', heading.start);
+  return { heading: heading.title, start: bodyStart === -1 ? heading.end : bodyStart + 1, end: heading.end };
+}
+
+// Splits the reference section into entries: blank-line separated blocks, or one per
+// line when the whole list is a single block
+function splitEntries(section: string): string[] {
+  const blocks = section.split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+  const lines = blocks.length > 1 ? blocks : section.split('\n').map(l => l.trim()).filter(Boolean);
+
+  // Lines wrapped by OCR are joined back unless the next one looks like a new entry:
+  // a list marker, "Surname, X", or a year after a line that ended a sentence
+  const entries: string[] = [];
+  for (const line of lines) {
+    const startsEntry = LIST_MARKER.test(line) || /^\p{Lu}[^\s,]+,\s+\p{Lu}/u.test(line) || entries.length === 0;
+    if (startsEntry || (/[.)]$/.test(entries[entries.length - 1]) && YEAR.test(line))) entries.push(line);
+    else entries[entries.length - 1] += ` ${line}`;
+  }
+  return entries;
+}
+
+// Surnames from the author part of an entry ("Smith, J. A., & Lee, B." or "J. Smith and B. Lee")
+function parseAuthors(authorPart: string): string[] {
+  return authorPart
+    .replace(/\bet al\.?/g, '')
+    .split(/,\s*&\s*|\s+&\s+|\s+and\s+|,|;/)
+    .map(part => part.trim().replace(/\.$/, ''))
+    .filter(part => part.length > 1 && !INITIALS.test(part))
+    .map(part => {
+      const words = part.split(/\s+/).filter(word => !INITIALS.test(word));
+      // "J. Smith" has the surname last, "Smith J" first
+      return INITIALS.test(part.split(/\s+/)[0]) ? words[words.length - 1] : words[0];
+    })
+    .filter((name): name is string => !!name && /^\p{Lu}/u.test(name));
+}
+
+/**
+ * Parses one reference entry. Handles author-year styles (APA, Harvard) and the
+ * common numeric styles; fields that can't be found are left undefined.
+ */
+export function parseReference(text: string): ReferenceEntry {
+  const marker = text.match(LIST_MARKER);
+  const raw = text.replace(LIST_MARKER, '').trim();
+  const doiMatch = raw.match(DOI_PATTERN);
+  const doi = doiMatch ? doiMatch[1].replace(/[.,;)\]]+$/, '') : undefined;
+
+  const parenYear = raw.match(YEAR_IN_PARENS);
+  const yearMatch = parenYear ?? raw.match(YEAR);
+  const year = yearMatch && yearMatch[1] !== 'n.d.' ? yearMatch[1] : undefined;
+
+  let authorPart: string;
+  let title: string | undefined;
+  const quoted = raw.match(/["“]([^"”]{10,})["”]/);
+  if (quoted) {
+    // Numeric styles put the title in quotes after the authors
+    authorPart = raw.substring(0, quoted.index);
+    title = quoted[1];
+  } else if (yearMatch?.index !== undefined && yearMatch.index < raw.length / 2) {
+    // Author-year styles: authors, year, then the title up to the next full stop
+    authorPart = raw.substring(0, yearMatch.index);
+    const rest = raw.substring(yearMatch.index + yearMatch[0].length).replace(/^[).,:\s]+/, '');
+    title = rest.split(/(?<=[.?!])\s/)[0];
+  } else {
+    const sentences = raw.split(/(?<=[a-z)]{2}\.)\s/);
+    authorPart = sentences[0];
+    title = sentences[1];
+  }
+  title = title?.replace(/[.,\s]+$/, '').replace(/[*_]/g, '').trim() || undefined;
+
+  return {
+    raw,
+    label: marker?.[1] ?? marker?.[2],
+    authors: parseAuthors(authorPart.replace(/[*_]/g, '')),
+    year,
+    title,
+    doi
+  };
+}
+
+/**
+ * Parses the reference list of a document
+ * @returns The section heading and parsed entries; no entries when there is no reference section
+ */
+export function parseReferenceList(markdown: string): { heading: string | null; entries: ReferenceEntry[] } {
+  const section = findReferenceSection(markdown);
+  if (!section) return { heading: null, entries: [] };
+  const entries = splitEntries(markdown.substring(section.start, section.end))
+    .map(parseReference)
+    .filter(entry => entry.raw.length > 15);
+  return { heading: section.heading, entries };
+}
+
+const PARENTHETICAL = /\(([^()]*?(?:19|20)\d{2}[a-z]?[^()]*)\)/g;
+const NARRATIVE = /(\p{Lu}[\p{L}'’-]+)(?:\s+et al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?\s+\(((?:19|20)\d{2}[a-z]?)(?:[,:][^)]*)?\)/gu;
+const NUMERIC = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+
+// Author and years of one part of a parenthetical citation ("see Smith et al., 2019, 2020a")
+function parseCitationPart(part: string): { author: string; years: string[] } | null {
+  const match = part.trim().match(/^(?:(?:see|e\.g\.|cf\.|also)[,\s]+)*(\p{Lu}[\p{L}'’-]+).*?,?\s+((?:(?:19|20)\d{2}[a-z]?(?:,\s*)?)+)(?:,\s*(?:p|pp)\.?.*)?$/u);
+  if (!match) return null;
+  return { author: match[1], years: match[2].split(/,\s*/).filter(Boolean) };
+}
+
+/**
+ * Finds in-text citations outside the reference section
+ * @param markdown Document text
+ * @param exclude Span to skip, usually the reference section
+ */
+export function findInTextCitations(markdown: string, exclude?: { start: number; end: number }): InTextCitation[] {
+  const citations: InTextCitation[] = [];
+  const outside = (index: number) => !exclude || index < exclude.start || index >= exclude.end;
+
+  for (const match of markdown.matchAll(PARENTHETICAL)) {
+    if (!outside(match.index!)) continue;
+    for (const part of match[1].split(';')) {
+      const parsed = parseCitationPart(part);
+      parsed?.years.forEach(year => citations.push({ text: part.trim(), author: parsed.author, year, start: match.index! }));
+    }
+  }
+  for (const match of markdown.matchAll(NARRATIVE)) {
+    if (!outside(match.index!)) continue;
+    citations.push({ text: match[0], author: match[1], year: match[2], start: match.index! });
+  }
+  for (const match of markdown.matchAll(NUMERIC)) {
+    if (!outside(match.index!)) continue;
+    for (const part of match[1].split(',')) {
+      const [from, to = from] = part.split(/[-–]/).map(n => parseInt(n.trim(), 10));
+      // Ranges longer than this are more likely something other than citations
+      if (to - from > 20) continue;
+      for (let n = from; n <= to; n++) citations.push({ text: match[0], author: String(n), start: match.index! });
+    }
+  }
+  return citations.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether an in-text citation refers to a reference entry
+ */
+export function citesReference(citation: InTextCitation, entry: ReferenceEntry): boolean {
+  if (citation.year === undefined) return entry.label === citation.author;
+  if (!entry.year || entry.authors.length === 0) return false;
+  const sameYear = entry.year === citation.year || (entry.year.length === 4 && citation.year.startsWith(entry.year));
+  return sameYear && normalizeName(entry.authors[0]) === normalizeName(citation.author);
+}
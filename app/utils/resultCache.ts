@@ -0,0 +1,120 @@
+/**
+ * Content-addressed cache for OCR, search term and feedback results, so re-running
+ * the same document with the same options doesn't pay for the same calls again.
+ * Entries are JSON files named by the hash of everything that determines the result.
+ * They hold document text and feedback with real names, so they expire after a while.
+ */
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Bumped when the shape of cached results changes, so old entries are ignored
+const CACHE_VERSION = 1;
+
+// RESULT_CACHE_DIR=off disables the cache
+const CACHE_DIR = process.env.RESULT_CACHE_DIR || path.join(tmpdir(), 'proposal-feedback-cache');
+
+// Entries older than this are ignored and deleted (RESULT_CACHE_TTL_HOURS, one week by default)
+const CACHE_TTL_MS = (Number(process.env.RESULT_CACHE_TTL_HOURS) || 24 * 7) * 60 * 60 * 1000;
+
+// Expired entries are swept at most this often, on the next write
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPrune = 0;
+
+const CACHE_NAMESPACES = ["ocr", "search-terms", "feedback"] as const;
+export type CacheNamespace = typeof CACHE_NAMESPACES[number];
+
+// Sent to the client when a result was served from the cache
+export interface CacheHit {
+  key: string;
+  // When the result was first generated (ISO date)
+  createdAt: string;
+}
+
+interface CacheEntry<T> {
+  version: number;
+  createdAt: string;
+  value: T;
+}
+
+// JSON with object keys sorted, so equal options always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as any)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hashes raw content (e.g. the bytes of an uploaded PDF)
+ */
+export const hashContent = (content: Buffer | string): string =>
+  createHash('sha256').update(content).digest('hex');
+
+/**
+ * Cache key for everything that determines a result
+ * @param parts Inputs, options and model; key order doesn't matter
+ */
+export const cacheKey = (parts: Record<string, unknown>): string =>
+  hashContent(stableStringify({ ...parts, cacheVersion: CACHE_VERSION }));
+
+const entryPath = (namespace: CacheNamespace, key: string) => path.join(CACHE_DIR, namespace, `${key}.json`);
+
+/**
+ * Reads a cached result
+ * @returns The result and when it was created, or null when there is none
+ */
+export async function readCache<T>(namespace: CacheNamespace, key: string): Promise<{ value: T; hit: CacheHit } | null> {
+  if (CACHE_DIR === 'off') return null;
+  try {
+    const entry = JSON.parse(await readFile(entryPath(namespace, key), 'utf8')) as CacheEntry<T>;
+    if (entry.version !== CACHE_VERSION) return null;
+    if (Date.now() - new Date(entry.createdAt).getTime() > CACHE_TTL_MS) {
+      await unlink(entryPath(namespace, key)).catch(() => {});
+      return null;
+    }
+    return { value: entry.value, hit: { key, createdAt: entry.createdAt } };
+  } catch {
+    // Missing or unreadable entries are simply a miss
+    return null;
+  }
+}
+
+// Deletes entries that have outlived the TTL, so the cache doesn't grow without bound
+async function pruneCache(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPrune < PRUNE_INTERVAL_MS) return;
+  lastPrune = now;
+  for (const namespace of CACHE_NAMESPACES) {
+    const directory = path.join(CACHE_DIR, namespace);
+    const files = await readdir(directory).catch(() => [] as string[]);
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        if (now - (await stat(filePath)).mtimeMs > CACHE_TTL_MS) await unlink(filePath);
+      } catch {
+        // Removed by a concurrent prune
+      }
+    }
+  }
+}
+
+/**
+ * Stores a result and sweeps expired entries. Failures are logged but never fail the request.
+ */
+export async function writeCache<T>(namespace: CacheNamespace, key: string, value: T): Promise<void> {
+  if (CACHE_DIR === 'off') return;
+  try {
+    const entry: CacheEntry<T> = { version: CACHE_VERSION, createdAt: new Date().toISOString(), value };
+    await mkdir(path.join(CACHE_DIR, namespace), { recursive: true });
+    await writeFile(entryPath(namespace, key), JSON.stringify(entry));
+    await pruneCache();
+  } catch (error) {
+    console.error(`Failed to write ${namespace} cache entry:`, error);
+  }
+}
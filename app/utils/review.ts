@@ -0,0 +1,207 @@
+/**
+ * Instructor review of AI feedback before it is released to the student. The review
+ * is kept as edits on top of the AI feedback, so the AI original stays available and
+ * every change to it can be listed.
+ */
+import { examinationKey, FeedbackData, FeedbackExamination, FeedbackPassage, normalizeKey } from "./feedback";
+
+export const REVIEW_STATES = ["draft", "reviewed", "released"] as const;
+export type ReviewState = typeof REVIEW_STATES[number];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  draft: "Draft",
+  reviewed: "Reviewed",
+  released: "Released"
+};
+
+export type PassageDecision = "accepted" | "rejected" | "rewritten";
+
+export interface PassageReview {
+  decision: PassageDecision;
+  // The instructor's wording of a rewritten passage
+  feedback?: string;
+}
+
+export type ExaminationReview = Partial<Pick<FeedbackExamination, "assesment_category" | "assessment_comment" | "level" | "score">>;
+
+export interface FeedbackReview {
+  state: ReviewState;
+  // The instructor's overall feedback, once edited
+  overall_feedback?: string;
+  // Decisions on the AI passages, keyed by passageKey
+  passages: Record<string, PassageReview>;
+  // Edited examination areas, keyed by examinationKey
+  examination: Record<string, ExaminationReview>;
+  // Annotations the instructor added
+  added: FeedbackPassage[];
+  updatedAt: string;
+  reviewedAt?: string;
+  releasedAt?: string;
+  // What the student sees; stays as released until the feedback is released again
+  released?: FeedbackData;
+}
+
+export interface ReviewChange {
+  kind: "overall" | "category" | "comment" | "score" | "rejected" | "rewritten" | "added";
+  // The area or quote the change applies to
+  target: string;
+  before?: string;
+  after?: string;
+}
+
+// Passages are keyed by quote, like annotation threads, so decisions survive regeneration of other passages
+export const passageKey = (passage: FeedbackPassage): string => normalizeKey(passage.referenced_student_text_quote);
+
+/**
+ * Starts a review of freshly generated feedback
+ */
+export const createReview = (): FeedbackReview => ({
+  state: "draft",
+  passages: {},
+  examination: {},
+  added: [],
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Applies an edit. Any edit makes the review a draft again; the released version is kept.
+ */
+export const editReview = (review: FeedbackReview, changes: Partial<Pick<FeedbackReview, "overall_feedback" | "passages" | "examination" | "added">>): FeedbackReview => ({
+  ...review,
+  ...changes,
+  state: "draft",
+  updatedAt: new Date().toISOString()
+});
+
+export const decidePassage = (review: FeedbackReview, passage: FeedbackPassage, decision: PassageDecision, feedback?: string): FeedbackReview =>
+  editReview(review, { passages: { ...review.passages, [passageKey(passage)]: decision === "rewritten" ? { decision, feedback } : { decision } } });
+
+/**
+ * Drops the decision on a passage, e.g. after the AI regenerated it
+ */
+export const resetPassage = (review: FeedbackReview, passage: FeedbackPassage): FeedbackReview =>
+  editReview(review, { passages: Object.fromEntries(Object.entries(review.passages).filter(([key]) => key !== passageKey(passage))) });
+
+export const editExamination = (review: FeedbackReview, item: FeedbackExamination, changes: ExaminationReview): FeedbackReview => {
+  const key = examinationKey(item);
+  return editReview(review, { examination: { ...review.examination, [key]: { ...review.examination[key], ...changes } } });
+};
+
+/**
+ * Drops the edits of an examination area, e.g. after the AI regenerated it
+ */
+export const resetExamination = (review: FeedbackReview, item: FeedbackExamination): FeedbackReview =>
+  editReview(review, { examination: Object.fromEntries(Object.entries(review.examination).filter(([key]) => key !== examinationKey(item))) });
+
+export const addAnnotation = (review: FeedbackReview, passage: FeedbackPassage): FeedbackReview =>
+  editReview(review, { added: [...review.added, { ...passage, source: "instructor" }] });
+
+/**
+ * Changes the text of an added annotation, or removes it when feedback is null
+ */
+export const editAnnotation = (review: FeedbackReview, passage: FeedbackPassage, feedback: string | null): FeedbackReview =>
+  editReview(review, {
+    added: review.added.flatMap(p => passageKey(p) !== passageKey(passage) ? [p] : feedback === null ? [] : [{ ...p, feedback }])
+  });
+
+/**
+ * AI passages the instructor hasn't decided on yet
+ */
+export const pendingPassages = (feedback: FeedbackData, review: FeedbackReview): FeedbackPassage[] =>
+  feedback.passages.filter(passage => !review.passages[passageKey(passage)]);
+
+export const acceptPending = (feedback: FeedbackData, review: FeedbackReview): FeedbackReview =>
+  editReview(review, {
+    passages: {
+      ...review.passages,
+      ...Object.fromEntries(pendingPassages(feedback, review).map(passage => [passageKey(passage), { decision: "accepted" as const }]))
+    }
+  });
+
+/**
+ * Moves the review to another state. Releasing freezes the reviewed feedback as the student's version.
+ * @param review Current review
+ * @param state New state
+ * @param feedback The AI feedback the review applies to
+ */
+export function setReviewState(review: FeedbackReview, state: ReviewState, feedback: FeedbackData): FeedbackReview {
+  const now = new Date().toISOString();
+  if (state === "released") return { ...review, state, releasedAt: now, released: applyReview(feedback, review) };
+  if (state === "reviewed") return { ...review, state, reviewedAt: now };
+  return { ...review, state };
+}
+
+/**
+ * The feedback with the instructor's edits applied
+ * @param feedback The AI feedback
+ * @param review Edits to apply
+ * @param options keepRejected keeps rejected passages, for the instructor's own view
+ */
+export function applyReview(feedback: FeedbackData, review: FeedbackReview, options: { keepRejected?: boolean } = {}): FeedbackData {
+  const passages = feedback.passages
+    .filter(passage => options.keepRejected || review.passages[passageKey(passage)]?.decision !== "rejected")
+    .map(passage => {
+      const decision = review.passages[passageKey(passage)];
+      return decision?.decision === "rewritten" && decision.feedback !== undefined ? { ...passage, feedback: decision.feedback } : passage;
+    });
+
+  return {
+    overall_feedback: review.overall_feedback ?? feedback.overall_feedback,
+    passages: [...passages, ...review.added],
+    examination: feedback.examination.map(item => ({ ...item, ...review.examination[examinationKey(item)] }))
+  };
+}
+
+const isFeedbackData = (value: any): value is FeedbackData =>
+  !!value && Array.isArray(value.passages) && Array.isArray(value.examination);
+
+/**
+ * The feedback a student received, read from a single export or one submission of a
+ * batch export: the released version once there is one, otherwise the AI feedback
+ * @returns The feedback, or null when the export holds none
+ */
+export function exportedFeedback(exported: any): FeedbackData | null {
+  if (isFeedbackData(exported?.review?.released)) return exported.review.released;
+  return isFeedbackData(exported?.feedback) ? exported.feedback : null;
+}
+
+/**
+ * Everything the instructor changed compared with the AI original
+ */
+export function listReviewChanges(feedback: FeedbackData, review: FeedbackReview): ReviewChange[] {
+  const changes: ReviewChange[] = [];
+
+  if (review.overall_feedback !== undefined && review.overall_feedback !== feedback.overall_feedback) {
+    changes.push({ kind: "overall", target: "Overall feedback", before: feedback.overall_feedback, after: review.overall_feedback });
+  }
+
+  for (const item of feedback.examination) {
+    const edit = review.examination[examinationKey(item)];
+    if (!edit) continue;
+    const target = item.area_of_examination;
+    if (edit.assesment_category !== undefined && edit.assesment_category !== item.assesment_category) {
+      changes.push({ kind: "category", target, before: item.assesment_category, after: edit.assesment_category });
+    }
+    if (edit.score !== undefined && edit.score !== item.score) {
+      changes.push({ kind: "score", target, before: `${item.level ?? ''} (${item.score ?? '–'} pts)`.trim(), after: `${edit.level ?? ''} (${edit.score} pts)`.trim() });
+    }
+    if (edit.assessment_comment !== undefined && edit.assessment_comment !== item.assessment_comment) {
+      changes.push({ kind: "comment", target, before: item.assessment_comment, after: edit.assessment_comment });
+    }
+  }
+
+  for (const passage of feedback.passages) {
+    const decision = review.passages[passageKey(passage)];
+    const target = passage.referenced_student_text_quote;
+    if (decision?.decision === "rejected") changes.push({ kind: "rejected", target, before: passage.feedback });
+    if (decision?.decision === "rewritten" && decision.feedback !== passage.feedback) {
+      changes.push({ kind: "rewritten", target, before: passage.feedback, after: decision.feedback });
+    }
+  }
+
+  for (const passage of review.added) {
+    changes.push({ kind: "added", target: passage.referenced_student_text_quote, after: passage.feedback });
+  }
+
+  return changes;
+}
@@ -0,0 +1,194 @@
+/**
+ * Revision tracking: compares a resubmitted draft with the previous one and the
+ * feedback it received
+ */
+import { compareTwoStrings } from 'string-similarity';
+import { Schema } from "./llm/types";
+import { AssessmentCategory, FeedbackData, normalizeKey } from "./feedback";
+import { DiffHunk, diffParagraphs, splitParagraphs } from "./textDiff";
+
+export const REVISION_STATUSES = ["addressed", "partly_addressed", "ignored"] as const;
+export type RevisionStatus = typeof REVISION_STATUSES[number];
+
+// What we need from the JSON exported for the previous draft
+export interface PreviousSubmission {
+  // Missing in exports made before the document text was included
+  markdownProposal?: string;
+  feedback: FeedbackData;
+}
+
+// Where an earlier annotation's passage ended up in the new draft
+export interface RevisedPassage {
+  quote: string;
+  feedback: string;
+  // Paragraph(s) of the previous draft containing the quote
+  before: string;
+  // Corresponding text in the new draft; null when it was removed
+  after: string | null;
+  changed: boolean;
+}
+
+export interface PassageRevision extends RevisedPassage {
+  status: RevisionStatus;
+  explanation: string;
+}
+
+export interface ExaminationRevision {
+  area_of_examination: string;
+  previous_category: AssessmentCategory;
+  previous_comment: string;
+  status: RevisionStatus;
+  explanation: string;
+}
+
+export interface RevisionStats {
+  unchanged: number;
+  changed: number;
+  added: number;
+  removed: number;
+}
+
+export interface RevisionReport {
+  summary: string;
+  passages: PassageRevision[];
+  examination: ExaminationRevision[];
+  // Paragraph counts; null when the previous draft's text wasn't available
+  stats: RevisionStats | null;
+}
+
+// Below this similarity a paragraph isn't considered the revised form of a passage
+const MIN_PARAGRAPH_SIMILARITY = 0.5;
+
+// Paragraphs scanned closely for each quote, after a cheap word-overlap ranking
+const CANDIDATE_PARAGRAPHS = 3;
+
+// Best similarity between a quote and any same-length run of words in a paragraph
+function windowSimilarity(quoteKey: string, paragraphKey: string): number {
+  if (paragraphKey.includes(quoteKey)) return 1;
+  const quoteWords = quoteKey.split(' ');
+  const words = paragraphKey.split(' ');
+  if (words.length <= quoteWords.length) return compareTwoStrings(quoteKey, paragraphKey);
+
+  const step = Math.max(1, Math.floor(quoteWords.length / 4));
+  let best = 0;
+  for (let start = 0; start <= words.length - quoteWords.length; start += step) {
+    best = Math.max(best, compareTwoStrings(quoteKey, words.slice(start, start + quoteWords.length).join(' ')));
+  }
+  return best;
+}
+
+// Index of the paragraph that best contains a quote
+function findParagraph(quote: string, paragraphs: string[]): { index: number; similarity: number } {
+  const key = normalizeKey(quote);
+  const quoteWords = new Set(key.split(' '));
+  const candidates = paragraphs
+    .map((paragraph, index) => {
+      const paragraphKey = normalizeKey(paragraph);
+      const overlap = paragraphKey.split(' ').filter(word => quoteWords.has(word)).length / quoteWords.size;
+      return { index, paragraphKey, overlap };
+    })
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, CANDIDATE_PARAGRAPHS);
+
+  let best = { index: -1, similarity: 0 };
+  for (const candidate of candidates) {
+    const similarity = windowSimilarity(key, candidate.paragraphKey);
+    if (similarity > best.similarity) best = { index: candidate.index, similarity };
+  }
+  return best;
+}
+
+/**
+ * Counts paragraphs by how they changed between the drafts
+ */
+export function countChanges(hunks: DiffHunk[]): RevisionStats {
+  const stats: RevisionStats = { unchanged: 0, changed: 0, added: 0, removed: 0 };
+  for (const hunk of hunks) {
+    if (hunk.type === "equal") stats.unchanged += hunk.before.length;
+    else if (hunk.type === "changed") stats.changed += Math.max(hunk.before.length, hunk.after.length);
+    else if (hunk.type === "added") stats.added += hunk.after.length;
+    else stats.removed += hunk.before.length;
+  }
+  return stats;
+}
+
+/**
+ * Finds each previously annotated passage in the new draft. With the previous text the
+ * paragraph diff says exactly what happened to it; without it the closest paragraph
+ * of the new draft is used.
+ * @param previous Previous draft and its feedback
+ * @param revisedText Text of the new draft
+ */
+export function locateRevisedPassages(previous: PreviousSubmission, revisedText: string): RevisedPassage[] {
+  const revisedParagraphs = splitParagraphs(revisedText);
+  const closestRevised = (text: string): string | null => {
+    const match = findParagraph(text, revisedParagraphs);
+    return match.similarity >= MIN_PARAGRAPH_SIMILARITY ? revisedParagraphs[match.index] : null;
+  };
+
+  const previousText = previous.markdownProposal;
+  const hunks = previousText ? diffParagraphs(previousText, revisedText) : [];
+  const previousParagraphs = previousText ? splitParagraphs(previousText) : [];
+
+  return previous.feedback.passages.map(passage => {
+    const quote = passage.referenced_student_text_quote;
+    const base = { quote, feedback: passage.feedback };
+
+    const located = findParagraph(quote, previousParagraphs);
+    if (located.index === -1 || located.similarity < MIN_PARAGRAPH_SIMILARITY) {
+      const after = closestRevised(quote);
+      return { ...base, before: quote, after, changed: after === null || !normalizeKey(after).includes(normalizeKey(quote)) };
+    }
+
+    const hunk = hunks.find(h => located.index >= h.beforeStart && located.index < h.beforeStart + h.before.length)!;
+    const before = previousParagraphs[located.index];
+    if (hunk.type === "equal") {
+      return { ...base, before, after: before, changed: false };
+    }
+    // Removed here, but it may have moved elsewhere in the new draft
+    const after = hunk.after.length > 0 ? hunk.after.join('\n\n') : closestRevised(before);
+    return { ...base, before: hunk.before.join('\n\n'), after, changed: true };
+  });
+}
+
+// Structured output asked of the model when judging the revisions
+export const revisionJudgementSchema: Schema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "Two or three sentences on how well the revision responds to the earlier feedback overall."
+    },
+    passages: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer", description: "Number of the earlier annotation." },
+          status: { type: "string", enum: [...REVISION_STATUSES] },
+          explanation: { type: "string", description: "What changed (or didn't) in response to the annotation." }
+        },
+        required: ["index", "status", "explanation"]
+      }
+    },
+    examination: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer", description: "Number of the earlier examination area." },
+          status: { type: "string", enum: [...REVISION_STATUSES] },
+          explanation: { type: "string", description: "Evidence from the new draft for the judgement." }
+        },
+        required: ["index", "status", "explanation"]
+      }
+    }
+  },
+  required: ["summary", "passages", "examination"]
+};
+
+export const REVISION_STATUS_LABELS: Record<RevisionStatus, string> = {
+  addressed: "Addressed",
+  partly_addressed: "Partly addressed",
+  ignored: "Ignored"
+};
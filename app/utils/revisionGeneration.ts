@@ -0,0 +1,129 @@
+import { LLMProvider, UsageMetadata } from "@/app/utils/llm";
+import { CHUNK_CHAR_LIMIT } from "@/app/utils/chunking";
+import { getDocumentType } from "@/app/utils/documentTypes";
+import { generateValidated } from "@/app/utils/feedbackGeneration";
+import { SchemaIssue } from "@/app/utils/schemaValidation";
+import { diffParagraphs } from "@/app/utils/textDiff";
+import { PLACEHOLDER_NOTE, redactKnownValues, redactPersonalData, restorePersonalData } from "@/app/utils/redaction";
+import {
+  countChanges,
+  locateRevisedPassages,
+  PreviousSubmission,
+  revisionJudgementSchema,
+  RevisionReport
+} from "@/app/utils/revision";
+
+export interface RevisionOptions {
+  previous: PreviousSubmission;
+  // Text of the new draft
+  markdownProposal: string;
+  documentType?: string;
+}
+
+// Keeps the prompt bounded for heavily rewritten documents
+const truncate = (text: string, limit: number): string =>
+  text.length > limit ? `${text.substring(0, limit)}... [truncated]` : text;
+
+// Every earlier passage and examination area must be judged exactly once
+const checkCoverage = (value: any, passages: number, examination: number): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  for (const [key, count] of [["passages", passages], ["examination", examination]] as const) {
+    const indices = new Set((value[key] || []).map((item: any) => item.index));
+    for (let index = 1; index <= count; index++) {
+      if (!indices.has(index)) issues.push({ path: `$.${key}`, message: `item ${index} was not judged` });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Judges whether the feedback on a previous draft was acted on in the new one. Personal
+ * data is redacted in both drafts and the earlier feedback, and restored in the report.
+ * @param llm Provider to use
+ * @param options Previous draft and feedback, new draft text and document type
+ * @returns Report with a status per earlier passage and examination area
+ * @throws FeedbackValidationError if the model output can't be validated
+ */
+export async function generateRevisionReport(
+  llm: LLMProvider,
+  options: RevisionOptions
+): Promise<{ report: RevisionReport; usage: UsageMetadata }> {
+  // One redaction over both drafts, so a name gets the same placeholder in each
+  const redaction = redactPersonalData([options.previous.markdownProposal, options.markdownProposal].filter(Boolean).join('\n\n'));
+  const markdownProposal = redactKnownValues(options.markdownProposal, redaction);
+  const previous: PreviousSubmission = {
+    markdownProposal: options.previous.markdownProposal && redactKnownValues(options.previous.markdownProposal, redaction),
+    feedback: redactKnownValues(options.previous.feedback, redaction)
+  };
+  const { documentType } = options;
+  const type = getDocumentType(documentType);
+  const revisedPassages = locateRevisedPassages(previous, markdownProposal);
+  const examination = previous.feedback.examination;
+
+  const passageList = revisedPassages.map((passage, index) => `${index + 1}. Earlier text: "${passage.before}"
+   Annotation: ${passage.feedback}
+   ${passage.after === null
+     ? 'In the new draft: this text was removed and no close counterpart was found.'
+     : passage.changed ? `In the new draft: "${passage.after}"` : 'In the new draft: unchanged.'}`).join('\n\n');
+
+  const examinationList = examination.map((item, index) => `${index + 1}. ${item.area_of_examination} (rated "${item.assesment_category}")
+   Comment: ${item.assessment_comment}${item["suggestion for improvement"] ? `\n   Suggestion: ${item["suggestion for improvement"]}` : ''}`).join('\n\n');
+
+  // With the old text we can show only what changed; otherwise the model needs the new draft itself
+  const hunks = previous.markdownProposal ? diffParagraphs(previous.markdownProposal, markdownProposal) : null;
+  const changes = hunks
+    ? hunks
+        .filter(hunk => hunk.type !== "equal")
+        .map(hunk => [
+          hunk.before.length > 0 ? `BEFORE:\n${hunk.before.join('\n\n')}` : '',
+          hunk.after.length > 0 ? `AFTER:\n${hunk.after.join('\n\n')}` : ''
+        ].filter(Boolean).join('\n'))
+        .join('\n\n===\n\n')
+    : null;
+  const context = changes !== null
+    ? `All changes between the drafts:\n\n${truncate(changes || 'No changes.', CHUNK_CHAR_LIMIT)}`
+    : `The earlier draft's full text is not available. The new draft:\n\n${truncate(markdownProposal, CHUNK_CHAR_LIMIT)}`;
+
+  const prompt = `A student revised their ${type.name} after receiving feedback. For each earlier annotation and each earlier examination area, judge whether the feedback was "addressed", "partly_addressed" or "ignored" in the new draft. Judge by substance: rewording that doesn't fix the problem counts as ignored, and a problem can be addressed by changes elsewhere in the document.
+
+Earlier annotations:
+
+${passageList || 'None.'}
+
+Earlier examination areas:
+
+${examinationList || 'None.'}
+
+${context}${redaction.replacements.length > 0 ? `\n\n${PLACEHOLDER_NOTE}` : ''}`;
+
+  const { value, usage } = await generateValidated(llm, {
+    messages: [{ role: "user", text: prompt }],
+    systemInstruction: `You are a professor checking a resubmitted ${type.name} against the feedback you gave on the previous draft.`,
+    temperature: 0.2,
+    maxOutputTokens: 8192,
+    responseSchema: revisionJudgementSchema
+  }, { validate: result => checkCoverage(result, revisedPassages.length, examination.length) });
+
+  const judgement = (key: "passages" | "examination", index: number) =>
+    (value[key] as any[]).find(item => item.index === index + 1);
+
+  return {
+    report: restorePersonalData({
+      summary: value.summary,
+      passages: revisedPassages.map((passage, index) => ({
+        ...passage,
+        status: judgement("passages", index).status,
+        explanation: judgement("passages", index).explanation
+      })),
+      examination: examination.map((item, index) => ({
+        area_of_examination: item.area_of_examination,
+        previous_category: item.assesment_category,
+        previous_comment: item.assessment_comment,
+        status: judgement("examination", index).status,
+        explanation: judgement("examination", index).explanation
+      })),
+      stats: hunks ? countChanges(hunks) : null
+    }, redaction),
+    usage
+  };
+}
@@ -0,0 +1,355 @@
+/**
+ * Structured rubrics: weighted criteria with level descriptors and grade boundaries
+ */
+import { Schema } from "./llm/types";
+import { ASSESSMENT_CATEGORIES, AssessmentCategory, FeedbackExamination, feedbackSchema } from "./feedback";
+import { SchemaIssue } from "./schemaValidation";
+
+export interface RubricLevel {
+  label: string;
+  points: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  weight: number;
+  levels: RubricLevel[];
+}
+
+export interface GradeBoundary {
+  grade: string;
+  // Lowest weighted percentage that earns this grade
+  minPercent: number;
+}
+
+// A passage graded by the course's markers, shown to the model to calibrate it to their standard
+export interface RubricExemplar {
+  id: string;
+  criterionId: string;
+  excerpt: string;
+  // The markers' comment and category for the excerpt
+  feedback: string;
+  category: AssessmentCategory;
+  // Held-out exemplars are left out of the prompt and used to check the model's agreement instead
+  heldOut?: boolean;
+}
+
+export interface Rubric {
+  name: string;
+  criteria: RubricCriterion[];
+  gradeBoundaries: GradeBoundary[];
+  exemplars?: RubricExemplar[];
+}
+
+export interface CriterionResult {
+  criterionId: string;
+  name: string;
+  weight: number;
+  level?: string;
+  points?: number;
+  maxPoints: number;
+  // Share of the maximum points, 0-1 (null when the criterion wasn't scored)
+  fraction: number | null;
+}
+
+export interface RubricResult {
+  criteria: CriterionResult[];
+  // Weighted total as a percentage of the maximum, over the scored criteria
+  totalPercent: number;
+  grade: string | null;
+}
+
+// Starting point for new rubrics in the editor
+export const DEFAULT_RUBRIC: Rubric = {
+  name: "Default rubric",
+  criteria: [
+    {
+      id: "research_question",
+      name: "Research Question",
+      weight: 30,
+      levels: [
+        { label: "Excellent", points: 4, descriptor: "Clear, focused and original question with a convincing rationale." },
+        { label: "Good", points: 3, descriptor: "Clear question with a reasonable rationale; minor gaps." },
+        { label: "Adequate", points: 2, descriptor: "Question is identifiable but vague or weakly motivated." },
+        { label: "Poor", points: 1, descriptor: "No clear question or rationale." }
+      ]
+    },
+    {
+      id: "methodology",
+      name: "Methodology",
+      weight: 40,
+      levels: [
+        { label: "Excellent", points: 4, descriptor: "Methods are appropriate, justified and described in enough detail to replicate." },
+        { label: "Good", points: 3, descriptor: "Methods are appropriate with some gaps in justification or detail." },
+        { label: "Adequate", points: 2, descriptor: "Methods are only partly suited to the question or poorly described." },
+        { label: "Poor", points: 1, descriptor: "Methods are missing or unsuitable." }
+      ]
+    },
+    {
+      id: "literature",
+      name: "Literature Review",
+      weight: 30,
+      levels: [
+        { label: "Excellent", points: 4, descriptor: "Critical, up-to-date synthesis that positions the contribution." },
+        { label: "Good", points: 3, descriptor: "Relevant literature covered with some critical engagement." },
+        { label: "Adequate", points: 2, descriptor: "Mostly descriptive or partly outdated coverage." },
+        { label: "Poor", points: 1, descriptor: "Little or no relevant literature." }
+      ]
+    }
+  ],
+  gradeBoundaries: [
+    { grade: "A", minPercent: 85 },
+    { grade: "B", minPercent: 70 },
+    { grade: "C", minPercent: 55 },
+    { grade: "D", minPercent: 40 },
+    { grade: "F", minPercent: 0 }
+  ]
+};
+
+// Shape of a rubric sent by the client, checked before it is used in a prompt
+export const rubricSchema: Schema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    criteria: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          weight: { type: "number" },
+          levels: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                label: { type: "string" },
+                points: { type: "number" },
+                descriptor: { type: "string" }
+              },
+              required: ["label", "points", "descriptor"]
+            }
+          }
+        },
+        required: ["id", "name", "weight", "levels"]
+      }
+    },
+    gradeBoundaries: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          grade: { type: "string" },
+          minPercent: { type: "number" }
+        },
+        required: ["grade", "minPercent"]
+      }
+    },
+    exemplars: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          criterionId: { type: "string" },
+          excerpt: { type: "string" },
+          feedback: { type: "string" },
+          category: { type: "string", enum: [...ASSESSMENT_CATEGORIES] },
+          heldOut: { type: "boolean" }
+        },
+        required: ["id", "criterionId", "excerpt", "feedback", "category"]
+      }
+    }
+  },
+  required: ["name", "criteria", "gradeBoundaries"]
+};
+
+const maxPoints = (criterion: RubricCriterion): number =>
+  criterion.levels.reduce((max, level) => Math.max(max, level.points), 0);
+
+/**
+ * Describes the rubric for the system prompt
+ */
+export function formatRubricForPrompt(rubric: Rubric): string {
+  const criteria = rubric.criteria.map(criterion => {
+    const levels = [...criterion.levels]
+      .sort((a, b) => b.points - a.points)
+      .map(level => `  - ${level.label} (${level.points} points): ${level.descriptor}`)
+      .join('\n');
+    return `- ${criterion.name} [criterion_id: ${criterion.id}, weight: ${criterion.weight}]\n${levels}`;
+  }).join('\n');
+
+  return `Score the document against this rubric ("${rubric.name}"). Return exactly one examination entry per criterion: use the criterion name exactly as written above as area_of_examination (even when writing in another language), set criterion_id, pick the level whose descriptor fits best and give its label as level and its points as score.
+
+${criteria}`;
+}
+
+// Long excerpts are cut so a handful of exemplars doesn't crowd out the document
+const MAX_EXEMPLAR_CHARS = 2000;
+
+// Exemplars with an excerpt, for criteria the rubric still has
+const usableExemplars = (rubric: Rubric): RubricExemplar[] =>
+  (rubric.exemplars || []).filter(exemplar =>
+    exemplar.excerpt.trim() && rubric.criteria.some(c => c.id === exemplar.criterionId));
+
+/**
+ * Exemplars that go into the prompt: those not held out, for criteria the rubric still has
+ */
+export const getPromptExemplars = (rubric: Rubric): RubricExemplar[] =>
+  usableExemplars(rubric).filter(exemplar => !exemplar.heldOut);
+
+/**
+ * Held-out exemplars, graded by the model to check its agreement with the markers
+ */
+export const getHeldOutExemplars = (rubric: Rubric): RubricExemplar[] =>
+  usableExemplars(rubric).filter(exemplar => exemplar.heldOut);
+
+/**
+ * Describes the markers' graded exemplars for the system prompt (empty without any)
+ */
+export function formatExemplarsForPrompt(rubric: Rubric): string {
+  const exemplars = getPromptExemplars(rubric);
+  if (exemplars.length === 0) return '';
+
+  const listed = exemplars.map((exemplar, index) => {
+    const criterion = rubric.criteria.find(c => c.id === exemplar.criterionId)!;
+    const excerpt = exemplar.excerpt.trim();
+    const shortened = excerpt.length > MAX_EXEMPLAR_CHARS ? `${excerpt.substring(0, MAX_EXEMPLAR_CHARS)}...` : excerpt;
+    return `Example ${index + 1} - ${criterion.name}, rated "${exemplar.category}":
+"""
+${shortened}
+"""
+Markers' comment: ${exemplar.feedback.trim() || '(none)'}`;
+  }).join('\n\n');
+
+  return `The course's markers graded the excerpts below from earlier submissions. They show the standard expected: rate comparable work the same way, and write comments in a similar tone and level of detail. Don't quote or mention these examples in your feedback.
+
+${listed}`;
+}
+
+/**
+ * Extends the feedback schema so examination entries carry rubric scores
+ * @param rubric Rubric the model should score against
+ * @param schema Base schema (the full feedback schema by default)
+ */
+export function withRubricSchema(rubric: Rubric, schema: Schema = feedbackSchema): Schema {
+  const examination = schema.properties!.examination;
+  const item = examination.items!;
+
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      examination: {
+        ...examination,
+        items: {
+          ...item,
+          properties: {
+            ...item.properties,
+            criterion_id: {
+              type: "string",
+              description: "ID of the rubric criterion this entry scores.",
+              enum: rubric.criteria.map(c => c.id)
+            },
+            level: {
+              type: "string",
+              description: "Label of the rubric level that best matches the document."
+            },
+            score: {
+              type: "number",
+              description: "Points of the chosen level."
+            }
+          },
+          required: [...(item.required || []), "criterion_id", "level", "score"]
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Checks that examination scores fit the rubric: each score belongs to one of its
+ * criterion's levels and (with requireAll) every criterion was scored
+ * @returns Issues in the same format as schema validation, for the repair prompt
+ */
+export function validateRubricScores(rubric: Rubric, examination: FeedbackExamination[], requireAll: boolean = true): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  examination.forEach((item, index) => {
+    const criterion = rubric.criteria.find(c => c.id === item.criterion_id);
+    if (criterion && !criterion.levels.some(level => level.points === item.score)) {
+      issues.push({
+        path: `$.examination[${index}].score`,
+        message: `${item.score} is not a level of "${criterion.name}" (allowed: ${criterion.levels.map(l => l.points).join(', ')})`
+      });
+    }
+  });
+
+  for (const criterion of requireAll ? rubric.criteria : []) {
+    if (!examination.some(item => item.criterion_id === criterion.id)) {
+      issues.push({ path: '$.examination', message: `criterion "${criterion.id}" (${criterion.name}) was not scored` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Puts the rubric's own criterion names and level labels on scored entries, so
+ * feedback written in another language still lines up with the rubric
+ */
+export function alignRubricEntries(rubric: Rubric, examination: FeedbackExamination[]): FeedbackExamination[] {
+  return examination.map(item => {
+    const criterion = rubric.criteria.find(c => c.id === item.criterion_id);
+    if (!criterion) return item;
+    const level = criterion.levels.find(l => l.points === item.score);
+    return { ...item, area_of_examination: criterion.name, ...(level ? { level: level.label } : {}) };
+  });
+}
+
+/**
+ * Maps a weighted percentage onto the rubric's grade boundaries
+ */
+export function gradeForPercent(rubric: Rubric, percent: number): string | null {
+  const boundary = [...rubric.gradeBoundaries]
+    .sort((a, b) => b.minPercent - a.minPercent)
+    .find(b => percent >= b.minPercent);
+  return boundary ? boundary.grade : null;
+}
+
+/**
+ * Computes the weighted total and grade from scored examination entries
+ * @param rubric Rubric the document was scored against
+ * @param examination Examination entries carrying criterion_id and score
+ */
+export function computeRubricResult(rubric: Rubric, examination: FeedbackExamination[]): RubricResult {
+  const criteria: CriterionResult[] = rubric.criteria.map(criterion => {
+    const item = examination.find(e => e.criterion_id === criterion.id);
+    const max = maxPoints(criterion);
+    const points = typeof item?.score === "number" ? Math.min(Math.max(item.score, 0), max) : undefined;
+    return {
+      criterionId: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight,
+      level: item?.level,
+      points,
+      maxPoints: max,
+      fraction: points !== undefined && max > 0 ? points / max : null
+    };
+  });
+
+  const scored = criteria.filter(c => c.fraction !== null);
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  const totalPercent = totalWeight > 0
+    ? Math.round(scored.reduce((sum, c) => sum + c.weight * (c.fraction as number), 0) / totalWeight * 1000) / 10
+    : 0;
+
+  return {
+    criteria,
+    totalPercent,
+    grade: scored.length > 0 ? gradeForPercent(rubric, totalPercent) : null
+  };
+}
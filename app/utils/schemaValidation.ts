@@ -0,0 +1,70 @@
+/**
+ * Runtime validation of JSON values against our provider-neutral Schema
+ */
+import { Schema } from "./llm/types";
+
+export interface SchemaIssue {
+  // Location of the problem, e.g. `$.examination[2].assesment_category`
+  path: string;
+  message: string;
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks a value against a schema
+ * @param value Parsed JSON
+ * @param schema Schema the value should match
+ * @param path Path of the value, used in the reported issues
+ * @returns All issues found (empty when the value is valid)
+ */
+export function validateSchema(value: unknown, schema: Schema, path: string = '$'): SchemaIssue[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [{ path, message: `expected ${schema.type}, got ${describe(value)}` }];
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [{ path, message: `expected object, got ${describe(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || (record[key] === null && !schema.properties?.[key]?.nullable)) {
+          issues.push({ path: `${path}.${key}`, message: 'missing required field' });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          issues.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return issues;
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        return [{ path, message: `expected array, got ${describe(value)}` }];
+      }
+      return schema.items
+        ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+        : [];
+    case "string":
+      if (typeof value !== "string") {
+        return [{ path, message: `expected string, got ${describe(value)}` }];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `"${value}" is not one of: ${schema.enum.map(e => `"${e}"`).join(', ')}` }];
+      }
+      return [];
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value) || (schema.type === "integer" && !Number.isInteger(value))) {
+        return [{ path, message: `expected ${schema.type}, got ${describe(value)}` }];
+      }
+      return [];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [{ path, message: `expected boolean, got ${describe(value)}` }];
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import { getProvider, UsageMetadata } from "@/app/utils/llm";
+import { getDocumentType } from "@/app/utils/documentTypes";
+import { describeOutputLanguage } from "@/app/utils/languages";
+import { CacheHit, cacheKey, readCache, writeCache } from "@/app/utils/resultCache";
+import { redactPersonalData, removePlaceholders } from "@/app/utils/redaction";
+
+export const MODEL_NAME = "gemini-2.0-flash-lite";
+
+export interface SearchTermsResult {
+  searchTerms: string[];
+  usage?: UsageMetadata;
+  error?: string;
+  // Set when the terms were served from the result cache
+  cached?: CacheHit;
+}
+
+// Helper function to extract main terms from a document text
+export function extractBasicTerms(text: string): string[] {
+  // Remove common stop words
+  const stopWords = new Set(['a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'about', 'as', 'into', 'like', 'through', 'after', 'over', 'between', 'out', 'against', 'during', 'without', 'before', 'under', 'around', 'among']);
+  
+  // Find most common meaningful words
+  const words = text.toLowerCase()
+    .replace(/[^\w\s]/g, ' ')  // Replace punctuation with spaces
+    .split(/\s+/)              // Split on whitespace
+    .filter(word => word.length > 4 && !stopWords.has(word)); // Filter short words and stop words
+  
+  // Count word frequency
+  const wordCounts = words.reduce((acc: {[key: string]: number}, word) => {
+    acc[word] = (acc[word] || 0) + 1;
+    return acc;
+  }, {});
+  
+  // Convert to array and sort by frequency
+  const sortedWords = Object.entries(wordCounts)
+    .sort((a, b) => b[1] - a[1])
+    .map(entry => entry[0])
+    .slice(0, 5); // Take top 5 words
+  
+  // Combine top words into phrases
+  const result = [sortedWords[0]];
+  
+  if (sortedWords.length > 1) {
+    result.push(`${sortedWords[0]} ${sortedWords[1]}`);
+  }
+  
+  if (sortedWords.length > 2) {
+    result.push(`${sortedWords[0]} ${sortedWords[2]}`);
+  }
+  
+  return result.slice(0, 3); // Return at most 3 terms
+}
+
+/**
+ * Asks the LLM for 1-3 literature search terms for a document. Falls back to
+ * basic term extraction if the call fails, so this never throws. Results are cached
+ * unless `force` is set; the fallback after a failed call is not.
+ * @param request Incoming request (used to resolve the provider and API key)
+ * @param options Document text, document type, output language and optional provider name
+ */
+export async function generateSearchTerms(
+  request: NextRequest,
+  options: { markdownProposal: string; documentType?: string; language?: string; provider?: string; force?: boolean }
+): Promise<SearchTermsResult> {
+  const { documentType, language, provider, force } = options;
+  const type = getDocumentType(documentType);
+  // Search terms go on to OpenAlex, so they are built from the redacted text and not restored
+  const markdownProposal = redactPersonalData(options.markdownProposal).text;
+
+  // Create a prompt that asks for search terms
+  const prompt = `Based on the following ${type.name}, 
+    generate 1-3 specific search terms or queries that would be useful for finding related academic papers on Semantic Scholar.
+    ${type.searchTermsPrompt}
+    Write the search terms in ${describeOutputLanguage(language, markdownProposal)}.
+    Format your response as a JSON array of strings. Example: ["quantum computing ethics", "post-quantum cryptography"]
+    
+    Here's the document:
+    ${markdownProposal.substring(0, 4000)}... [truncated for brevity]`;
+
+  try {
+    const llm = getProvider(request, { provider, geminiModel: MODEL_NAME });
+
+    const key = cacheKey({ markdownProposal: options.markdownProposal, documentType: type.id, language, provider: llm.name, model: llm.model });
+    const cached = force ? null : await readCache<SearchTermsResult>("search-terms", key);
+    if (cached) return { ...cached.value, cached: cached.hit };
+
+    console.log(`Sending request to ${llm.name} for search terms...`);
+
+    const response = await llm.generate({
+      messages: [{ role: "user", text: prompt }],
+      temperature: 0.2,
+      topP: 0.95,
+      maxOutputTokens: 1024,
+    });
+
+    console.log(`Received search terms from ${llm.name}.`);
+    
+    // Extract the JSON array from the response
+    const responseText = response.text || "[]";
+    let searchTerms;
+    
+    try {
+      // Look for array pattern in the response using a more compatible approach
+      // Find the first [ and last ] to extract JSON array
+      const startIndex = responseText.indexOf('[');
+      const endIndex = responseText.lastIndexOf(']');
+      
+      if (startIndex !== -1 && endIndex !== -1 && endIndex > startIndex) {
+        const jsonArrayStr = responseText.substring(startIndex, endIndex + 1);
+        searchTerms = JSON.parse(jsonArrayStr);
+      } else {
+        // If no proper array found, try to extract terms another way
+        const terms = responseText
+          .split(/[\n,]/)
+          .map(term => term.trim())
+          .filter(term => term && !term.startsWith('[') && !term.startsWith(']') && !term.includes('":['))
+          .map(term => term.replace(/^["'\s]+|["'\s]+$/g, ''));
+        
+        searchTerms = terms.length > 0 ? terms : extractBasicTerms(removePlaceholders(markdownProposal));
+      }
+    } catch (parseError) {
+      console.error("Failed to parse search terms:", parseError);
+      // Fall back to basic term extraction
+      searchTerms = extractBasicTerms(removePlaceholders(markdownProposal));
+    }
+
+    const result = {
+      searchTerms,
+      usage: response.usage
+    };
+    await writeCache("search-terms", key, result);
+    return result;
+  } catch (apiError) {
+    console.error("Error calling LLM API:", apiError);
+    // Fall back to basic term extraction
+    return {
+      searchTerms: extractBasicTerms(removePlaceholders(markdownProposal)),
+      error: "LLM API call failed, using basic term extraction instead"
+    };
+  }
+}
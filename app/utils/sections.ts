@@ -0,0 +1,213 @@
+/**
+ * Document structure derived from the markdown headings produced by OCR
+ */
+
+export interface DocumentHeading {
+  level: number;
+  title: string;
+  // Offset of the heading line
+  start: number;
+  // Offset where the section ends (next heading of the same or a higher level)
+  end: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/gm;
+
+/**
+ * Lists the markdown headings of a document with the extent of their sections
+ */
+export function parseHeadings(markdown: string): DocumentHeading[] {
+  const headings = Array.from(markdown.matchAll(HEADING_PATTERN), match => ({
+    level: match[1].length,
+    title: match[2].trim(),
+    start: match.index ?? 0,
+    end: markdown.length
+  }));
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    if (next) heading.end = next.start;
+  });
+
+  return headings;
+}
+
+/**
+ * Returns the text of the section with the given heading, including its subsections
+ * @returns The section text, or null if the document has no such heading
+ */
+export function getSectionText(markdown: string, title: string): string | null {
+  const heading = parseHeadings(markdown).find(h => h.title === title);
+  return heading ? markdown.substring(heading.start, heading.end) : null;
+}
+
+export interface SectionNode extends DocumentHeading {
+  // Words in the section, including its subsections but not its heading
+  words: number;
+  children: SectionNode[];
+}
+
+export type SectionStatus = "present" | "thin" | "missing";
+
+// How one of a document type's expected sections is covered by the document
+export interface SectionCheck {
+  expected: string;
+  status: SectionStatus;
+  // Heading (or paragraph label) found for the section
+  heading?: string;
+  start?: number;
+  words: number;
+}
+
+// Sections shorter than this are flagged as thin
+const THIN_SECTION_WORDS = 60;
+
+// Other headings under which an expected section commonly appears, keyed by its
+// normalized name. The name itself always matches.
+const SECTION_ALIASES: Record<string, string[]> = {
+  "abstract": ["summary", "executive summary", "zusammenfassung", "resumen", "résumé", "samenvatting"],
+  "summary": ["abstract", "executive summary", "zusammenfassung"],
+  "introduction": ["intro", "einleitung", "introducción", "inleiding", "introduzione"],
+  "research question": ["research questions", "research aims", "aims and objectives", "research objectives", "hypothesis", "hypotheses", "problem statement", "forschungsfrage", "pregunta de investigación"],
+  "literature review": ["literature", "related work", "prior work", "state of the art", "theoretical framework", "forschungsstand", "marco teórico"],
+  "background": ["context", "literature", "related work", "state of the art", "hintergrund"],
+  "methodology": ["methods", "method", "research design", "approach", "materials and methods", "data and methods", "methodik", "methode", "metodología"],
+  "methods": ["methodology", "method", "research design", "materials and methods", "data and methods", "methodik", "methode", "metodología"],
+  "results": ["findings", "ergebnisse", "resultados"],
+  "discussion": ["diskussion", "discusión"],
+  "conclusion": ["conclusions", "concluding remarks", "fazit", "schluss", "conclusiones"],
+  "ethical considerations": ["ethics", "ethical", "ethik", "research ethics", "data protection"],
+  "timeline": ["time plan", "timetable", "schedule", "work plan", "workplan", "gantt", "zeitplan", "cronograma"],
+  "work plan": ["workplan", "work packages", "timeline", "time plan", "schedule"],
+  "objectives": ["aims", "goals", "research questions"],
+  "aim": ["aims", "objective", "objectives", "purpose"],
+  "impact": ["dissemination", "expected outcomes", "expected results", "relevance"],
+  "budget": ["costs", "resources", "funding"],
+  "search strategy": ["search method", "literature search", "search methods", "inclusion criteria"],
+  "thematic synthesis": ["synthesis", "themes", "thematic analysis"],
+  "research gaps": ["gaps", "future research", "open questions"],
+  "main argument": ["argument", "analysis", "discussion"],
+  "references": ["bibliography", "works cited", "literature cited", "reference list", "sources", "literaturverzeichnis", "literatur", "bibliografía"]
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+// Lower-case title without numbering ("2.1", "Chapter 3:") or markdown emphasis
+const normalizeTitle = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[*_`]/g, '')
+    .replace(/^(?:chapter|section|part|kapitel)?\s*(?:\d+(?:\.\d+)*|[ivx]+)[.):]?\s+/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Headings match when they contain the name or an alias; paragraph labels must equal one
+const matchesSection = (title: string, expected: string, exact: boolean = false): boolean => {
+  const name = normalizeTitle(expected);
+  const normalized = normalizeTitle(title);
+  return [name, ...(SECTION_ALIASES[name] ?? [])]
+    .some(alias => exact ? normalized === alias : ` ${normalized} `.includes(` ${alias} `));
+};
+
+/**
+ * Sections about a topic such as an examination area: headings that match one of the
+ * names as an expected section would, or whose title appears in a name
+ * @returns The outermost matching headings, in document order
+ */
+export function findSectionsAbout(markdown: string, names: string[]): DocumentHeading[] {
+  const matches = parseHeadings(markdown).filter(heading => {
+    const title = normalizeTitle(heading.title);
+    return names.some(name =>
+      matchesSection(heading.title, name) || (title.length >= 4 && ` ${normalizeTitle(name)} `.includes(` ${title} `)));
+  });
+  return matches.filter(heading => !matches.some(outer => outer.start < heading.start && heading.end <= outer.end));
+}
+
+// OCR often renders short section titles as a bold line, or as a label starting the paragraph
+const LABEL_PATTERN = /^(?:(?:\*\*|__)([^\n*_]{3,40})(?:\*\*|__)|([^\n*_:.]{3,40}):)/gm;
+
+/**
+ * Nests the headings of a document into a section tree
+ * @returns The top-level sections; text before the first heading is not part of any section
+ */
+export function buildSectionTree(markdown: string): SectionNode[] {
+  const roots: SectionNode[] = [];
+  const stack: SectionNode[] = [];
+  for (const heading of parseHeadings(markdown)) {
+    const bodyStart = markdown.indexOf('\n', heading.start);
+    const node: SectionNode = {
+      ...heading,
+      words: bodyStart === -1 || bodyStart >= heading.end ? 0 : countWords(markdown.substring(bodyStart, heading.end)),
+      children: []
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+  return roots;
+}
+
+/**
+ * Finds the innermost section containing a position in the text
+ * @returns The heading, or null before the first heading
+ */
+export function findSectionAt(headings: DocumentHeading[], offset: number): DocumentHeading | null {
+  return headings
+    .filter(h => h.start <= offset && offset < h.end)
+    .reduce<DocumentHeading | null>((innermost, h) => !innermost || h.level > innermost.level ? h : innermost, null);
+}
+
+/**
+ * Checks which of a document type's expected sections the document has, and flags
+ * those that are missing or have very little text
+ * @param markdown Document text
+ * @param expectedSections Section names from the document type
+ */
+export function checkExpectedSections(markdown: string, expectedSections: string[]): SectionCheck[] {
+  const headings = parseHeadings(markdown);
+  return expectedSections.map(expected => {
+    const heading = headings.find(h => matchesSection(h.title, expected));
+    if (heading) {
+      const bodyStart = markdown.indexOf('\n', heading.start);
+      const words = bodyStart === -1 || bodyStart >= heading.end ? 0 : countWords(markdown.substring(bodyStart, heading.end));
+      return { expected, status: words < THIN_SECTION_WORDS ? "thin" : "present", heading: heading.title, start: heading.start, words };
+    }
+
+    // Without a heading, accept a labelled paragraph ("**Abstract** ...", "Timeline: ...")
+    const label = Array.from(markdown.matchAll(LABEL_PATTERN)).find(match => matchesSection(match[1] ?? match[2], expected, true));
+    if (label) {
+      const bodyStart = label.index! + label[0].length;
+      // A bold title line is followed by its paragraph after a blank line
+      const paragraphStart = markdown.substring(bodyStart).match(/^[\s:.]*/)![0].length + bodyStart;
+      const paragraphEnd = markdown.indexOf('\n\n', paragraphStart);
+      const words = countWords(markdown.substring(paragraphStart, paragraphEnd === -1 ? markdown.length : paragraphEnd));
+      return { expected, status: words < THIN_SECTION_WORDS ? "thin" : "present", heading: (label[1] ?? label[2]).trim(), start: label.index!, words };
+    }
+
+    return { expected, status: "missing", words: 0 };
+  });
+}
+
+/**
+ * Describes the document's outline and section coverage for the system prompt
+ * @returns The description, or an empty string when the document has no headings
+ */
+export function describeDocumentStructure(markdown: string, expectedSections: string[]): string {
+  const headings = parseHeadings(markdown);
+  if (headings.length === 0) return '';
+
+  const outline = buildSectionTree(markdown);
+  const lines: string[] = [];
+  const walk = (nodes: SectionNode[], depth: number) => nodes.forEach(node => {
+    lines.push(`${'  '.repeat(depth)}- ${node.title} (${node.words} words)`);
+    walk(node.children, depth + 1);
+  });
+  walk(outline, 0);
+
+  const checks = checkExpectedSections(markdown, expectedSections);
+  const missing = checks.filter(c => c.status === "missing").map(c => c.expected);
+  const thin = checks.filter(c => c.status === "thin").map(c => `${c.expected} (${c.words} words)`);
+
+  return `The document is structured as follows:
+${lines.join('\n')}${missing.length > 0 ? `\n\nExpected sections that appear to be missing: ${missing.join(', ')}.` : ''}${thin.length > 0 ? `\nExpected sections that are very short: ${thin.join(', ')}.` : ''}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Server-sent event helpers, used by streaming API routes and the client
+ */
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Creates a text/event-stream Response. The handler sends events and the
+ * stream is closed once it resolves; a thrown error is sent as an `error` event.
+ * @param handler Function that produces the events
+ * @returns Response to return from a route handler
+ */
+export function eventStreamResponse(handler: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await handler(send);
+      } catch (error: any) {
+        console.error("Event stream error:", error);
+        // Errors may carry structured details (e.g. schema validation issues)
+        send('error', { error: error.message || 'Unknown error', ...(error.details ? { details: error.details } : {}) });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Reads a server-sent event stream from a fetch Response
+ * @param response Response whose body is a text/event-stream
+ * @param onEvent Called with the event name and parsed JSON data of each event
+ */
+export async function readEventStream(response: Response, onEvent: (event: string, data: any) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream.');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const raw of events) {
+      let event = 'message';
+      let data = '';
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
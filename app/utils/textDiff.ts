@@ -0,0 +1,149 @@
+/**
+ * Text diffing for comparing two drafts: by paragraph for the overall
+ * structure, by word for showing what changed inside a paragraph
+ */
+
+export type DiffOpType = "equal" | "removed" | "added";
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+export interface DiffHunk {
+  type: "equal" | "changed" | "added" | "removed";
+  before: string[];
+  after: string[];
+  // Index of the first paragraph of this hunk in each version
+  beforeStart: number;
+  afterStart: number;
+}
+
+export interface WordDiffPart {
+  type: DiffOpType;
+  text: string;
+}
+
+// Above this many cells the LCS table gets too large; the sequences are then treated as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence diff of two sequences
+ * @param key Maps an item to the string it is compared by
+ */
+export function diffSequences<T>(a: T[], b: T[], key: (item: T) => string = String): DiffOp<T>[] {
+  // Equal prefix and suffix don't need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && key(a[prefix]) === key(b[prefix])) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && key(a[a.length - 1 - suffix]) === key(b[b.length - 1 - suffix])) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, item: T) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.items.push(item);
+    else ops.push({ type, items: [item] });
+  };
+
+  a.slice(0, prefix).forEach(item => push("equal", item));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach(item => push("removed", item));
+    midB.forEach(item => push("added", item));
+  } else {
+    const keysA = midA.map(key);
+    const keysB = midB.map(key);
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = keysA[i] === keysB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (keysA[i] === keysB[j]) {
+        push("equal", midA[i++]);
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        push("removed", midA[i++]);
+      } else {
+        push("added", midB[j++]);
+      }
+    }
+    midA.slice(i).forEach(item => push("removed", item));
+    midB.slice(j).forEach(item => push("added", item));
+  }
+
+  a.slice(a.length - suffix).forEach(item => push("equal", item));
+  return ops;
+}
+
+// Paragraphs are compared ignoring whitespace differences introduced by OCR
+const paragraphKey = (paragraph: string): string => paragraph.replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits markdown into paragraphs (blank-line separated blocks, page separators dropped)
+ */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p && p !== '---');
+}
+
+/**
+ * Diffs two versions of a document by paragraph. Adjacent removed and added
+ * paragraphs are reported together as one "changed" hunk.
+ */
+export function diffParagraphs(before: string, after: string): DiffHunk[] {
+  const ops = diffSequences(splitParagraphs(before), splitParagraphs(after), paragraphKey);
+  const hunks: DiffHunk[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+
+  for (const op of ops) {
+    const last = hunks[hunks.length - 1];
+    if (op.type === "equal") {
+      hunks.push({ type: "equal", before: op.items, after: op.items, beforeStart: beforeIndex, afterStart: afterIndex });
+      beforeIndex += op.items.length;
+      afterIndex += op.items.length;
+    } else if (last && last.type !== "equal") {
+      // Second half of a replacement
+      if (op.type === "removed") last.before = [...last.before, ...op.items];
+      else last.after = [...last.after, ...op.items];
+      last.type = "changed";
+      if (op.type === "removed") beforeIndex += op.items.length;
+      else afterIndex += op.items.length;
+    } else {
+      hunks.push({
+        type: op.type,
+        before: op.type === "removed" ? op.items : [],
+        after: op.type === "added" ? op.items : [],
+        beforeStart: beforeIndex,
+        afterStart: afterIndex
+      });
+      if (op.type === "removed") beforeIndex += op.items.length;
+      else afterIndex += op.items.length;
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Word-level diff of two passages, keeping the whitespace so the parts can be
+ * rendered back to back
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  return diffSequences(tokenize(before), tokenize(after))
+    .map(op => ({ type: op.type, text: op.items.join('') }));
+}
@@ -0,0 +1,78 @@
+import { LLMMessage, LLMProvider, UsageMetadata } from "@/app/utils/llm";
+import { CHUNK_CHAR_LIMIT } from "@/app/utils/chunking";
+import { getDocumentType } from "@/app/utils/documentTypes";
+import { normalizeKey } from "@/app/utils/feedback";
+import { MAX_THREAD_HISTORY, ThreadMessage } from "@/app/utils/annotationThreads";
+import { PLACEHOLDER_NOTE, redactKnownValues, redactPersonalData, restorePersonalData } from "@/app/utils/redaction";
+
+export interface ThreadReplyOptions {
+  markdownProposal: string;
+  quote: string;
+  feedback: string;
+  history: ThreadMessage[];
+  message: string;
+  documentType?: string;
+}
+
+// Part of the document around the quote, so long documents still fit in the prompt
+function excerptAround(text: string, quote: string, limit: number = CHUNK_CHAR_LIMIT): string {
+  if (text.length <= limit) return text;
+  const position = Math.max(0, text.indexOf(quote) !== -1
+    ? text.indexOf(quote)
+    : normalizeKey(text).indexOf(normalizeKey(quote)));
+  const start = Math.max(0, Math.min(position - limit / 2, text.length - limit));
+  return `${start > 0 ? '[...] ' : ''}${text.substring(start, start + limit)}${start + limit < text.length ? ' [...]' : ''}`;
+}
+
+/**
+ * Answers a student's follow-up question about one annotation. Personal data is
+ * redacted in everything sent to the model and restored in the reply.
+ * @param llm Provider to use
+ * @param options Document, annotated passage, original feedback, earlier messages and the new question
+ * @returns The reviewer's reply
+ */
+export async function generateThreadReply(
+  llm: LLMProvider,
+  options: ThreadReplyOptions
+): Promise<{ reply: string; usage: UsageMetadata }> {
+  const redaction = redactPersonalData(options.markdownProposal);
+  const markdownProposal = redaction.text;
+  const { quote, feedback, history, message } = redactKnownValues(
+    { quote: options.quote, feedback: options.feedback, history: options.history, message: options.message },
+    redaction
+  );
+  const { documentType } = options;
+  const type = getDocumentType(documentType);
+
+  const systemInstruction = `You are the professor who gave feedback on ${type.roleDescription}. The student is asking a follow-up question about one of your annotations.
+
+Answer the question directly and concisely. Clarify what you meant, and give a concrete example when it helps. Keep to the annotated passage and your original point; don't review other parts of the document unless the student asks. Don't rewrite the passage for the student, but you may show a short illustrative example.
+
+Annotated passage:
+"${quote}"
+
+Your annotation:
+${feedback}
+
+The document:
+${excerptAround(markdownProposal, quote)}${redaction.replacements.length > 0 ? `\n\n${PLACEHOLDER_NOTE}` : ''}`;
+
+  const messages: LLMMessage[] = [
+    ...history.slice(-MAX_THREAD_HISTORY).map(m => ({
+      role: m.role === "student" ? "user" as const : "assistant" as const,
+      text: m.text
+    })),
+    { role: "user", text: message }
+  ];
+  // Conversations have to start with the user
+  while (messages.length > 0 && messages[0].role !== "user") messages.shift();
+
+  const response = await llm.generate({
+    messages,
+    systemInstruction,
+    temperature: 0.5,
+    maxOutputTokens: 2048
+  });
+
+  return { reply: restorePersonalData(response.text.trim(), redaction), usage: response.usage };
+}
@@ -0,0 +1,88 @@
+/**
+ * Minimal ZIP writer for generated exports such as DOCX files. Entries are stored
+ * uncompressed, which every ZIP reader (and Word) accepts.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Little-endian header fields
+const header = (fields: [number, 2 | 4][]): Uint8Array => {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += size;
+  }
+  return bytes;
+};
+
+// 1 January 1980, the earliest DOS date; generated files carry no meaningful timestamp
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 1 << 11;
+
+/**
+ * Packs the entries into a ZIP archive
+ * @param entries File names (with forward slashes) and contents; strings are written as UTF-8
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = header([
+      [0x04034b50, 4], [20, 2], [UTF8_FLAG, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2]
+    ]);
+    parts.push(local, name, data);
+
+    directory.push(header([
+      [0x02014b50, 4], [20, 2], [20, 2], [UTF8_FLAG, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]
+    ]), name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = header([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2], [directorySize, 4], [offset, 4], [0, 2]
+  ]);
+
+  const all = [...parts, ...directory, end];
+  const zip = new Uint8Array(all.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of all) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}